@@ -95,6 +95,24 @@ export default [
     external,
     plugins: jsPlugins,
   },
+  // Testing subpath
+  {
+    input: 'src/testing/index.ts',
+    output: [
+      {
+        file: 'dist/testing/index.cjs',
+        format: 'cjs',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/testing/index.mjs',
+        format: 'es',
+        sourcemap: true,
+      },
+    ],
+    external,
+    plugins: jsPlugins,
+  },
   // Types subpath
   {
     input: 'src/types.ts',
@@ -134,6 +152,11 @@ export default [
     output: [{ file: 'dist/serializers/index.d.ts', format: 'es' }],
     plugins: [dts()],
   },
+  {
+    input: 'dist/types/testing/index.d.ts',
+    output: [{ file: 'dist/testing/index.d.ts', format: 'es' }],
+    plugins: [dts()],
+  },
   {
     input: 'dist/types/types.d.ts',
     output: [{ file: 'dist/types.d.ts', format: 'es' }],
@@ -0,0 +1,58 @@
+import {
+  IBrokerAdapter,
+  BrokerMessage,
+  MessageHandler,
+} from '@syntropylog/types';
+import { CircuitBreaker, CircuitBreakerOptions } from '../utils/CircuitBreaker';
+
+export interface BrokerCircuitBreakerOptions extends CircuitBreakerOptions {
+  /**
+   * A breaker to share with other decorators. When omitted, one is created
+   * from the options above.
+   */
+  breaker?: CircuitBreaker;
+  /** Maps a topic to its circuit. Defaults to the topic itself. */
+  keyFor?: (topic: string) => string;
+}
+
+/**
+ * Wraps another broker adapter with a per-topic circuit breaker on `publish`.
+ * While a topic's circuit is open, publishing to it rejects with a
+ * `CircuitOpenError` instead of waiting on a degraded cluster. Consuming is
+ * passed through untouched. State changes are emitted by `breaker`.
+ */
+export class CircuitBreakerBrokerAdapter implements IBrokerAdapter {
+  readonly breaker: CircuitBreaker;
+  private readonly adapter: IBrokerAdapter;
+  private readonly keyFor: (topic: string) => string;
+
+  constructor(adapter: IBrokerAdapter, options: BrokerCircuitBreakerOptions = {}) {
+    const { breaker, keyFor, ...breakerOptions } = options;
+    this.adapter = adapter;
+    this.breaker = breaker ?? new CircuitBreaker(breakerOptions);
+    this.keyFor = keyFor ?? (topic => topic);
+  }
+
+  async connect(): Promise<void> {
+    await this.adapter.connect();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.adapter.disconnect();
+  }
+
+  async publish(topic: string, message: BrokerMessage): Promise<void> {
+    await this.breaker.execute(this.keyFor(topic), () => this.adapter.publish(topic, message));
+  }
+
+  async subscribe(topic: string, handler: MessageHandler): Promise<void> {
+    await this.adapter.subscribe(topic, handler);
+  }
+
+  async unsubscribe(topic: string): Promise<void> {
+    if (!this.adapter.unsubscribe) {
+      throw new Error('The wrapped broker adapter does not support unsubscribe.');
+    }
+    await this.adapter.unsubscribe(topic);
+  }
+}
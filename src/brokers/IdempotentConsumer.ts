@@ -0,0 +1,218 @@
+import { createHash } from 'crypto';
+import { BrokerMessage, MessageHandler, MessageLifecycleControls } from '@syntropylog/types';
+
+/**
+ * What `IdempotencyStore.claim` found: `claimed` when the id was free and is
+ * now leased to the caller, `processing` while another delivery holds the
+ * lease, and `done` once the message has been processed.
+ */
+export type IdempotencyClaim = 'claimed' | 'processing' | 'done';
+
+/**
+ * Remembers the ids of messages being processed and processed. Implementations
+ * backed by Redis (`SET key processing NX PX lease`, then `SET key done PX ttl`)
+ * or SQL (`INSERT ... ON CONFLICT DO NOTHING` with a state and an expiry
+ * column) let several consumer instances share what they have seen.
+ */
+export interface IdempotencyStore {
+  /**
+   * Leases `id` for `leaseMs` milliseconds unless it is already leased or done.
+   * Must be atomic so that two deliveries of a message cannot both claim it.
+   */
+  claim(id: string, leaseMs: number): Promise<IdempotencyClaim>;
+  /** Records `id` as processed for `ttlMs` milliseconds. */
+  complete(id: string, ttlMs: number): Promise<void>;
+  /** Forgets `id`, so that a redelivery of a message that failed is processed again. */
+  release(id: string): Promise<void>;
+}
+
+export interface InMemoryIdempotencyStoreOptions {
+  /** Ids kept before the least recently seen ones are evicted. Defaults to 10000. */
+  maxEntries?: number;
+}
+
+interface IdempotencyEntry {
+  expiresAt: number;
+  done: boolean;
+}
+
+/**
+ * An `IdempotencyStore` kept in the process: an LRU of ids that expire after
+ * their lease or TTL. It only deduplicates deliveries received by the same instance.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly maxEntries: number;
+  // Entries by id, least recently seen first.
+  private entries: Map<string, IdempotencyEntry> = new Map();
+
+  constructor(options: InMemoryIdempotencyStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10000;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async claim(id: string, leaseMs: number): Promise<IdempotencyClaim> {
+    const now = Date.now();
+    const entry = this.entries.get(id);
+    if (entry !== undefined && entry.expiresAt > now) {
+      // Seen again: move it to the most recently seen end.
+      this.entries.delete(id);
+      this.entries.set(id, entry);
+      return entry.done ? 'done' : 'processing';
+    }
+
+    this.entries.delete(id);
+    this.entries.set(id, { expiresAt: now + leaseMs, done: false });
+    this.evict(now);
+    return 'claimed';
+  }
+
+  async complete(id: string, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    this.entries.delete(id);
+    this.entries.set(id, { expiresAt: now + ttlMs, done: true });
+    this.evict(now);
+  }
+
+  async release(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  /** Drops the least recently seen ids while over capacity, and expired ones at the front. */
+  private evict(now: number): void {
+    for (const [id, { expiresAt }] of this.entries) {
+      if (this.entries.size <= this.maxEntries && expiresAt > now) {
+        break;
+      }
+      this.entries.delete(id);
+    }
+  }
+}
+
+/** Passed to `onDuplicate` for every skipped message. */
+export interface DuplicateMessageEvent {
+  id: string;
+  message: BrokerMessage;
+}
+
+export interface IdempotentHandlerOptions {
+  /** Where seen ids are kept. Defaults to a new `InMemoryIdempotencyStore`. */
+  store?: IdempotencyStore;
+  /**
+   * Headers that carry the message id, tried in order. Defaults to
+   * `x-message-id` and `x-dedup-key` (set by `OutboxRelay`).
+   */
+  idHeaders?: string[];
+  /** Derives the id from the message instead; returning undefined falls back to the headers. */
+  messageId?: (message: BrokerMessage) => string | undefined;
+  /**
+   * Use a SHA-256 hash of the payload when the message has no id. Defaults to
+   * true; when false such messages are processed without deduplication.
+   */
+  hashPayload?: boolean;
+  /**
+   * How long a message being handled stays claimed, in milliseconds. A
+   * redelivery that arrives meanwhile is nacked for requeueing; once the lease
+   * runs out (e.g. the instance handling it crashed) the message is processed
+   * again. Should exceed the handler's run time. Defaults to 1 minute.
+   */
+  leaseMs?: number;
+  /** How long the id of a processed message is remembered, in milliseconds. Defaults to 24 hours. */
+  ttlMs?: number;
+  /** Prefix added to ids in the store, e.g. the consumer group, for shared stores. */
+  namespace?: string;
+  /** Called after a duplicate has been acked. */
+  onDuplicate?: (event: DuplicateMessageEvent) => void;
+}
+
+function hashPayload(payload: unknown): string {
+  const data = Buffer.isBuffer(payload) || typeof payload === 'string' ? payload : JSON.stringify(payload);
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function resolveMessageId(message: BrokerMessage, options: IdempotentHandlerOptions): string | undefined {
+  const custom = options.messageId?.(message);
+  if (custom !== undefined) {
+    return custom;
+  }
+
+  for (const header of options.idHeaders ?? ['x-message-id', 'x-dedup-key']) {
+    const value = message.headers?.[header];
+    if (value !== undefined) {
+      return Buffer.isBuffer(value) ? value.toString() : value;
+    }
+  }
+
+  return options.hashPayload === false ? undefined : `sha256:${hashPayload(message.payload)}`;
+}
+
+/**
+ * Wraps a handler so that a message delivered more than once is processed
+ * once. The id is leased in the store before the handler runs and recorded as
+ * done when the handler acks or returns; duplicates of a done message are
+ * acked without calling the handler, and those of a message still being
+ * handled are nacked for requeueing. When the handler nacks or throws, the id
+ * is released so that the redelivery is processed.
+ * @param {MessageHandler} handler - The handler to protect.
+ * @param {IdempotentHandlerOptions} [options] - Id extraction and store settings.
+ * @returns A handler to pass to `subscribe`.
+ */
+export function createIdempotentHandler(
+  handler: MessageHandler,
+  options: IdempotentHandlerOptions = {}
+): MessageHandler {
+  const store = options.store ?? new InMemoryIdempotencyStore();
+  const leaseMs = options.leaseMs ?? 60 * 1000;
+  const ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+
+  return async (message: BrokerMessage, controls: MessageLifecycleControls) => {
+    const id = resolveMessageId(message, options);
+    if (id === undefined) {
+      await handler(message, controls);
+      return;
+    }
+
+    const key = options.namespace ? `${options.namespace}:${id}` : id;
+    const claim = await store.claim(key, leaseMs);
+    if (claim === 'done') {
+      await controls.ack();
+      options.onDuplicate?.({ id, message });
+      return;
+    }
+    if (claim === 'processing') {
+      // Another delivery is being handled; it may still fail, so keep this one.
+      await controls.nack(true);
+      return;
+    }
+
+    let settled = false;
+    // Controls of some adapters carry more than ack/nack (offsets, redelivery counts).
+    const guarded = {
+      ...controls,
+      ack: async () => {
+        settled = true;
+        await store.complete(key, ttlMs);
+        await controls.ack();
+      },
+      nack: async (requeue?: boolean, ...rest: unknown[]) => {
+        settled = true;
+        await store.release(key);
+        await (controls.nack as (...args: unknown[]) => Promise<void>)(requeue, ...rest);
+      },
+    };
+
+    try {
+      await handler(message, guarded);
+    } catch (error) {
+      if (!settled) {
+        await store.release(key);
+      }
+      throw error;
+    }
+    if (!settled) {
+      await store.complete(key, ttlMs);
+    }
+  };
+}
@@ -0,0 +1,300 @@
+import {
+  IBrokerAdapter,
+  BrokerMessage,
+  MessageHandler,
+} from '@syntropylog/types';
+import { PayloadCodec, PayloadCodecOptions, PayloadCodecs } from './codecs';
+
+export type InMemoryDeliveryStatus =
+  | 'pending'
+  | 'delivered'
+  | 'acked'
+  | 'nacked'
+  | 'requeued'
+  | 'failed';
+
+/** The delivery of a published message to one subscription. */
+export interface InMemoryDelivery {
+  /** The subscription pattern that matched the topic. */
+  pattern: string;
+  status: InMemoryDeliveryStatus;
+  /** How many times the message was delivered again after a requeue. */
+  redeliveryCount: number;
+  /** The error thrown by the handler, when its status is `failed`. */
+  error?: unknown;
+}
+
+/** An entry of the message log. */
+export interface InMemoryMessageRecord {
+  /** Sequence number of the message, starting at 1. */
+  id: number;
+  topic: string;
+  message: BrokerMessage;
+  publishedAt: Date;
+  deliveries: InMemoryDelivery[];
+}
+
+export interface InMemoryBrokerAdapterOptions {
+  /** Requeue a message when its handler throws instead of dropping it. Defaults to false. */
+  requeueOnError?: boolean;
+  /**
+   * How many times a message may be requeued before a requeue drops it
+   * instead. Unlimited when omitted.
+   */
+  maxRedeliveries?: number;
+  /**
+   * Codec applied as a real adapter would: the log holds the encoded bytes
+   * and the `content-type` header, handlers receive decoded payloads.
+   */
+  codec?: PayloadCodec | PayloadCodecOptions;
+}
+
+/** Controls passed to handlers: the usual ack/nack plus redelivery information. */
+export interface InMemoryMessageControls {
+  ack: () => Promise<void>;
+  nack: (requeue?: boolean) => Promise<void>;
+  /** How many times this message was delivered before (0 on first delivery). */
+  redeliveryCount: number;
+}
+
+interface QueuedDelivery {
+  record: InMemoryMessageRecord;
+  delivery: InMemoryDelivery;
+}
+
+interface InMemorySubscription {
+  pattern: string[];
+  handler: MessageHandler;
+  queue: QueuedDelivery[];
+  active: boolean;
+  running: Promise<void> | null;
+}
+
+/**
+ * Matches dot-separated topic words against a subscription pattern.
+ * `*` matches exactly one word, `#` (RabbitMQ) matches zero or more words
+ * and a trailing `>` (NATS) matches one or more words.
+ */
+function matchesTopic(pattern: string[], topic: string[], p = 0, t = 0): boolean {
+  if (p === pattern.length) {
+    return t === topic.length;
+  }
+
+  const word = pattern[p];
+  if (word === '#') {
+    return matchesTopic(pattern, topic, p + 1, t) ||
+      (t < topic.length && matchesTopic(pattern, topic, p, t + 1));
+  }
+  if (word === '>' && p === pattern.length - 1) {
+    return t < topic.length;
+  }
+  if (t === topic.length || (word !== '*' && word !== topic[t])) {
+    return false;
+  }
+  return matchesTopic(pattern, topic, p + 1, t + 1);
+}
+
+/**
+ * Copies the payload into a Buffer, as a real broker would hand it to the consumer.
+ */
+function toPayloadBuffer(payload: unknown): Buffer {
+  if (Buffer.isBuffer(payload)) {
+    return Buffer.from(payload);
+  }
+  return Buffer.from(typeof payload === 'string' ? payload : JSON.stringify(payload));
+}
+
+/**
+ * A broker that lives in the process, for tests and local development.
+ * Messages are delivered asynchronously and one at a time per subscription,
+ * with real ack/nack/requeue semantics; every published message and its
+ * deliveries are kept in a log that can be inspected with `getMessages()`.
+ */
+export class InMemoryBrokerAdapter implements IBrokerAdapter {
+  private readonly requeueOnError: boolean;
+  private readonly maxRedeliveries: number;
+  private readonly codecs: PayloadCodecs | null;
+  private connected = false;
+  private nextId = 1;
+  private log: InMemoryMessageRecord[] = [];
+  private subscriptions: Map<string, InMemorySubscription> = new Map();
+
+  constructor(options: InMemoryBrokerAdapterOptions = {}) {
+    this.requeueOnError = options.requeueOnError ?? false;
+    this.maxRedeliveries = options.maxRedeliveries ?? Infinity;
+    this.codecs = options.codec ? new PayloadCodecs(options.codec) : null;
+  }
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    for (const subscription of this.subscriptions.values()) {
+      subscription.active = false;
+    }
+    this.subscriptions.clear();
+    this.connected = false;
+  }
+
+  async publish(topic: string, message: BrokerMessage): Promise<void> {
+    if (!this.connected) {
+      throw new Error('In-memory broker is not connected. Please connect first.');
+    }
+
+    const encoded = this.codecs ? this.codecs.encode(topic, message) : message;
+    const record: InMemoryMessageRecord = {
+      id: this.nextId++,
+      topic,
+      message: {
+        payload: toPayloadBuffer(encoded.payload),
+        headers: encoded.headers ? { ...encoded.headers } : undefined,
+      },
+      publishedAt: new Date(),
+      deliveries: [],
+    };
+    this.log.push(record);
+
+    const topicWords = topic.split('.');
+    for (const [pattern, subscription] of this.subscriptions) {
+      if (matchesTopic(subscription.pattern, topicWords)) {
+        const delivery: InMemoryDelivery = { pattern, status: 'pending', redeliveryCount: 0 };
+        record.deliveries.push(delivery);
+        this.enqueue(subscription, { record, delivery });
+      }
+    }
+  }
+
+  async subscribe(topic: string, handler: MessageHandler): Promise<void> {
+    if (!this.connected) {
+      throw new Error('In-memory broker is not connected. Please connect first.');
+    }
+
+    const previous = this.subscriptions.get(topic);
+    if (previous) {
+      previous.active = false;
+    }
+    this.subscriptions.set(topic, {
+      pattern: topic.split('.'),
+      handler: this.codecs ? this.codecs.decoding(topic, handler) : handler,
+      queue: [],
+      active: true,
+      running: null,
+    });
+  }
+
+  async unsubscribe(topic: string): Promise<void> {
+    if (!this.connected) {
+      throw new Error('In-memory broker is not connected.');
+    }
+
+    const subscription = this.subscriptions.get(topic);
+    if (subscription) {
+      subscription.active = false;
+      this.subscriptions.delete(topic);
+    } else {
+      console.warn(`No active subscription found for topic: ${topic}`);
+    }
+  }
+
+  /**
+   * Returns the message log, optionally only the messages published to a topic.
+   */
+  getMessages(topic?: string): InMemoryMessageRecord[] {
+    return topic === undefined ? [...this.log] : this.log.filter(record => record.topic === topic);
+  }
+
+  /** Empties the message log. Messages waiting for delivery are still delivered. */
+  clear(): void {
+    this.log = [];
+  }
+
+  /**
+   * Resolves once every subscription has processed its queue, including
+   * messages that were requeued while waiting.
+   */
+  async flush(): Promise<void> {
+    let running = [...this.subscriptions.values()]
+      .map(subscription => subscription.running)
+      .filter((loop): loop is Promise<void> => loop !== null);
+
+    while (running.length > 0) {
+      await Promise.all(running);
+      running = [...this.subscriptions.values()]
+        .map(subscription => subscription.running)
+        .filter((loop): loop is Promise<void> => loop !== null);
+    }
+  }
+
+  private enqueue(subscription: InMemorySubscription, queued: QueuedDelivery): void {
+    subscription.queue.push(queued);
+    this.schedule(subscription);
+  }
+
+  private schedule(subscription: InMemorySubscription): void {
+    if (subscription.running) {
+      return;
+    }
+    subscription.running = this.drain(subscription).finally(() => {
+      subscription.running = null;
+      // Messages published while the loop was finishing would otherwise wait forever.
+      if (subscription.active && subscription.queue.length > 0) {
+        this.schedule(subscription);
+      }
+    });
+  }
+
+  private async drain(subscription: InMemorySubscription): Promise<void> {
+    // Deliver on a later tick, like a network round trip would.
+    await new Promise<void>(resolve => setImmediate(resolve));
+
+    while (subscription.active && subscription.queue.length > 0) {
+      const { record, delivery } = subscription.queue.shift()!;
+      delivery.status = 'delivered';
+
+      let settled = false;
+      // Returns whether the message went back to the queue.
+      const settle = (requeue: boolean): boolean => {
+        settled = true;
+        if (requeue && delivery.redeliveryCount < this.maxRedeliveries) {
+          delivery.status = 'requeued';
+          delivery.redeliveryCount++;
+          subscription.queue.push({ record, delivery });
+          return true;
+        }
+        delivery.status = 'nacked';
+        return false;
+      };
+      const controls: InMemoryMessageControls = {
+        ack: async () => {
+          if (!settled) {
+            settled = true;
+            delivery.status = 'acked';
+          }
+        },
+        nack: async (requeue = false) => {
+          if (!settled) {
+            settle(requeue);
+          }
+        },
+        redeliveryCount: delivery.redeliveryCount,
+      };
+
+      const message: BrokerMessage = {
+        payload: Buffer.from(record.message.payload),
+        headers: record.message.headers ? { ...record.message.headers } : undefined,
+      };
+
+      try {
+        await subscription.handler(message, controls);
+      } catch (error) {
+        if (!settled) {
+          delivery.error = error;
+          if (!settle(this.requeueOnError)) {
+            delivery.status = 'failed';
+          }
+        }
+      }
+    }
+  }
+}
@@ -3,13 +3,249 @@ import {
   IHeaders,
   Producer,
   Consumer,
+  ConsumerConfig,
+  EachMessagePayload,
+  KafkaMessage,
+  Message,
+  ProducerConfig,
+  TopicMessages,
+  Transaction,
 } from 'kafkajs';
 import {
   IBrokerAdapter,
   BrokerMessage,
   MessageHandler,
 } from '@syntropylog/types';
+import { PayloadCodec, PayloadCodecOptions, PayloadCodecs } from './codecs';
 
+/**
+ * Header names written on messages that are moved to a retry or dead-letter topic.
+ * Consumers of those topics can use them to trace a message back to its origin.
+ */
+export const KAFKA_DLQ_HEADERS = {
+  originalTopic: 'x-original-topic',
+  originalPartition: 'x-original-partition',
+  originalOffset: 'x-original-offset',
+  error: 'x-error-message',
+  retryCount: 'x-retry-count',
+  retryNotBefore: 'x-retry-not-before',
+} as const;
+
+/**
+ * Redelivery policy applied when a message is nacked with `requeue = true`
+ * or when the handler throws.
+ */
+export interface KafkaRetryPolicy {
+  /** Maximum number of redeliveries before the message is dead-lettered. */
+  maxRetries: number;
+  /**
+   * Delay in milliseconds before each redelivery. An array is indexed by attempt
+   * (the last value is reused once exhausted); a function receives the 1-based attempt.
+   */
+  backoff?: number[] | ((attempt: number) => number);
+  /**
+   * Topic that receives redeliveries. Defaults to the original topic. While a
+   * redelivery waits for its backoff its partition is paused, so a dedicated
+   * retry topic keeps the original partitions flowing in the meantime.
+   */
+  retryTopic?: string | ((originalTopic: string) => string);
+}
+
+export interface KafkaDeadLetterOptions {
+  /** Topic that receives dead-lettered messages. Defaults to `<topic>.dlq`. */
+  deadLetterTopic?: string | ((originalTopic: string) => string);
+  retry?: KafkaRetryPolicy;
+}
+
+/**
+ * A `BrokerMessage` with the Kafka-specific fields that control where it is written.
+ */
+export interface KafkaBrokerMessage extends BrokerMessage {
+  /** Messages with the same key go to the same partition and keep their order. */
+  key?: string | Buffer | null;
+  /** Writes to this partition instead of letting the partitioner choose. */
+  partition?: number;
+  /** Message timestamp; a number is read as milliseconds since the epoch. */
+  timestamp?: number | string | Date;
+}
+
+/** A message and the topic it goes to, as accepted by `publishBatch`. */
+export interface KafkaBatchEntry {
+  topic: string;
+  message: KafkaBrokerMessage;
+}
+
+export interface KafkaBatchingOptions {
+  /** How long a message waits for others before its batch is sent, in milliseconds. Defaults to 5. */
+  lingerMs?: number;
+  /** Number of buffered messages that sends the batch immediately. Defaults to 100. */
+  maxBatchSize?: number;
+}
+
+export interface KafkaAdapterOptions {
+  /**
+   * Enables dead-letter handling for `nack()`. Without it, a nack only logs
+   * and the message is skipped.
+   */
+  deadLetter?: KafkaDeadLetterOptions;
+  /**
+   * Buffers `publish()` calls and sends them together with `sendBatch`. Each
+   * call still resolves or rejects with the batch it was sent in.
+   */
+  batching?: KafkaBatchingOptions;
+  /**
+   * Derives the key of messages published without one, e.g. the order id of an
+   * order event, so that related messages keep their order.
+   */
+  messageKey?: (topic: string, message: BrokerMessage) => string | Buffer | null | undefined;
+  /**
+   * Configuration of the producer. Setting `transactionalId` enables
+   * `transaction()` and, unless overridden, makes the producer idempotent with
+   * one request in flight, as Kafka requires for transactions.
+   */
+  producer?: ProducerConfig;
+  /** How the consumer reads and commits; see `KafkaConsumerOptions`. */
+  consumer?: KafkaConsumerOptions;
+  /**
+   * Encodes payloads with a codec, per adapter or per topic, and records it
+   * in the `content-type` header so that handlers receive decoded payloads.
+   * Without it, payloads are handed to kafkajs untouched and handlers get
+   * the raw `Buffer`. Null payloads (tombstones) are never encoded.
+   */
+  codec?: PayloadCodec | PayloadCodecOptions;
+}
+
+/**
+ * `auto` lets kafkajs commit offsets once each handler resolves, making `ack`
+ * a no-op; `manual` disables auto-commit so only `ack` (or a dead-letter
+ * `nack`) commits.
+ */
+export type KafkaCommitMode = 'auto' | 'manual';
+
+export interface KafkaConsumerOptions {
+  /** Where a group without committed offsets starts reading. Defaults to true. */
+  fromBeginning?: boolean;
+  /** How many partitions are processed in parallel. Defaults to 1. */
+  partitionsConsumedConcurrently?: number;
+  /** Defaults to `manual`. */
+  commitMode?: KafkaCommitMode;
+}
+
+export interface KafkaSubscribeOptions {
+  /** Overrides `KafkaConsumerOptions.fromBeginning` for this subscription. */
+  fromBeginning?: boolean;
+}
+
+/** A consumer position: the offset of the next message to read from a partition. */
+export interface KafkaOffset {
+  topic: string;
+  partition: number;
+  offset: string;
+}
+
+/**
+ * The operations available inside `KafkaAdapter.transaction()`. Everything
+ * done through it is committed or aborted as a whole.
+ */
+export interface KafkaTransaction {
+  publish(topic: string, message: KafkaBrokerMessage): Promise<void>;
+  publishBatch(entries: KafkaBatchEntry[]): Promise<void>;
+  /** Commits consumer offsets of the adapter's group as part of the transaction. */
+  commitOffsets(offsets: KafkaOffset[]): Promise<void>;
+}
+
+/**
+ * Lifecycle controls handed to Kafka handlers. `nack` optionally takes the
+ * error that caused the failure so it can be recorded on the moved message.
+ */
+export interface KafkaMessageControls {
+  ack: () => Promise<void>;
+  nack: (requeue?: boolean, error?: unknown) => Promise<void>;
+  /**
+   * The position to commit once this message is processed; pass it to
+   * `KafkaTransaction.commitOffsets` to consume it exactly once.
+   */
+  offset: KafkaOffset;
+}
+
+interface KafkaSubscription {
+  topic: string | RegExp;
+  handler: MessageHandler;
+  fromBeginning: boolean;
+}
+
+interface BufferedMessage {
+  topic: string;
+  message: Message;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+
+function headerToString(value: string | Buffer | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return Buffer.isBuffer(value) ? value.toString() : value;
+}
+
+function resolveTopic(
+  target: string | ((originalTopic: string) => string) | undefined,
+  originalTopic: string,
+  fallback: string
+): string {
+  if (typeof target === 'function') {
+    return target(originalTopic);
+  }
+  return target ?? fallback;
+}
+
+function resolveBackoff(policy: KafkaRetryPolicy, attempt: number): number {
+  const { backoff } = policy;
+  if (typeof backoff === 'function') {
+    return Math.max(0, backoff(attempt));
+  }
+  if (Array.isArray(backoff) && backoff.length > 0) {
+    return Math.max(0, backoff[Math.min(attempt, backoff.length) - 1]);
+  }
+  return 0;
+}
+
+function toProducerConfig(config: ProducerConfig | undefined): ProducerConfig | undefined {
+  if (!config?.transactionalId) {
+    return config;
+  }
+  return { idempotent: true, maxInFlightRequests: 1, ...config };
+}
+
+function subscriptionKey(topic: string | RegExp): string {
+  return typeof topic === 'string' ? topic : topic.toString();
+}
+
+function toKafkaTimestamp(timestamp: number | string | Date): string {
+  return String(timestamp instanceof Date ? timestamp.getTime() : timestamp);
+}
+
+/**
+ * Groups items by topic, keeping their relative order.
+ */
+function groupByTopic<T>(entries: { topic: string; item: T }[]): [string, T[]][] {
+  const byTopic = new Map<string, T[]>();
+  for (const { topic, item } of entries) {
+    const items = byTopic.get(topic);
+    if (items) {
+      items.push(item);
+    } else {
+      byTopic.set(topic, [item]);
+    }
+  }
+  return [...byTopic];
+}
+
+function toTopicMessages(entries: { topic: string; message: Message }[]): TopicMessages[] {
+  return groupByTopic(entries.map(({ topic, message }) => ({ topic, item: message })))
+    .map(([topic, messages]) => ({ topic, messages }));
+}
 
 /**
  * Helper function to normalize Kafka's complex IHeaders object into
@@ -36,14 +272,32 @@ function normalizeKafkaHeaders(headers: IHeaders | undefined): BrokerMessage['he
 }
 
 export class KafkaAdapter implements IBrokerAdapter {
+  private readonly kafka: Kafka;
   private readonly producer: Producer;
-  private readonly consumer: Consumer;
+  private consumer: Consumer;
+  private readonly groupId: string;
+  private readonly options: KafkaAdapterOptions;
+  private readonly codecs: PayloadCodecs | null;
+  private buffered: BufferedMessage[] = [];
+  private lingerTimer: NodeJS.Timeout | null = null;
+  private subscriptions: Map<string, KafkaSubscription> = new Map();
+  private running = false;
+  // Serializes changes to the consumer's subscriptions, which require stopping it.
+  private consumerUpdate: Promise<void> = Promise.resolve();
+  // Serializes transactions, since a transactional producer runs one at a time.
+  private transactionQueue: Promise<void> = Promise.resolve();
+  // Resume the partitions paused while a redelivery waits for its backoff.
+  private retryTimers: Set<NodeJS.Timeout> = new Set();
 
   // The constructor now receives the Kafka instance already created.
   // This makes it more flexible and easier to test.
-  constructor(kafkaInstance: Kafka, groupId: string) {
-    this.producer = kafkaInstance.producer();
-    this.consumer = kafkaInstance.consumer({ groupId });
+  constructor(kafkaInstance: Kafka, groupId: string, options: KafkaAdapterOptions = {}) {
+    this.kafka = kafkaInstance;
+    this.producer = kafkaInstance.producer(toProducerConfig(options.producer));
+    this.groupId = groupId;
+    this.options = options;
+    this.codecs = options.codec ? new PayloadCodecs(options.codec) : null;
+    this.consumer = kafkaInstance.consumer(this.consumerConfig());
   }
 
   async connect(): Promise<void> {
@@ -52,46 +306,386 @@ export class KafkaAdapter implements IBrokerAdapter {
   }
 
   async disconnect(): Promise<void> {
-    await this.producer.disconnect();
-    await this.consumer.disconnect();
+    try {
+      await this.flush();
+    } finally {
+      this.retryTimers.forEach(timer => clearTimeout(timer));
+      this.retryTimers.clear();
+      this.subscriptions.clear();
+      this.running = false;
+      await this.producer.disconnect();
+      await this.consumer.disconnect();
+    }
   }
 
-  async publish(topic: string, message: BrokerMessage): Promise<void> {
-    await this.producer.send({
+  /**
+   * Publishes a message. With `batching` enabled, the message is buffered and
+   * the returned promise settles once its batch has been sent.
+   */
+  async publish(topic: string, message: KafkaBrokerMessage): Promise<void> {
+    const kafkaMessage = this.toKafkaMessage(topic, message);
+
+    if (!this.options.batching) {
+      await this.producer.send({ topic, messages: [kafkaMessage] });
+      return;
+    }
+
+    const { lingerMs = 5, maxBatchSize = 100 } = this.options.batching;
+    return new Promise<void>((resolve, reject) => {
+      this.buffered.push({ topic, message: kafkaMessage, resolve, reject });
+      if (this.buffered.length >= maxBatchSize) {
+        // Errors reach the callers through their own promises.
+        this.flush().catch(() => undefined);
+      } else if (!this.lingerTimer) {
+        this.lingerTimer = setTimeout(() => {
+          this.flush().catch(() => undefined);
+        }, lingerMs);
+      }
+    });
+  }
+
+  /**
+   * Sends several messages, possibly to different topics, in a single
+   * `sendBatch` request. Messages buffered by `publish()` are sent first so
+   * that messages with the same key keep their order.
+   */
+  async publishBatch(entries: KafkaBatchEntry[]): Promise<void> {
+    await this.flush();
+    if (entries.length === 0) {
+      return;
+    }
+
+    await this.producer.sendBatch(this.toProducerBatch(entries));
+  }
+
+  /**
+   * Runs `work` in a Kafka transaction: the messages it publishes and the
+   * offsets it commits become visible together when it resolves, and are
+   * discarded when it throws. Requires `producer.transactionalId`.
+   * Overlapping calls run one after another, so `work` must not start
+   * another transaction on the same adapter.
+   * @returns What `work` resolved with.
+   */
+  async transaction<T>(work: (transaction: KafkaTransaction) => Promise<T>): Promise<T> {
+    if (!this.options.producer?.transactionalId) {
+      throw new Error('Kafka transactions require a transactionalId in the producer options.');
+    }
+
+    const result = this.transactionQueue.then(() => this.runTransaction(work));
+    this.transactionQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  /**
+   * Sends the messages buffered by `publish()` without waiting for the linger
+   * time. Called by `disconnect()`.
+   */
+  async flush(): Promise<void> {
+    if (this.lingerTimer) {
+      clearTimeout(this.lingerTimer);
+      this.lingerTimer = null;
+    }
+    const batch = this.buffered;
+    if (batch.length === 0) {
+      return;
+    }
+    this.buffered = [];
+
+    try {
+      await this.producer.sendBatch({ topicMessages: toTopicMessages(batch) });
+    } catch (error) {
+      batch.forEach(entry => entry.reject(error));
+      throw error;
+    }
+    batch.forEach(entry => entry.resolve());
+  }
+
+  /**
+   * Subscribes to a topic, or to every topic matching a regular expression.
+   * All subscriptions share one consumer run loop; since kafkajs cannot add
+   * topics to a running consumer, it is stopped and restarted when needed.
+   */
+  async subscribe(
+    topic: string | RegExp,
+    handler: MessageHandler,
+    options: KafkaSubscribeOptions = {}
+  ): Promise<void> {
+    const subscription: KafkaSubscription = {
       topic,
-      messages: [{ value: message.payload, headers: message.headers as IHeaders }],
+      handler: this.codecs ? this.codecs.decoding(topic, handler) : handler,
+      fromBeginning: options.fromBeginning ?? this.options.consumer?.fromBeginning ?? true,
+    };
+
+    await this.updateConsumer(async () => {
+      if (this.running) {
+        await this.consumer.stop();
+        this.running = false;
+      }
+      await this.consumer.subscribe({ topic, fromBeginning: subscription.fromBeginning });
+      this.subscriptions.set(subscriptionKey(topic), subscription);
+      await this.run();
     });
   }
 
-  async subscribe(topic: string, handler: MessageHandler): Promise<void> {
-    await this.consumer.subscribe({ topic, fromBeginning: true });
+  /**
+   * Removes a subscription. Kafka consumers cannot drop topics, so the
+   * consumer is recreated with the remaining subscriptions, which triggers a
+   * group rebalance.
+   */
+  async unsubscribe(topic: string | RegExp): Promise<void> {
+    await this.updateConsumer(async () => {
+      if (!this.subscriptions.delete(subscriptionKey(topic))) {
+        console.warn(`No active subscription found for topic: ${topic}`);
+        return;
+      }
+
+      await this.consumer.disconnect();
+      this.running = false;
+      this.consumer = this.kafka.consumer(this.consumerConfig());
+      await this.consumer.connect();
+      for (const subscription of this.subscriptions.values()) {
+        await this.consumer.subscribe({ topic: subscription.topic, fromBeginning: subscription.fromBeginning });
+      }
+      if (this.subscriptions.size > 0) {
+        await this.run();
+      }
+      console.log(`✅ Unsubscribed from Kafka topic: ${topic}`);
+    });
+  }
 
+  /**
+   * Stops fetching from a topic (or some of its partitions) without leaving
+   * the group. Messages already being processed still complete.
+   */
+  pause(topic: string, partitions?: number[]): void {
+    this.consumer.pause([{ topic, partitions }]);
+  }
+
+  /** Resumes fetching from a topic (or some of its partitions) paused with `pause`. */
+  resume(topic: string, partitions?: number[]): void {
+    this.consumer.resume([{ topic, partitions }]);
+  }
+
+  private consumerConfig(): ConsumerConfig {
+    return { groupId: this.groupId };
+  }
+
+  private updateConsumer(update: () => Promise<void>): Promise<void> {
+    const result = this.consumerUpdate.then(update);
+    this.consumerUpdate = result.catch(() => undefined);
+    return result;
+  }
+
+  private async runTransaction<T>(work: (transaction: KafkaTransaction) => Promise<T>): Promise<T> {
+    const transaction: Transaction = await this.producer.transaction();
+    const context: KafkaTransaction = {
+      publish: async (topic, message) => {
+        await transaction.send({ topic, messages: [this.toKafkaMessage(topic, message)] });
+      },
+      publishBatch: async (entries) => {
+        if (entries.length > 0) {
+          await transaction.sendBatch(this.toProducerBatch(entries));
+        }
+      },
+      commitOffsets: async (offsets) => {
+        await transaction.sendOffsets({
+          consumerGroupId: this.groupId,
+          topics: groupByTopic(offsets.map(({ topic, partition, offset }) => ({ topic, item: { partition, offset } })))
+            .map(([topic, partitions]) => ({ topic, partitions })),
+        });
+      },
+    };
+
+    let result: T;
+    try {
+      result = await work(context);
+    } catch (error) {
+      await transaction.abort();
+      throw error;
+    }
+    await transaction.commit();
+    return result;
+  }
+
+  private async run(): Promise<void> {
+    const consumerOptions = this.options.consumer ?? {};
     await this.consumer.run({
-      eachMessage: async ({ topic, partition, message }) => {
-        const brokerMessage: BrokerMessage = {
-          payload: message.value!,
-          headers: normalizeKafkaHeaders(message.headers),
-        };
-
-        const controls = {
-          ack: async () => {
-            await this.consumer.commitOffsets([
-              {
-                topic,
-                partition,
-                offset: (Number(message.offset) + 1).toString(),
-              },
-            ]);
-          },
-          nack: async () => {
-            // Nacking in Kafka is complex. For now, we just log.
-            // A real implementation might move the message to a dead-letter queue.
-            console.log(`NACK received for message on topic ${topic}.`);
-          },
-        };
-
-        await handler(brokerMessage, controls);
+      autoCommit: consumerOptions.commitMode === 'auto',
+      partitionsConsumedConcurrently: consumerOptions.partitionsConsumedConcurrently ?? 1,
+      eachMessage: payload => this.handleMessage(payload),
+    });
+    this.running = true;
+  }
+
+  private findHandler(topic: string): MessageHandler | undefined {
+    const exact = this.subscriptions.get(topic);
+    if (exact) {
+      return exact.handler;
+    }
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.topic instanceof RegExp) {
+        subscription.topic.lastIndex = 0;
+        if (subscription.topic.test(topic)) {
+          return subscription.handler;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private async handleMessage({ topic, partition, message, pause }: EachMessagePayload): Promise<void> {
+    const handler = this.findHandler(topic);
+    if (!handler) {
+      // The subscription was removed while the consumer was being recreated.
+      return;
+    }
+    if (this.deferUntilDue(topic, partition, message, pause)) {
+      return;
+    }
+
+    const brokerMessage: BrokerMessage = {
+      payload: message.value!,
+      headers: normalizeKafkaHeaders(message.headers),
+    };
+
+    const manualCommit = this.options.consumer?.commitMode !== 'auto';
+    const offset: KafkaOffset = {
+      topic,
+      partition,
+      offset: (Number(message.offset) + 1).toString(),
+    };
+    const commit = async () => {
+      if (manualCommit) {
+        await this.consumer.commitOffsets([offset]);
+      }
+    };
+
+    const controls: KafkaMessageControls = {
+      ack: commit,
+      nack: async (requeue = false, error?: unknown) => {
+        if (!this.options.deadLetter) {
+          // Without a dead-letter configuration there is nowhere to move the message.
+          console.log(`NACK received for message on topic ${topic}.`);
+          return;
+        }
+        await this.moveFailedMessage(topic, partition, message, requeue, error);
+        await commit();
       },
+      offset,
+    };
+
+    if (!this.options.deadLetter) {
+      await handler(brokerMessage, controls);
+      return;
+    }
+
+    try {
+      await handler(brokerMessage, controls);
+    } catch (error) {
+      await controls.nack(true, error);
+    }
+  }
+
+  private toProducerBatch(entries: KafkaBatchEntry[]): { topicMessages: TopicMessages[] } {
+    return {
+      topicMessages: toTopicMessages(
+        entries.map(({ topic, message }) => ({ topic, message: this.toKafkaMessage(topic, message) }))
+      ),
+    };
+  }
+
+  private toKafkaMessage(topic: string, message: KafkaBrokerMessage): Message {
+    const encoded = this.codecs && message.payload !== null ? this.codecs.encode(topic, message) : message;
+    const kafkaMessage: Message = { value: encoded.payload, headers: encoded.headers as IHeaders };
+    const key = message.key !== undefined ? message.key : this.options.messageKey?.(topic, message);
+    if (key !== undefined) {
+      kafkaMessage.key = key;
+    }
+    if (message.partition !== undefined) {
+      kafkaMessage.partition = message.partition;
+    }
+    if (message.timestamp !== undefined) {
+      kafkaMessage.timestamp = toKafkaTimestamp(message.timestamp);
+    }
+    return kafkaMessage;
+  }
+
+  /**
+   * Republishes a failed message either to the retry topic (while attempts
+   * remain and `requeue` is set) or to the dead-letter topic, preserving the
+   * original payload and headers plus provenance headers.
+   */
+  private async moveFailedMessage(
+    topic: string,
+    partition: number,
+    message: KafkaMessage,
+    requeue: boolean,
+    error: unknown
+  ): Promise<void> {
+    const { deadLetterTopic, retry } = this.options.deadLetter!;
+    const headers = normalizeKafkaHeaders(message.headers) ?? {};
+
+    const originalTopic = headerToString(headers[KAFKA_DLQ_HEADERS.originalTopic]) ?? topic;
+    const previousAttempts = Number(headerToString(headers[KAFKA_DLQ_HEADERS.retryCount]) ?? 0);
+    const attempt = previousAttempts + 1;
+
+    const movedHeaders: Record<string, string | Buffer> = {
+      ...headers,
+      [KAFKA_DLQ_HEADERS.originalTopic]: originalTopic,
+      [KAFKA_DLQ_HEADERS.originalPartition]:
+        headerToString(headers[KAFKA_DLQ_HEADERS.originalPartition]) ?? String(partition),
+      [KAFKA_DLQ_HEADERS.originalOffset]:
+        headerToString(headers[KAFKA_DLQ_HEADERS.originalOffset]) ?? message.offset,
+    };
+    if (error !== undefined) {
+      movedHeaders[KAFKA_DLQ_HEADERS.error] = error instanceof Error ? error.message : String(error);
+    }
+
+    if (requeue && retry && attempt <= retry.maxRetries) {
+      movedHeaders[KAFKA_DLQ_HEADERS.retryCount] = String(attempt);
+      movedHeaders[KAFKA_DLQ_HEADERS.retryNotBefore] = String(Date.now() + resolveBackoff(retry, attempt));
+
+      await this.producer.send({
+        topic: resolveTopic(retry.retryTopic, originalTopic, originalTopic),
+        messages: [{ key: message.key, value: message.value, headers: movedHeaders as IHeaders }],
+      });
+      return;
+    }
+
+    delete movedHeaders[KAFKA_DLQ_HEADERS.retryNotBefore];
+    await this.producer.send({
+      topic: resolveTopic(deadLetterTopic, originalTopic, `${originalTopic}.dlq`),
+      messages: [{ key: message.key, value: message.value, headers: movedHeaders as IHeaders }],
     });
   }
-} 
\ No newline at end of file
+
+  /**
+   * Defers a redelivered message whose backoff has not elapsed: pauses its
+   * partition, seeks back to the message and resumes once the delay is over.
+   * `eachMessage` returns right away, so other partitions, heartbeats and
+   * rebalances are not held up by the wait.
+   * @returns Whether the message was deferred.
+   */
+  private deferUntilDue(
+    topic: string,
+    partition: number,
+    message: KafkaMessage,
+    pause: EachMessagePayload['pause']
+  ): boolean {
+    const headers = normalizeKafkaHeaders(message.headers);
+    const notBefore = Number(headerToString(headers?.[KAFKA_DLQ_HEADERS.retryNotBefore]));
+    const delay = notBefore - Date.now();
+    if (!notBefore || delay <= 0) {
+      return false;
+    }
+
+    const resume = pause();
+    this.consumer.seek({ topic, partition, offset: message.offset });
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(timer);
+      resume();
+    }, delay);
+    this.retryTimers.add(timer);
+    return true;
+  }
+}
@@ -0,0 +1,358 @@
+import { EventEmitter } from 'events';
+import {
+  connectAsync,
+  MqttClient,
+  IClientOptions,
+  IClientPublishOptions,
+  IPublishPacket,
+} from 'mqtt';
+import {
+  IBrokerAdapter,
+  BrokerMessage,
+  MessageHandler,
+  MessageLifecycleControls,
+} from '@syntropylog/types';
+import {
+  BrokerDisconnectedEvent,
+  BrokerReconnectedEvent,
+  BrokerReconnectingEvent,
+} from './reconnect';
+import { PayloadCodec, PayloadCodecOptions, PayloadCodecs } from './codecs';
+
+export type MqttQoS = 0 | 1 | 2;
+
+export interface MqttAdapterOptions {
+  /**
+   * Options passed to the mqtt client. `protocolVersion` defaults to 5;
+   * with 3 or 4 (MQTT 3.1.1) headers travel in an envelope instead of user properties.
+   */
+  clientOptions?: IClientOptions;
+  /** QoS used by `publish` and `subscribe` unless overridden. Defaults to 1. */
+  qos?: MqttQoS;
+  /** Whether published messages are retained by the broker. Defaults to false. */
+  retain?: boolean;
+  /**
+   * Codec for payloads, per adapter or per topic. The `content-type` header
+   * it adds travels with the other headers, and handlers receive decoded
+   * payloads. Without it, objects are published as JSON and handlers get a `Buffer`.
+   */
+  codec?: PayloadCodec | PayloadCodecOptions;
+}
+
+/** A `BrokerMessage` with the MQTT-specific publish settings. */
+export interface MqttBrokerMessage extends BrokerMessage {
+  qos?: MqttQoS;
+  retain?: boolean;
+}
+
+export interface MqttSubscribeOptions {
+  /** Maximum QoS the broker uses to deliver to this subscription. */
+  qos?: MqttQoS;
+}
+
+/**
+ * Shape of the payload written for MQTT 3.1.1 brokers, which have no user
+ * properties: the original payload (base64) and the headers wrapped in JSON.
+ */
+export interface MqttEnvelope {
+  syntropylog: 1;
+  headers: Record<string, string>;
+  payload: string;
+}
+
+interface MqttSubscription {
+  filter: string[];
+  handler: MessageHandler;
+}
+
+/**
+ * Matches a topic against an MQTT filter: `+` matches one level, a trailing
+ * `#` matches the parent level and any number of levels below it. Shared
+ * subscriptions (`$share/<group>/<filter>`) are matched by their filter.
+ */
+function matchesFilter(filter: string[], topic: string[]): boolean {
+  for (let i = 0; i < filter.length; i++) {
+    if (filter[i] === '#') {
+      return true;
+    }
+    if (i === topic.length || (filter[i] !== '+' && filter[i] !== topic[i])) {
+      return false;
+    }
+  }
+  return filter.length === topic.length;
+}
+
+function toFilterLevels(topic: string): string[] {
+  const levels = topic.split('/');
+  return levels[0] === '$share' ? levels.slice(2) : levels;
+}
+
+function toPayload(payload: unknown): string | Buffer {
+  if (typeof payload === 'string' || Buffer.isBuffer(payload)) {
+    return payload;
+  }
+  return JSON.stringify(payload);
+}
+
+function toStringHeaders(headers: BrokerMessage['headers']): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    result[key] = Buffer.isBuffer(value) ? value.toString() : value;
+  }
+  return result;
+}
+
+/**
+ * Reads an envelope written by an MQTT 3.1.1 publisher. Payloads that are not
+ * envelopes (e.g. from devices that do not use SyntropyLog) are returned as is.
+ */
+function unwrapEnvelope(payload: Buffer): BrokerMessage {
+  try {
+    const envelope = JSON.parse(payload.toString());
+    if (
+      envelope?.syntropylog === 1 &&
+      typeof envelope.payload === 'string' &&
+      typeof envelope.headers === 'object' &&
+      envelope.headers !== null
+    ) {
+      return { payload: Buffer.from(envelope.payload, 'base64'), headers: envelope.headers };
+    }
+  } catch {
+    // Not JSON, so not an envelope.
+  }
+  return { payload };
+}
+
+/**
+ * Passed to the mqtt client's `handleMessage` callback for QoS 1 deliveries:
+ * the client then skips its own PUBACK and moves on to the next packet, and
+ * the adapter sends the PUBACK once the handlers have settled the message.
+ */
+const PUBACK_DEFERRED = new Error('PUBACK deferred until the handlers settle the message');
+
+/**
+ * Adapter for MQTT brokers. Deliveries are handed to the handlers as they
+ * arrive, without waiting for earlier ones to be settled, so a handler can
+ * publish or subscribe before it acks. For QoS 1, `ack` (or the handlers
+ * returning) sends the PUBACK; a message that is still unacknowledged when
+ * the connection drops is redelivered if the session persists. The broker
+ * caps the unacknowledged deliveries at the client's Receive Maximum
+ * (`clientOptions.properties.receiveMaximum`). QoS 2 deliveries are complete
+ * once received, so they are released right away.
+ * Emits `disconnected`, `reconnecting` and `reconnected` for the client's own
+ * reconnects (see `./reconnect` for the payloads).
+ */
+export class MqttAdapter extends EventEmitter implements IBrokerAdapter {
+  private readonly brokerUrl: string;
+  private readonly options: MqttAdapterOptions;
+  private readonly codecs: PayloadCodecs | null;
+  private client: MqttClient | null = null;
+  private subscriptions: Map<string, MqttSubscription> = new Map();
+  private closing = false;
+
+  constructor(brokerUrl: string = 'mqtt://localhost:1883', options: MqttAdapterOptions = {}) {
+    super();
+    this.brokerUrl = brokerUrl;
+    this.options = options;
+    this.codecs = options.codec ? new PayloadCodecs(options.codec) : null;
+  }
+
+  private get usesEnvelope(): boolean {
+    return (this.options.clientOptions?.protocolVersion ?? 5) < 5;
+  }
+
+  async connect(): Promise<void> {
+    if (this.client) {
+      return;
+    }
+    this.closing = false;
+
+    const client = await connectAsync(this.brokerUrl, {
+      protocolVersion: 5,
+      ...this.options.clientOptions,
+    });
+    client.handleMessage = (packet, callback) => this.receive(client, packet, callback);
+    this.watch(client);
+    this.client = client;
+  }
+
+  async disconnect(): Promise<void> {
+    this.closing = true;
+    this.subscriptions.clear();
+    if (this.client) {
+      const client = this.client;
+      this.client = null;
+      await client.endAsync();
+    }
+  }
+
+  async publish(topic: string, message: MqttBrokerMessage): Promise<void> {
+    if (!this.client) {
+      throw new Error('MQTT client is not available. Please connect first.');
+    }
+
+    const publishOptions: IClientPublishOptions = {
+      qos: message.qos ?? this.options.qos ?? 1,
+      retain: message.retain ?? this.options.retain ?? false,
+    };
+    const encoded = this.codecs ? this.codecs.encode(topic, message) : message;
+    let payload = toPayload(encoded.payload);
+
+    if (this.usesEnvelope) {
+      const envelope: MqttEnvelope = {
+        syntropylog: 1,
+        headers: toStringHeaders(encoded.headers),
+        payload: Buffer.from(payload).toString('base64'),
+      };
+      payload = JSON.stringify(envelope);
+    } else if (encoded.headers) {
+      publishOptions.properties = { userProperties: toStringHeaders(encoded.headers) };
+    }
+
+    await this.client.publishAsync(topic, payload, publishOptions);
+  }
+
+  async subscribe(topic: string, handler: MessageHandler, options: MqttSubscribeOptions = {}): Promise<void> {
+    if (!this.client) {
+      throw new Error('MQTT client is not available. Please connect first.');
+    }
+
+    const qos = options.qos ?? this.options.qos ?? 1;
+    const [grant] = await this.client.subscribeAsync(topic, { qos });
+    // 128 (0x80) is the SUBACK failure code.
+    if (grant && grant.qos >= 128) {
+      throw new Error(`MQTT broker rejected the subscription to ${topic}.`);
+    }
+    this.subscriptions.set(topic, {
+      filter: toFilterLevels(topic),
+      handler: this.codecs ? this.codecs.decoding(topic, handler) : handler,
+    });
+  }
+
+  async unsubscribe(topic: string): Promise<void> {
+    if (!this.client) {
+      throw new Error('MQTT client is not available.');
+    }
+
+    if (this.subscriptions.delete(topic)) {
+      await this.client.unsubscribeAsync(topic);
+      console.log(`✅ Unsubscribed from MQTT topic: ${topic}`);
+    } else {
+      console.warn(`No active subscription found for topic: ${topic}`);
+    }
+  }
+
+  /**
+   * Queues a delivery for the handlers and lets the client read on. The
+   * PUBACK of a QoS 1 delivery is sent once the handlers have settled it, as
+   * long as it arrived on the current connection.
+   */
+  private receive(client: MqttClient, packet: IPublishPacket, callback: (error?: Error) => void): void {
+    const settled = this.dispatch(packet);
+    if (packet.qos !== 1) {
+      settled.catch(error => console.error(`⚠️ MQTT delivery failed for topic ${packet.topic}:`, error));
+      callback();
+      return;
+    }
+
+    const stream = client.stream;
+    settled.then(
+      () => {
+        if (client.connected && client.stream === stream) {
+          client['_sendPacket']({ cmd: 'puback', messageId: packet.messageId });
+        }
+      },
+      error => console.error(`⚠️ MQTT delivery failed for topic ${packet.topic}:`, error)
+    );
+    callback(PUBACK_DEFERRED);
+  }
+
+  /**
+   * Hands a delivery to every subscription whose filter matches its topic.
+   * Resolves once each handler has settled the message or returned.
+   */
+  private async dispatch(packet: IPublishPacket): Promise<void> {
+    const topic = packet.topic.split('/');
+    const handlers = [...this.subscriptions.values()]
+      .filter(subscription => matchesFilter(subscription.filter, topic))
+      .map(subscription => subscription.handler);
+    if (handlers.length === 0) {
+      return;
+    }
+
+    const payload = Buffer.isBuffer(packet.payload) ? packet.payload : Buffer.from(packet.payload);
+    const message = this.usesEnvelope
+      ? unwrapEnvelope(payload)
+      : { payload, headers: this.userPropertiesToHeaders(packet) };
+
+    await new Promise<void>(resolve => {
+      let remaining = handlers.length;
+      const release = () => {
+        if (--remaining === 0) {
+          resolve();
+        }
+      };
+
+      for (const handler of handlers) {
+        let settled = false;
+        const settle = () => {
+          if (!settled) {
+            settled = true;
+            release();
+          }
+        };
+        const controls: MessageLifecycleControls = {
+          ack: async () => settle(),
+          nack: async () => {
+            // MQTT cannot ask the broker for a redelivery, so the message is acknowledged anyway.
+            console.log(`NACK received for message on topic ${packet.topic}.`);
+            settle();
+          },
+        };
+
+        Promise.resolve()
+          .then(() => handler({ ...message }, controls))
+          .catch(error => console.error(`⚠️ MQTT handler failed for topic ${packet.topic}:`, error))
+          .finally(settle);
+      }
+    });
+  }
+
+  private userPropertiesToHeaders(packet: IPublishPacket): BrokerMessage['headers'] {
+    const userProperties = packet.properties?.userProperties;
+    if (!userProperties) {
+      return undefined;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(userProperties)) {
+      // A property may be repeated; SyntropyLog headers are single-valued.
+      headers[key] = Array.isArray(value) ? value[0] : value;
+    }
+    return headers;
+  }
+
+  /** Relays the client's reconnect cycle as adapter events. */
+  private watch(client: MqttClient): void {
+    let attempt = 0;
+    client.on('close', () => {
+      if (!this.closing && attempt === 0) {
+        const event: BrokerDisconnectedEvent = {};
+        this.emit('disconnected', event);
+      }
+    });
+    client.on('reconnect', () => {
+      const event: BrokerReconnectingEvent = { attempt: ++attempt };
+      this.emit('reconnecting', event);
+    });
+    client.on('connect', () => {
+      if (attempt > 0) {
+        const event: BrokerReconnectedEvent = { attempts: attempt };
+        this.emit('reconnected', event);
+        attempt = 0;
+      }
+    });
+    // The client retries on its own; errors are reported through the events above.
+    client.on('error', () => undefined);
+  }
+}
@@ -1,28 +1,140 @@
-import { connect, NatsConnection, Codec, StringCodec, headers as NatsHeaders } from 'nats';
+import { EventEmitter } from 'events';
+import {
+  connect,
+  Events,
+  DebugEvents,
+  NatsConnection,
+  headers as NatsHeaders,
+  AckPolicy,
+  JetStreamClient,
+  JsMsg,
+  nanos,
+} from 'nats';
 import {
   IBrokerAdapter,
   BrokerMessage,
   MessageHandler,
 } from '@syntropylog/types';
+import {
+  BrokerDisconnectedEvent,
+  BrokerReconnectedEvent,
+  BrokerReconnectingEvent,
+  BrokerReconnectOptions,
+  reconnectWithBackoff,
+} from './reconnect';
+import { PayloadCodec, PayloadCodecOptions, PayloadCodecs } from './codecs';
+
+/**
+ * Enables JetStream mode. Messages are persisted in `stream` and consumed
+ * through durable pull consumers, so `ack`/`nack` map to real acknowledgements.
+ */
+export interface NatsJetStreamOptions {
+  /** Name of the stream that captures the published subjects. */
+  stream: string;
+  /**
+   * Subjects captured by the stream. When given, the stream is created on
+   * connect if it does not exist yet; otherwise it must already exist.
+   */
+  subjects?: string[];
+  /**
+   * Prefix for the durable consumer created per subscribed topic. Instances
+   * sharing the prefix share the consumer and split its messages.
+   */
+  durable?: string;
+  /** How long the server waits for an ack before redelivering, in milliseconds. */
+  ackWaitMs?: number;
+  /** Maximum number of deliveries before the server gives up on a message. */
+  maxDeliver?: number;
+  /** Delay applied to `nack(true)` redeliveries, in milliseconds. */
+  nakDelayMs?: number;
+  /**
+   * Header whose value is used as the `Nats-Msg-Id` deduplication id, so that
+   * retried publishes of the same message are stored once. Messages without
+   * the header are published without an id and are not deduplicated.
+   */
+  msgIdHeader?: string;
+}
+
+export interface NatsAdapterOptions {
+  jetstream?: NatsJetStreamOptions;
+  /**
+   * Backoff used to open a new connection and replay the active
+   * subscriptions once the NATS client gives up on its own reconnects.
+   * Enabled by default; `false` disables it.
+   */
+  reconnect?: BrokerReconnectOptions | false;
+  /**
+   * Encodes payloads with the given codec (or per topic) and records it in
+   * the `content-type` header; handlers then receive decoded payloads.
+   * Without it, strings and Buffers are sent as they are, other payloads as
+   * JSON, and handlers receive the raw bytes as a `Buffer`.
+   */
+  codec?: PayloadCodec | PayloadCodecOptions;
+}
+
+/**
+ * Lifecycle controls handed to handlers in JetStream mode. As with the other
+ * adapters, `nack()` does not requeue: it terminates the message like `term`
+ * does. `nack(true)` asks for a redelivery.
+ */
+export interface NatsMessageControls {
+  ack: () => Promise<void>;
+  nack: (requeue?: boolean) => Promise<void>;
+  term: () => Promise<void>;
+}
+
+/**
+ * Byte arrays are sent untouched so that binary payloads survive; strings as
+ * UTF-8 and anything else as JSON.
+ */
+function toPayloadBytes(payload: unknown): Uint8Array {
+  if (payload instanceof Uint8Array) {
+    return payload;
+  }
+  return Buffer.from(typeof payload === 'string' ? payload : JSON.stringify(payload));
+}
+
+/**
+ * Durable consumer names cannot contain `.`, `*`, `>` or whitespace.
+ */
+function toDurableName(prefix: string, topic: string): string {
+  return `${prefix}_${topic}`.replace(/[.*>\s]/g, '_');
+}
 
-export class NatsAdapter implements IBrokerAdapter {
+/**
+ * Emits `disconnected`, `reconnecting` and `reconnected` for the NATS client's
+ * own reconnects as well as for the adapter's, and `reconnectFailed` when the
+ * adapter gives up (see `./reconnect` for the payloads).
+ */
+export class NatsAdapter extends EventEmitter implements IBrokerAdapter {
   private readonly natsServers: string[];
+  private readonly options: NatsAdapterOptions;
   private natsConnection: NatsConnection | null = null;
-  private codec: Codec<string>;
+  private jetStream: JetStreamClient | null = null;
+  private readonly codecs: PayloadCodecs | null;
   private subscriptions: Map<string, any> = new Map();
+  private handlers: Map<string, MessageHandler> = new Map();
+  private closing = false;
+  private reconnecting: Promise<boolean> | null = null;
 
-  constructor(natsServers: string[] = ['nats://localhost:4222']) {
+  constructor(natsServers: string[] = ['nats://localhost:4222'], options: NatsAdapterOptions = {}) {
+    super();
     this.natsServers = natsServers;
-    this.codec = StringCodec();
+    this.options = options;
+    this.codecs = options.codec ? new PayloadCodecs(options.codec) : null;
   }
 
   async connect(): Promise<void> {
-    this.natsConnection = await connect({
-      servers: this.natsServers,
-    });
+    if (this.natsConnection) {
+      return;
+    }
+    this.closing = false;
+    await this.establish();
   }
 
   async disconnect(): Promise<void> {
+    this.closing = true;
+    this.handlers.clear();
     if (this.natsConnection) {
       // Unsubscribe from all topics first
       if (this.subscriptions.size > 0) {
@@ -40,6 +152,7 @@ export class NatsAdapter implements IBrokerAdapter {
       await this.natsConnection.drain();
       this.natsConnection.close();
       this.natsConnection = null;
+      this.jetStream = null;
     }
   }
 
@@ -48,17 +161,22 @@ export class NatsAdapter implements IBrokerAdapter {
       throw new Error('NATS connection is not available. Please connect first.');
     }
 
-    const payload = typeof message.payload === 'string' 
-      ? message.payload 
-      : JSON.stringify(message.payload);
+    const encoded = this.codecs ? this.codecs.encode(topic, message) : message;
+    const payload = toPayloadBytes(encoded.payload);
+    const natsHeaders = this.recordToNatsHeaders(encoded.headers);
 
-    const natsHeaders = this.recordToNatsHeaders(message.headers);
-    
-    await this.natsConnection.publish(
-      topic,
-      this.codec.encode(payload),
-      { headers: natsHeaders }
-    );
+    if (this.jetStream) {
+      const msgIdHeader = this.options.jetstream?.msgIdHeader;
+      const msgIdValue = msgIdHeader ? encoded.headers?.[msgIdHeader] : undefined;
+
+      await this.jetStream.publish(topic, payload, {
+        ...(msgIdValue !== undefined ? { msgID: String(msgIdValue) } : {}),
+        headers: natsHeaders,
+      });
+      return;
+    }
+
+    await this.natsConnection.publish(topic, payload, { headers: natsHeaders });
   }
 
   async subscribe(topic: string, handler: MessageHandler): Promise<void> {
@@ -66,16 +184,151 @@ export class NatsAdapter implements IBrokerAdapter {
       throw new Error('NATS connection is not available. Please connect first.');
     }
 
-    const subscription = this.natsConnection.subscribe(topic);
+    const decoding = this.codecs ? this.codecs.decoding(topic, handler) : handler;
+    await this.startSubscription(this.natsConnection, topic, decoding);
+    this.handlers.set(topic, decoding);
+  }
+
+  async unsubscribe(topic: string): Promise<void> {
+    if (!this.natsConnection) {
+      throw new Error('NATS connection is not available.');
+    }
+
+    this.handlers.delete(topic);
+    const subscription = this.subscriptions.get(topic);
+    if (subscription) {
+      subscription.unsubscribe();
+      this.subscriptions.delete(topic);
+      console.log(`✅ Unsubscribed from NATS topic: ${topic}`);
+    } else {
+      console.warn(`No active subscription found for topic: ${topic}`);
+    }
+  }
+
+  /**
+   * Opens the connection, prepares JetStream and starts watching the
+   * connection's status.
+   */
+  private async establish(): Promise<void> {
+    const connection = await connect({
+      servers: this.natsServers,
+    });
+
+    const { jetstream } = this.options;
+    let jetStream: JetStreamClient | null = null;
+    try {
+      if (jetstream) {
+        if (jetstream.subjects) {
+          const manager = await connection.jetstreamManager();
+          try {
+            await manager.streams.info(jetstream.stream);
+          } catch {
+            await manager.streams.add({ name: jetstream.stream, subjects: jetstream.subjects });
+          }
+        }
+        jetStream = connection.jetstream();
+      }
+    } catch (error) {
+      await connection.close();
+      throw error;
+    }
+
+    this.natsConnection = connection;
+    this.jetStream = jetStream;
+    this.watch(connection);
+  }
 
+  /**
+   * Relays the client's own reconnect cycle as adapter events and takes over
+   * once the connection is closed for good.
+   */
+  private watch(connection: NatsConnection): void {
     (async () => {
-      for await (const msg of subscription) {
-        const payload = this.codec.decode(msg.data);
-        const headers = this.natsHeadersToRecord(msg.headers);
+      let attempt = 0;
+      for await (const status of connection.status()) {
+        if (status.type === Events.Disconnect) {
+          attempt = 0;
+          const event: BrokerDisconnectedEvent = {};
+          this.emit('disconnected', event);
+        } else if (status.type === DebugEvents.Reconnecting) {
+          const event: BrokerReconnectingEvent = { attempt: ++attempt };
+          this.emit('reconnecting', event);
+        } else if (status.type === Events.Reconnect) {
+          const event: BrokerReconnectedEvent = { attempts: attempt };
+          this.emit('reconnected', event);
+        }
+      }
+    })().catch(console.error);
+
+    connection.closed().then(error => this.handleClosed(connection, error));
+  }
 
+  private handleClosed(connection: NatsConnection, error: void | Error): void {
+    if (this.closing || this.natsConnection !== connection) {
+      return;
+    }
+
+    this.natsConnection = null;
+    this.jetStream = null;
+    this.subscriptions.clear();
+    const event: BrokerDisconnectedEvent = { error: error || undefined };
+    this.emit('disconnected', event);
+
+    if (this.options.reconnect !== false && !this.reconnecting) {
+      this.reconnecting = reconnectWithBackoff(
+        this,
+        this.options.reconnect ?? {},
+        () => this.restore(),
+        () => this.closing
+      ).finally(() => {
+        this.reconnecting = null;
+      });
+    }
+  }
+
+  /** Opens a new connection and replays the active subscriptions. */
+  private async restore(): Promise<void> {
+    await this.establish();
+    const connection = this.natsConnection!;
+    // disconnect() found no connection to close while this one was opening.
+    if (this.closing) {
+      await this.discard(connection);
+      return;
+    }
+
+    try {
+      for (const [topic, handler] of this.handlers) {
+        await this.startSubscription(connection, topic, handler);
+      }
+    } catch (error) {
+      await this.discard(connection);
+      throw error;
+    }
+  }
+
+  /** Drops a connection that `restore()` could not finish setting up. */
+  private async discard(connection: NatsConnection): Promise<void> {
+    if (this.natsConnection === connection) {
+      this.natsConnection = null;
+      this.jetStream = null;
+      this.subscriptions.clear();
+    }
+    await connection.close().catch(() => {});
+  }
+
+  private async startSubscription(connection: NatsConnection, topic: string, handler: MessageHandler): Promise<void> {
+    if (this.jetStream) {
+      await this.subscribeJetStream(connection, this.jetStream, topic, handler);
+      return;
+    }
+
+    const subscription = connection.subscribe(topic);
+
+    (async () => {
+      for await (const msg of subscription) {
         const brokerMessage: BrokerMessage = {
-          payload: Buffer.from(payload),
-          headers,
+          payload: Buffer.from(msg.data),
+          headers: this.natsHeadersToRecord(msg.headers),
         };
 
         const controls = {
@@ -90,26 +343,80 @@ export class NatsAdapter implements IBrokerAdapter {
           },
         };
 
-        await handler(brokerMessage, controls);
+        try {
+          await handler(brokerMessage, controls);
+        } catch (error) {
+          // Core NATS cannot redeliver; keep consuming the next messages.
+          console.error(`⚠️ Handler failed for NATS message on topic ${topic}:`, error);
+        }
       }
     })().catch(console.error);
 
     this.subscriptions.set(topic, subscription);
   }
 
-  async unsubscribe(topic: string): Promise<void> {
-    if (!this.natsConnection) {
-      throw new Error('NATS connection is not available.');
-    }
+  private async subscribeJetStream(
+    connection: NatsConnection,
+    jetStream: JetStreamClient,
+    topic: string,
+    handler: MessageHandler
+  ): Promise<void> {
+    const options = this.options.jetstream!;
+    const durableName = toDurableName(options.durable ?? 'syntropylog', topic);
 
-    const subscription = this.subscriptions.get(topic);
-    if (subscription) {
-      subscription.unsubscribe();
-      this.subscriptions.delete(topic);
-      console.log(`✅ Unsubscribed from NATS topic: ${topic}`);
-    } else {
-      console.warn(`No active subscription found for topic: ${topic}`);
-    }
+    const manager = await connection.jetstreamManager();
+    await manager.consumers.add(options.stream, {
+      durable_name: durableName,
+      ack_policy: AckPolicy.Explicit,
+      filter_subject: topic,
+      ...(options.ackWaitMs !== undefined ? { ack_wait: nanos(options.ackWaitMs) } : {}),
+      ...(options.maxDeliver !== undefined ? { max_deliver: options.maxDeliver } : {}),
+    });
+
+    const consumer = await jetStream.consumers.get(options.stream, durableName);
+    const messages = await consumer.consume();
+
+    (async () => {
+      for await (const msg of messages) {
+        try {
+          await handler(this.toBrokerMessage(msg), this.jetStreamControls(msg));
+        } catch (error) {
+          console.error(`⚠️ Handler failed for JetStream message on topic ${topic}:`, error);
+          msg.nak(options.nakDelayMs);
+        }
+      }
+    })().catch(console.error);
+
+    this.subscriptions.set(topic, { unsubscribe: () => messages.stop() });
+  }
+
+  /**
+   * In JetStream mode `nack(true)` asks for a redelivery after `nakDelayMs`;
+   * `nack()` and `nack(false)` terminate the message like `term()` does.
+   */
+  private jetStreamControls(msg: JsMsg): NatsMessageControls {
+    return {
+      ack: async () => {
+        msg.ack();
+      },
+      nack: async (requeue = false) => {
+        if (requeue) {
+          msg.nak(this.options.jetstream?.nakDelayMs);
+        } else {
+          msg.term();
+        }
+      },
+      term: async () => {
+        msg.term();
+      },
+    };
+  }
+
+  private toBrokerMessage(msg: JsMsg): BrokerMessage {
+    return {
+      payload: Buffer.from(msg.data),
+      headers: this.natsHeadersToRecord(msg.headers),
+    };
   }
 
   private natsHeadersToRecord(natsHeaders: any | undefined): Record<string, string | Buffer> | undefined {
@@ -118,9 +425,10 @@ export class NatsAdapter implements IBrokerAdapter {
     }
 
     const record: Record<string, string | Buffer> = {};
-    // NATS headers are iterable but don't have .entries() method
-    for (const [key, value] of natsHeaders) {
-      record[key] = value;
+    // NATS headers are iterable but don't have .entries() method; each
+    // entry holds every value of the header.
+    for (const [key, values] of natsHeaders) {
+      record[key] = Array.isArray(values) ? values.join(',') : values;
     }
     return record;
   }
@@ -0,0 +1,323 @@
+import { EventEmitter } from 'events';
+import { IBrokerAdapter } from '@syntropylog/types';
+import { DEFAULT_OUTBOX_TABLE, OutboxQueryable, quoteOutboxTable } from './TransactionalOutbox';
+
+/**
+ * Where the relay gets its connections from; a `pg` `Pool` fits. Each poll
+ * runs in a transaction on one connection.
+ */
+export interface OutboxConnectionPool {
+  connect(): Promise<OutboxQueryable & { release(): void }>;
+}
+
+export interface OutboxRetryOptions {
+  /** Publish attempts before a message is marked as failed. Defaults to 10. */
+  maxAttempts?: number;
+  /** Delay before the first retry, in milliseconds. Defaults to 1000. */
+  initialDelayMs?: number;
+  /** Upper bound for the delay between retries, in milliseconds. Defaults to 60000. */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each failed attempt. Defaults to 2. */
+  factor?: number;
+}
+
+export interface OutboxRelayOptions {
+  /** Name of the outbox table; must match the `TransactionalOutbox`. Defaults to `syntropylog_outbox`. */
+  table?: string;
+  /** Messages read per poll. Defaults to 100. */
+  batchSize?: number;
+  /** Pause between polls that found nothing to publish, in milliseconds. Defaults to 1000. */
+  pollIntervalMs?: number;
+  retry?: OutboxRetryOptions;
+  /** Header that carries the message's dedup key. Defaults to `x-dedup-key`. */
+  dedupKeyHeader?: string;
+}
+
+/** Payload of the `published` event. */
+export interface OutboxPublishedEvent {
+  id: string;
+  topic: string;
+}
+
+/** Payload of the `retry` event. */
+export interface OutboxRetryEvent {
+  id: string;
+  topic: string;
+  /** Failed attempts so far. */
+  attempts: number;
+  delayMs: number;
+  error: unknown;
+}
+
+/**
+ * Payload of the `failed` event, emitted when `maxAttempts` is exhausted. The
+ * message then holds back the later ones of its ordering key until it is
+ * passed to `retryFailed` or `discardFailed`.
+ */
+export interface OutboxFailedEvent {
+  id: string;
+  topic: string;
+  attempts: number;
+  error: unknown;
+}
+
+interface OutboxRow {
+  id: string;
+  topic: string;
+  headers: Record<string, string>;
+  payload: Buffer;
+  ordering_key: string | null;
+  dedup_key: string | null;
+  attempts: number;
+}
+
+/** Events of a batch, emitted once its transaction has committed. */
+interface OutboxBatchEvents {
+  published: OutboxPublishedEvent[];
+  retry: OutboxRetryEvent[];
+  failed: OutboxFailedEvent[];
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Publishes the messages written by a `TransactionalOutbox` to a broker.
+ *
+ * Delivery is at least once: a message whose publish succeeded can be
+ * published again if the relay stops before recording it, so consumers should
+ * deduplicate on the dedup key header. Only one relay per table publishes at
+ * a time (the others wait on an advisory lock), which keeps ordering keys in order.
+ * A failed message stops its ordering key: the messages after it stay in the
+ * outbox until it is retried or discarded.
+ *
+ * Emits `published`, `retry` and `failed` with the payloads above.
+ */
+export class OutboxRelay extends EventEmitter {
+  private readonly pool: OutboxConnectionPool;
+  private readonly adapter: IBrokerAdapter;
+  private readonly tableName: string;
+  private readonly table: string;
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly retry: Required<OutboxRetryOptions>;
+  private readonly dedupKeyHeader: string;
+  private running: Promise<void> | null = null;
+  private stopping = false;
+
+  constructor(pool: OutboxConnectionPool, adapter: IBrokerAdapter, options: OutboxRelayOptions = {}) {
+    super();
+    this.pool = pool;
+    this.adapter = adapter;
+    this.tableName = options.table ?? DEFAULT_OUTBOX_TABLE;
+    this.table = quoteOutboxTable(this.tableName);
+    this.batchSize = options.batchSize ?? 100;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.retry = {
+      maxAttempts: options.retry?.maxAttempts ?? 10,
+      initialDelayMs: options.retry?.initialDelayMs ?? 1000,
+      maxDelayMs: options.retry?.maxDelayMs ?? 60000,
+      factor: options.retry?.factor ?? 2,
+    };
+    this.dedupKeyHeader = options.dedupKeyHeader ?? 'x-dedup-key';
+  }
+
+  /** Starts polling in the background. The broker adapter must be connected. */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.stopping = false;
+    this.running = this.loop().finally(() => {
+      this.running = null;
+    });
+  }
+
+  /** Stops polling, waiting for the batch in progress to finish. */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    await this.running;
+  }
+
+  /**
+   * Publishes one batch of pending messages.
+   * @returns How many messages were published, or 0 when another relay holds the lock.
+   */
+  async runOnce(): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const events: OutboxBatchEvents = { published: [], retry: [], failed: [] };
+      try {
+        await this.publishBatch(client, events);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+      // Only once the outcome of the batch is recorded.
+      events.published.forEach(event => this.emit('published', event));
+      events.retry.forEach(event => this.emit('retry', event));
+      events.failed.forEach(event => this.emit('failed', event));
+      return events.published.length;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Deletes published messages older than `maxAgeMs`. Published rows are kept
+   * until then so that their dedup keys keep rejecting duplicates.
+   * @returns The number of deleted rows.
+   */
+  async prune(maxAgeMs: number): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `DELETE FROM ${this.table} WHERE published_at < now() - make_interval(secs => $1)`,
+        [maxAgeMs / 1000]
+      );
+      return result.rowCount ?? 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Schedules a failed message for publishing again, with its attempts reset.
+   * @returns False when no failed message has this id.
+   */
+  async retryFailed(id: string): Promise<boolean> {
+    return this.resolveFailed(
+      `UPDATE ${this.table}
+        SET failed_at = NULL, attempts = 0, next_attempt_at = now()
+        WHERE id = $1 AND failed_at IS NOT NULL`,
+      id
+    );
+  }
+
+  /**
+   * Deletes a failed message, releasing the messages after it with the same ordering key.
+   * @returns False when no failed message has this id.
+   */
+  async discardFailed(id: string): Promise<boolean> {
+    return this.resolveFailed(`DELETE FROM ${this.table} WHERE id = $1 AND failed_at IS NOT NULL`, id);
+  }
+
+  private async resolveFailed(sql: string, id: string): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(sql, [id]);
+      return (result.rowCount ?? 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async loop(): Promise<void> {
+    while (!this.stopping) {
+      let published = 0;
+      try {
+        published = await this.runOnce();
+      } catch (error) {
+        console.error('⚠️ Outbox relay poll failed:', error);
+      }
+      if (published === 0 && !this.stopping) {
+        await sleep(this.pollIntervalMs);
+      }
+    }
+  }
+
+  private async publishBatch(client: OutboxQueryable, events: OutboxBatchEvents): Promise<void> {
+    const lock = await client.query<{ locked: boolean }>('SELECT pg_try_advisory_xact_lock(hashtext($1)) AS locked', [this.tableName]);
+    if (!lock.rows[0]?.locked) {
+      return;
+    }
+
+    // Only messages that are due and not held back by an earlier message of
+    // their ordering key that failed or whose retry is not due yet, so that
+    // waiting messages never fill the batch.
+    const { rows } = await client.query<OutboxRow>(
+      `SELECT id, topic, headers, payload, ordering_key, dedup_key, attempts
+        FROM ${this.table} AS message
+        WHERE published_at IS NULL AND failed_at IS NULL AND next_attempt_at <= now()
+          AND NOT EXISTS (
+            SELECT 1 FROM ${this.table} AS earlier
+            WHERE earlier.ordering_key = message.ordering_key
+              AND earlier.id < message.id
+              AND earlier.published_at IS NULL
+              AND (earlier.failed_at IS NOT NULL OR earlier.next_attempt_at > now())
+          )
+        ORDER BY id
+        LIMIT $1`,
+      [this.batchSize]
+    );
+
+    // Ordering keys with a message that could not be published in this batch.
+    const blocked = new Set<string>();
+
+    for (const row of rows) {
+      if (row.ordering_key !== null && blocked.has(row.ordering_key)) {
+        continue;
+      }
+
+      try {
+        await this.publishRow(row);
+        events.published.push({ id: row.id, topic: row.topic });
+      } catch (error) {
+        await this.recordFailure(client, row, error, events);
+        if (row.ordering_key !== null) {
+          blocked.add(row.ordering_key);
+        }
+      }
+    }
+
+    if (events.published.length > 0) {
+      await client.query(
+        `UPDATE ${this.table} SET published_at = now(), attempts = attempts + 1 WHERE id = ANY($1)`,
+        [events.published.map(event => event.id)]
+      );
+    }
+  }
+
+  private async publishRow(row: OutboxRow): Promise<void> {
+    const headers: Record<string, string> = { ...row.headers };
+    if (row.dedup_key !== null) {
+      headers[this.dedupKeyHeader] = row.dedup_key;
+    }
+    await this.adapter.publish(row.topic, { payload: row.payload, headers });
+  }
+
+  /**
+   * Schedules a retry, or marks the message as failed once its attempts are exhausted.
+   */
+  private async recordFailure(
+    client: OutboxQueryable,
+    row: OutboxRow,
+    error: unknown,
+    events: OutboxBatchEvents
+  ): Promise<void> {
+    const attempts = row.attempts + 1;
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (attempts >= this.retry.maxAttempts) {
+      await client.query(
+        `UPDATE ${this.table} SET attempts = $2, last_error = $3, failed_at = now() WHERE id = $1`,
+        [row.id, attempts, message]
+      );
+      events.failed.push({ id: row.id, topic: row.topic, attempts, error });
+      return;
+    }
+
+    const delayMs = Math.min(
+      this.retry.initialDelayMs * Math.pow(this.retry.factor, attempts - 1),
+      this.retry.maxDelayMs
+    );
+    await client.query(
+      `UPDATE ${this.table}
+        SET attempts = $2, last_error = $3, next_attempt_at = now() + make_interval(secs => $4)
+        WHERE id = $1`,
+      [row.id, attempts, message, delayMs / 1000]
+    );
+    events.retry.push({ id: row.id, topic: row.topic, attempts, delayMs, error });
+  }
+}
@@ -0,0 +1,351 @@
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { Client, ClientConfig, Notification } from 'pg';
+import { IBrokerAdapter, BrokerMessage, MessageHandler } from '@syntropylog/types';
+import { BrokerDisconnectedEvent, BrokerReconnectOptions, reconnectWithBackoff } from './reconnect';
+import { PayloadCodec, PayloadCodecOptions, PayloadCodecs } from './codecs';
+
+/** NOTIFY payloads must be shorter than 8000 bytes. */
+export const POSTGRES_NOTIFY_MAX_PAYLOAD_BYTES = 7999;
+
+/** Postgres truncates identifiers, including channel names, to 63 bytes. */
+const MAX_CHANNEL_BYTES = 63;
+
+export interface PostgresNotifyAdapterOptions {
+  /** Prefix added to every channel name by the default mapping. Defaults to none. */
+  channelPrefix?: string;
+  /**
+   * Maps a topic to a channel name. The default prefixes the topic and, when
+   * the result is longer than 63 bytes, shortens it with a hash suffix.
+   */
+  channelFor?: (topic: string) => string;
+  /**
+   * Table that stores messages too large for a NOTIFY payload; the
+   * notification then only carries the row id. Defaults to `syntropylog_notify_outbox`.
+   */
+  outboxTable?: string;
+  /** Create the outbox table on connect if it does not exist. Defaults to true. */
+  createOutboxTable?: boolean;
+  /**
+   * Backoff used to reconnect and LISTEN again when the connection is lost.
+   * Notifications sent while disconnected are not delivered. Enabled by
+   * default; `false` disables it.
+   */
+  reconnect?: BrokerReconnectOptions | false;
+  /**
+   * Codec for payloads, per adapter or per topic, named in the `content-type`
+   * header so that handlers receive decoded payloads. Without it, objects are
+   * sent as JSON and handlers get a `Buffer`.
+   */
+  codec?: PayloadCodec | PayloadCodecOptions;
+}
+
+/**
+ * The JSON sent as NOTIFY payload: headers and the base64 payload, or the id
+ * of the outbox row that holds them.
+ */
+type NotifyEnvelope =
+  | { headers: Record<string, string>; payload: string }
+  | { outboxId: string };
+
+function defaultChannelName(prefix: string, topic: string): string {
+  const name = `${prefix}${topic}`;
+  if (Buffer.byteLength(name) <= MAX_CHANNEL_BYTES) {
+    return name;
+  }
+  const hash = createHash('sha1').update(name).digest('hex').slice(0, 8);
+  let head = name.slice(0, MAX_CHANNEL_BYTES - hash.length - 1);
+  while (Buffer.byteLength(head) > MAX_CHANNEL_BYTES - hash.length - 1) {
+    head = head.slice(0, -1);
+  }
+  return `${head}_${hash}`;
+}
+
+function toPayloadBuffer(payload: unknown): Buffer {
+  if (Buffer.isBuffer(payload)) {
+    return payload;
+  }
+  return Buffer.from(typeof payload === 'string' ? payload : JSON.stringify(payload));
+}
+
+function toStringHeaders(headers: BrokerMessage['headers']): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    result[key] = Buffer.isBuffer(value) ? value.toString() : value;
+  }
+  return result;
+}
+
+/** Quotes a possibly schema-qualified table name. */
+function quoteTableName(client: Client, table: string): string {
+  return table.split('.').map(part => client.escapeIdentifier(part)).join('.');
+}
+
+/**
+ * A broker built on Postgres `LISTEN`/`NOTIFY`, for services that already have
+ * a database and little traffic. Every listening adapter receives every
+ * message of the topics it subscribed to; there is no persistence or
+ * redelivery, so `ack` does nothing and `nack` only logs. Topics map to
+ * channels one to one: wildcards are not supported.
+ *
+ * Emits `disconnected`, `reconnecting`, `reconnected` and `reconnectFailed`
+ * while recovering from a lost connection (see `./reconnect` for the payloads).
+ */
+export class PostgresNotifyAdapter extends EventEmitter implements IBrokerAdapter {
+  private readonly config: string | ClientConfig;
+  private readonly options: PostgresNotifyAdapterOptions;
+  private readonly outboxTable: string;
+  private readonly codecs: PayloadCodecs | null;
+  private client: Client | null = null;
+  // Subscribed topics by channel name.
+  private topics: Map<string, string> = new Map();
+  private handlers: Map<string, MessageHandler> = new Map();
+  // Notifications are handled one at a time, in the order they arrive.
+  private delivery: Promise<void> = Promise.resolve();
+  private closing = false;
+  private reconnecting: Promise<boolean> | null = null;
+
+  constructor(config: string | ClientConfig, options: PostgresNotifyAdapterOptions = {}) {
+    super();
+    this.config = config;
+    this.options = options;
+    this.outboxTable = options.outboxTable ?? 'syntropylog_notify_outbox';
+    this.codecs = options.codec ? new PayloadCodecs(options.codec) : null;
+  }
+
+  async connect(): Promise<void> {
+    if (this.client) {
+      return;
+    }
+    this.closing = false;
+    await this.establish();
+  }
+
+  async disconnect(): Promise<void> {
+    this.closing = true;
+    this.topics.clear();
+    this.handlers.clear();
+    if (this.client) {
+      const client = this.client;
+      this.client = null;
+      await client.end();
+    }
+  }
+
+  /**
+   * Sends the message with `pg_notify`. Messages whose encoded form does not
+   * fit in a NOTIFY payload are stored in the outbox table first.
+   */
+  async publish(topic: string, message: BrokerMessage): Promise<void> {
+    if (!this.client) {
+      throw new Error('Postgres connection is not available. Please connect first.');
+    }
+
+    const channel = this.channelFor(topic);
+    const encoded = this.codecs ? this.codecs.encode(topic, message) : message;
+    const headers = toStringHeaders(encoded.headers);
+    const payload = toPayloadBuffer(encoded.payload);
+    let notification = JSON.stringify({ headers, payload: payload.toString('base64') });
+
+    if (Buffer.byteLength(notification) > POSTGRES_NOTIFY_MAX_PAYLOAD_BYTES) {
+      const result = await this.client.query<{ id: string }>(
+        `INSERT INTO ${quoteTableName(this.client, this.outboxTable)} (channel, headers, payload) VALUES ($1, $2, $3) RETURNING id`,
+        [channel, JSON.stringify(headers), payload]
+      );
+      const envelope: NotifyEnvelope = { outboxId: String(result.rows[0].id) };
+      notification = JSON.stringify(envelope);
+    }
+
+    await this.client.query('SELECT pg_notify($1, $2)', [channel, notification]);
+  }
+
+  async subscribe(topic: string, handler: MessageHandler): Promise<void> {
+    if (!this.client) {
+      throw new Error('Postgres connection is not available. Please connect first.');
+    }
+
+    const channel = this.channelFor(topic);
+    await this.client.query(`LISTEN ${this.client.escapeIdentifier(channel)}`);
+    this.topics.set(channel, topic);
+    this.handlers.set(topic, this.codecs ? this.codecs.decoding(topic, handler) : handler);
+  }
+
+  async unsubscribe(topic: string): Promise<void> {
+    if (!this.client) {
+      throw new Error('Postgres connection is not available.');
+    }
+
+    const channel = this.channelFor(topic);
+    if (this.handlers.delete(topic)) {
+      this.topics.delete(channel);
+      await this.client.query(`UNLISTEN ${this.client.escapeIdentifier(channel)}`);
+      console.log(`✅ Unsubscribed from Postgres channel: ${channel}`);
+    } else {
+      console.warn(`No active subscription found for topic: ${topic}`);
+    }
+  }
+
+  /**
+   * Deletes outbox rows older than `maxAgeMs`. Rows are not deleted on
+   * delivery because every listener needs to read them.
+   * @returns The number of deleted rows.
+   */
+  async pruneOutbox(maxAgeMs: number): Promise<number> {
+    if (!this.client) {
+      throw new Error('Postgres connection is not available. Please connect first.');
+    }
+
+    const result = await this.client.query(
+      `DELETE FROM ${quoteTableName(this.client, this.outboxTable)} WHERE created_at < now() - make_interval(secs => $1)`,
+      [maxAgeMs / 1000]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  private channelFor(topic: string): string {
+    return this.options.channelFor
+      ? this.options.channelFor(topic)
+      : defaultChannelName(this.options.channelPrefix ?? '', topic);
+  }
+
+  /**
+   * Opens the connection, creates the outbox table if needed and starts
+   * watching the connection for unexpected ends.
+   */
+  private async establish(): Promise<void> {
+    const client = new Client(this.config);
+    // pg emits 'error' before 'end'; without a listener it would crash the process.
+    client.on('error', () => {});
+    await client.connect();
+
+    try {
+      if (this.options.createOutboxTable ?? true) {
+        await client.query(
+          `CREATE TABLE IF NOT EXISTS ${quoteTableName(client, this.outboxTable)} (
+            id BIGSERIAL PRIMARY KEY,
+            channel TEXT NOT NULL,
+            headers JSONB NOT NULL,
+            payload BYTEA NOT NULL,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+          )`
+        );
+      }
+    } catch (error) {
+      await client.end().catch(() => {});
+      throw error;
+    }
+
+    client.on('notification', (notification: Notification) => {
+      this.delivery = this.delivery.then(() => this.deliver(client, notification)).catch(console.error);
+    });
+    client.on('end', () => this.handleConnectionLost(client));
+    this.client = client;
+  }
+
+  private async deliver(client: Client, notification: Notification): Promise<void> {
+    const topic = this.topics.get(notification.channel);
+    const handler = topic !== undefined ? this.handlers.get(topic) : undefined;
+    if (topic === undefined || !handler || !notification.payload) {
+      return;
+    }
+
+    const message = await this.decode(client, notification.payload);
+    if (!message) {
+      console.warn(`⚠️ Ignoring a notification on channel ${notification.channel} that SyntropyLog did not send.`);
+      return;
+    }
+
+    await handler(message, {
+      ack: async () => {
+        // NOTIFY has no acknowledgements.
+      },
+      nack: async () => {
+        console.log(`NACK received for message on topic ${topic}.`);
+      },
+    });
+  }
+
+  /**
+   * Decodes a NOTIFY payload, reading the outbox row it points to when needed.
+   * @returns The message, or null when the payload is not an envelope.
+   */
+  private async decode(client: Client, raw: string): Promise<BrokerMessage | null> {
+    let envelope: NotifyEnvelope;
+    try {
+      envelope = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+
+    if ('outboxId' in envelope) {
+      const result = await client.query<{ headers: Record<string, string>; payload: Buffer }>(
+        `SELECT headers, payload FROM ${quoteTableName(client, this.outboxTable)} WHERE id = $1`,
+        [envelope.outboxId]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        console.warn(`⚠️ Outbox row ${envelope.outboxId} was not found; it may have been pruned.`);
+        return null;
+      }
+      return { payload: row.payload, headers: row.headers };
+    }
+
+    if (typeof envelope?.payload !== 'string') {
+      return null;
+    }
+    return { payload: Buffer.from(envelope.payload, 'base64'), headers: envelope.headers };
+  }
+
+  /**
+   * Called when the connection ends. Unless the adapter is being disconnected,
+   * starts reconnecting.
+   */
+  private handleConnectionLost(client: Client): void {
+    if (this.closing || this.client !== client) {
+      return;
+    }
+
+    this.client = null;
+    const event: BrokerDisconnectedEvent = {};
+    this.emit('disconnected', event);
+
+    if (this.options.reconnect !== false && !this.reconnecting) {
+      this.reconnecting = reconnectWithBackoff(
+        this,
+        this.options.reconnect ?? {},
+        () => this.restore(),
+        () => this.closing
+      ).finally(() => {
+        this.reconnecting = null;
+      });
+    }
+  }
+
+  /** Reconnects and LISTENs again on the subscribed channels. */
+  private async restore(): Promise<void> {
+    await this.establish();
+    const client = this.client!;
+    // disconnect() found no connection to end while this one was opening.
+    if (this.closing) {
+      await this.discard(client);
+      return;
+    }
+
+    try {
+      for (const channel of this.topics.keys()) {
+        await client.query(`LISTEN ${client.escapeIdentifier(channel)}`);
+      }
+    } catch (error) {
+      await this.discard(client);
+      throw error;
+    }
+  }
+
+  /** Drops a connection that `restore()` could not finish setting up. */
+  private async discard(client: Client): Promise<void> {
+    if (this.client === client) {
+      this.client = null;
+    }
+    await client.end().catch(() => {});
+  }
+}
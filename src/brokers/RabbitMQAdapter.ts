@@ -1,32 +1,184 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
 import * as amqplib from 'amqplib';
-import type { Connection, Channel, ConsumeMessage, Options } from 'amqplib';
+import type { Connection, Channel, ConfirmChannel, ConsumeMessage, Message, Options } from 'amqplib';
 import { IBrokerAdapter, BrokerMessage, MessageHandler } from '@syntropylog/types';
+import { BrokerDisconnectedEvent, BrokerReconnectOptions, reconnectWithBackoff } from './reconnect';
+import { PayloadCodec, PayloadCodecOptions, PayloadCodecs } from './codecs';
 
-export class RabbitMQAdapter implements IBrokerAdapter {
+/** The connection model returned by `amqplib.connect`. */
+type AmqpConnection = Awaited<ReturnType<typeof amqplib.connect>>;
+
+export type RabbitMQExchangeType = 'topic' | 'direct' | 'fanout' | 'headers';
+
+/**
+ * How a subscription consumes messages. Without `queue` every subscriber gets
+ * its own anonymous exclusive queue, so each instance receives a copy of every
+ * message and nothing is kept while it is down. With `queue`, instances that
+ * use the same name share one durable queue and compete for its messages.
+ */
+export interface RabbitMQSubscriptionOptions {
+  /** Name of the queue to consume from. */
+  queue?: string;
+  /** Whether a named queue survives broker restarts. Defaults to true. */
+  durable?: boolean;
+  /** Delete a named queue once its last consumer is gone. Defaults to false. */
+  autoDelete?: boolean;
+  /** Maximum number of unacknowledged messages delivered to this consumer. */
+  prefetch?: number;
+  /** Message time-to-live in the queue, in milliseconds (`x-message-ttl`). */
+  messageTtl?: number;
+  /** Maximum number of messages kept in the queue (`x-max-length`). */
+  maxLength?: number;
+  /** Exchange that receives rejected and expired messages (`x-dead-letter-exchange`). */
+  deadLetterExchange?: string;
+  /** Routing key used when dead-lettering (`x-dead-letter-routing-key`). */
+  deadLetterRoutingKey?: string;
+  /** Additional queue arguments, e.g. `x-queue-type`. */
+  queueArguments?: Record<string, unknown>;
+  /** Binding arguments, used by `headers` exchanges (e.g. `x-match`). */
+  bindingArguments?: Record<string, unknown>;
+}
+
+export interface RabbitMQAdapterOptions {
+  /** Type of the exchange messages are published to. Defaults to `topic`. */
+  exchangeType?: RabbitMQExchangeType;
+  /**
+   * Publish on a confirm channel: `publish` resolves once the broker has
+   * taken responsibility for the message and rejects if it refuses it.
+   */
+  confirm?: boolean;
+  /**
+   * Publish with the `mandatory` flag so that messages no queue is bound for
+   * are returned instead of dropped. With `confirm`, the publish rejects with
+   * a `RabbitMQReturnedMessageError`; otherwise the error goes to `onReturn`.
+   */
+  mandatory?: boolean;
+  /** Receives returned messages that cannot be tied to a pending publish. Defaults to logging them. */
+  onReturn?: (error: RabbitMQReturnedMessageError) => void;
+  /**
+   * Backoff used to reconnect, re-create the channel and replay the active
+   * subscriptions when the connection or channel closes unexpectedly.
+   * Enabled by default; `false` disables it.
+   */
+  reconnect?: BrokerReconnectOptions | false;
+  /** Defaults applied to every subscription; `subscribe` options override them. */
+  subscription?: RabbitMQSubscriptionOptions;
+  /**
+   * Codec for payloads, chosen per adapter or per routing key, recorded in
+   * the `content-type` header and used by `subscribe` to decode. Without it,
+   * non-Buffer payloads are sent as JSON and handlers get `msg.content`.
+   */
+  codec?: PayloadCodec | PayloadCodecOptions;
+}
+
+/**
+ * Raised for a message published with `mandatory` that the broker could not
+ * route to any queue (`basic.return`).
+ */
+export class RabbitMQReturnedMessageError extends Error {
+  readonly exchange: string;
+  readonly routingKey: string;
+  readonly replyCode: number;
+  readonly replyText: string;
+
+  constructor(message: Message) {
+    const { exchange, routingKey, replyCode, replyText } = message.fields as Message['fields'] & {
+      replyCode: number;
+      replyText: string;
+    };
+    super(`Message to exchange "${exchange}" with routing key "${routingKey}" was returned: ${replyCode} ${replyText}`);
+    this.name = 'RabbitMQReturnedMessageError';
+    this.exchange = exchange;
+    this.routingKey = routingKey;
+    this.replyCode = replyCode;
+    this.replyText = replyText;
+  }
+}
+
+/**
+ * Translates the subscription options into `assertQueue` options.
+ */
+function toQueueOptions(options: RabbitMQSubscriptionOptions): Options.AssertQueue {
+  const args: Record<string, unknown> = { ...options.queueArguments };
+  if (options.messageTtl !== undefined) {
+    args['x-message-ttl'] = options.messageTtl;
+  }
+  if (options.maxLength !== undefined) {
+    args['x-max-length'] = options.maxLength;
+  }
+  if (options.deadLetterExchange !== undefined) {
+    args['x-dead-letter-exchange'] = options.deadLetterExchange;
+  }
+  if (options.deadLetterRoutingKey !== undefined) {
+    args['x-dead-letter-routing-key'] = options.deadLetterRoutingKey;
+  }
+
+  const queueOptions: Options.AssertQueue = options.queue
+    ? { durable: options.durable ?? true, autoDelete: options.autoDelete ?? false }
+    : { exclusive: true };
+  if (Object.keys(args).length > 0) {
+    queueOptions.arguments = args;
+  }
+  return queueOptions;
+}
+
+interface RabbitMQSubscription {
+  handler: MessageHandler;
+  options: RabbitMQSubscriptionOptions;
+}
+
+/**
+ * Emits `disconnected`, `reconnecting`, `reconnected` and `reconnectFailed`
+ * while recovering from a lost connection (see `./reconnect` for the payloads).
+ */
+export class RabbitMQAdapter extends EventEmitter implements IBrokerAdapter {
   private connection: any = null;
   private channel: Channel | null = null;
   private connectionString: string;
   private exchangeName: string;
+  private exchangeType: RabbitMQExchangeType;
+  private subscriptionDefaults: RabbitMQSubscriptionOptions;
+  private confirm: boolean;
+  private mandatory: boolean;
+  private onReturn: (error: RabbitMQReturnedMessageError) => void;
+  private reconnectOptions: BrokerReconnectOptions | false;
+  private codecs: PayloadCodecs | null;
   private consumerTags: Map<string, string> = new Map();
+  /** Per-consumer prefetch currently set on the channel; 0 means unlimited. */
+  private consumerPrefetch = 0;
+  private subscriptions: Map<string, RabbitMQSubscription> = new Map();
+  private closing = false;
+  private reconnecting: Promise<boolean> | null = null;
+  // Confirmed publishes waiting for their ack, by message id, so that a
+  // `basic.return` (which the broker sends before the ack) can fail them.
+  private pendingReturns: Map<string, (error: RabbitMQReturnedMessageError) => void> = new Map();
+  private drained: Promise<void> | null = null;
 
-  constructor(connectionString: string, exchangeName = 'topic_logs') {
+  constructor(connectionString: string, exchangeName = 'topic_logs', options: RabbitMQAdapterOptions = {}) {
+    super();
     this.connectionString = connectionString;
     this.exchangeName = exchangeName;
+    this.exchangeType = options.exchangeType ?? 'topic';
+    this.subscriptionDefaults = options.subscription ?? {};
+    this.confirm = options.confirm ?? false;
+    this.mandatory = options.mandatory ?? false;
+    this.onReturn = options.onReturn ?? (error => console.error('RabbitMQ returned an unroutable message:', error));
+    this.reconnectOptions = options.reconnect ?? {};
+    this.codecs = options.codec ? new PayloadCodecs(options.codec) : null;
   }
 
   async connect(): Promise<void> {
-    this.connection = await amqplib.connect(this.connectionString);
-    if (!this.connection) {
-      throw new Error('Failed to connect to RabbitMQ');
-    }
-    this.channel = await this.connection.createChannel();
-    if (!this.channel) {
-      throw new Error('Failed to create RabbitMQ channel');
+    if (this.channel) {
+      return;
     }
-    await this.channel.assertExchange(this.exchangeName, 'topic', { durable: true });
+    this.closing = false;
+    await this.establish();
   }
 
   async disconnect(): Promise<void> {
+    this.closing = true;
+    this.subscriptions.clear();
     try {
         // Cancel all active consumers first
         if (this.channel && this.consumerTags.size > 0) {
@@ -55,56 +207,269 @@ export class RabbitMQAdapter implements IBrokerAdapter {
     } finally {
         this.channel = null;
         this.connection = null;
+        this.drained = null;
     }
   }
 
+  /**
+   * Publishes a message to the exchange. When the channel's write buffer is
+   * full, this and later publishes wait for it to drain. With `confirm`, the
+   * promise settles on the broker's ack or nack.
+   */
   async publish(topic: string, message: BrokerMessage): Promise<void> {
     if (!this.channel) {
       throw new Error('RabbitMQ channel is not available. Please connect first.');
     }
+    if (this.drained) {
+      await this.drained;
+    }
+    const channel = this.channel;
     const routingKey = topic;
-    const content = Buffer.isBuffer(message.payload) ? message.payload : Buffer.from(JSON.stringify(message.payload));
-    const options = {
-      headers: message.headers || {},
+    const encoded = this.codecs ? this.codecs.encode(topic, message) : message;
+    const content = Buffer.isBuffer(encoded.payload) ? encoded.payload : Buffer.from(JSON.stringify(encoded.payload));
+    const options: Options.Publish = {
+      headers: encoded.headers || {},
       persistent: true,
     };
-    this.channel.publish(this.exchangeName, routingKey, content, options);
+    if (this.mandatory) {
+      options.mandatory = true;
+      options.messageId = randomUUID();
+    }
+
+    if (!this.confirm) {
+      if (!channel.publish(this.exchangeName, routingKey, content, options)) {
+        await this.waitForDrain(channel);
+      }
+      return;
+    }
+
+    const messageId = options.messageId;
+    let returned: RabbitMQReturnedMessageError | undefined;
+    if (messageId) {
+      this.pendingReturns.set(messageId, error => {
+        returned = error;
+      });
+    }
+    let written = true;
+    const confirmed = new Promise<void>((resolve, reject) => {
+      const onConfirm = (error: unknown) => {
+        if (messageId) {
+          this.pendingReturns.delete(messageId);
+        }
+        if (error) {
+          reject(error instanceof Error ? error : new Error('Message was nacked by the RabbitMQ broker'));
+        } else if (returned) {
+          reject(returned);
+        } else {
+          resolve();
+        }
+      };
+      try {
+        written = (channel as ConfirmChannel).publish(this.exchangeName, routingKey, content, options, onConfirm);
+      } catch (error) {
+        onConfirm(error);
+      }
+    });
+    // Await both together so that a confirm failing while the buffer drains
+    // (e.g. the channel closed) is not left as an unhandled rejection.
+    await Promise.all([written ? undefined : this.waitForDrain(channel), confirmed]);
   }
 
-  async subscribe(topic: string, handler: MessageHandler): Promise<void> {
+  /**
+   * Consumes the messages routed with `topic` (a binding pattern for topic
+   * exchanges). Pass `options.queue` to share a durable queue between instances.
+   */
+  async subscribe(
+    topic: string,
+    handler: MessageHandler,
+    options: RabbitMQSubscriptionOptions = {}
+  ): Promise<void> {
     if (!this.channel) {
       throw new Error('RabbitMQ channel is not available. Please connect first.');
     }
-    const q = await this.channel.assertQueue('', { exclusive: true });
-    await this.channel.bindQueue(q.queue, this.exchangeName, topic);
+    const subscription = { ...this.subscriptionDefaults, ...options };
+    const decoding = this.codecs ? this.codecs.decoding(topic, handler) : handler;
+    await this.startConsumer(this.channel, topic, decoding, subscription);
+    this.subscriptions.set(topic, { handler: decoding, options: subscription });
+  }
 
-    const { consumerTag } = await this.channel.consume(q.queue,
+  async unsubscribe(topic: string): Promise<void> {
+    if (!this.channel) {
+      throw new Error('RabbitMQ channel is not available.');
+    }
+    this.subscriptions.delete(topic);
+    const consumerTag = this.consumerTags.get(topic);
+    if (consumerTag) {
+      await this.channel.cancel(consumerTag);
+      this.consumerTags.delete(topic);
+    } else {
+      console.warn(`No active subscription found for topic: ${topic}`);
+    }
+  }
+
+  /**
+   * Opens the connection and channel, asserts the exchange and starts
+   * watching both for unexpected closes.
+   */
+  private async establish(): Promise<void> {
+    const connection = await amqplib.connect(this.connectionString);
+    if (!connection) {
+      throw new Error('Failed to connect to RabbitMQ');
+    }
+    // amqplib emits 'error' before 'close'; without a listener it would crash the process.
+    connection.on('error', () => {});
+
+    let channel: Channel;
+    try {
+      channel = this.confirm
+        ? await connection.createConfirmChannel()
+        : await connection.createChannel();
+      if (!channel) {
+        throw new Error('Failed to create RabbitMQ channel');
+      }
+      channel.on('error', () => {});
+      channel.on('return', (returned: Message) => this.handleReturn(returned));
+      await channel.assertExchange(this.exchangeName, this.exchangeType, { durable: true });
+    } catch (error) {
+      await connection.close().catch(() => {});
+      throw error;
+    }
+
+    this.connection = connection;
+    this.channel = channel;
+    this.consumerPrefetch = 0;
+    connection.on('close', (error?: unknown) => this.handleConnectionLost(connection, error));
+    channel.on('close', () => this.handleConnectionLost(connection));
+  }
+
+  private async startConsumer(
+    channel: Channel,
+    topic: string,
+    handler: MessageHandler,
+    subscription: RabbitMQSubscriptionOptions
+  ): Promise<void> {
+    const q = await channel.assertQueue(subscription.queue ?? '', toQueueOptions(subscription));
+    await channel.bindQueue(q.queue, this.exchangeName, topic, subscription.bindingArguments);
+
+    // A non-global prefetch limits each consumer started afterwards on this
+    // channel, so it is set (or reset to unlimited) right before this consumer
+    // and both are sent together, before another subscription can change it.
+    const prefetch = subscription.prefetch ?? 0;
+    let prefetched: Promise<unknown> = Promise.resolve();
+    if (prefetch !== this.consumerPrefetch) {
+      this.consumerPrefetch = prefetch;
+      prefetched = channel.prefetch(prefetch, false);
+    }
+
+    const consuming = channel.consume(q.queue,
       async (msg: ConsumeMessage | null) => {
-        if (msg && this.channel) {
+        if (msg) {
           const brokerMessage: BrokerMessage = {
             payload: msg.content,
             headers: msg.properties.headers,
           };
-          const ack = async () => this.channel!.ack(msg);
-          const nack = async (requeue = false) => this.channel!.nack(msg, false, requeue);
-          await handler(brokerMessage, { ack, nack });
+          // Delivery tags belong to the channel that delivered the message.
+          // Settling one twice is a channel error, which would close the channel.
+          let settled = false;
+          const ack = async () => {
+            settled = true;
+            channel.ack(msg);
+          };
+          const nack = async (requeue = false) => {
+            settled = true;
+            channel.nack(msg, false, requeue);
+          };
+          try {
+            await handler(brokerMessage, { ack, nack });
+          } catch (error) {
+            // Requeued once; a second failure goes to the dead-letter exchange, if any.
+            const requeue = !msg.fields.redelivered;
+            console.error(
+              `⚠️ Handler failed for RabbitMQ message on topic ${topic}${requeue ? ', requeueing it' : ''}:`,
+              error
+            );
+            if (!settled) {
+              channel.nack(msg, false, requeue);
+            }
+          }
         }
       },
       { noAck: false }
     );
+    await prefetched;
+    const { consumerTag } = await consuming;
     this.consumerTags.set(topic, consumerTag);
   }
 
-  async unsubscribe(topic: string): Promise<void> {
-    if (!this.channel) {
-      throw new Error('RabbitMQ channel is not available.');
+  /**
+   * Called when the connection or its channel closes. Unless the adapter is
+   * being disconnected, tears down what is left and starts reconnecting.
+   */
+  private handleConnectionLost(connection: AmqpConnection, error?: unknown): void {
+    if (this.closing || this.connection !== connection) {
+      return;
     }
-    const consumerTag = this.consumerTags.get(topic);
-    if (consumerTag) {
-      await this.channel.cancel(consumerTag);
-      this.consumerTags.delete(topic);
+
+    this.connection = null;
+    this.channel = null;
+    this.drained = null;
+    this.consumerTags.clear();
+    connection.close().catch(() => {});
+    const event: BrokerDisconnectedEvent = { error };
+    this.emit('disconnected', event);
+
+    if (this.reconnectOptions !== false && !this.reconnecting) {
+      this.reconnecting = reconnectWithBackoff(
+        this,
+        this.reconnectOptions,
+        () => this.restore(),
+        () => this.closing
+      ).finally(() => {
+        this.reconnecting = null;
+      });
+    }
+  }
+
+  /** Re-establishes the connection and replays the active subscriptions. */
+  private async restore(): Promise<void> {
+    await this.establish();
+    for (const [topic, { handler, options }] of this.subscriptions) {
+      await this.startConsumer(this.channel!, topic, handler, options);
+    }
+  }
+
+  private handleReturn(returned: Message): void {
+    const error = new RabbitMQReturnedMessageError(returned);
+    const messageId = returned.properties.messageId;
+    const pending = messageId ? this.pendingReturns.get(messageId) : undefined;
+    if (pending) {
+      pending(error);
     } else {
-      console.warn(`No active subscription found for topic: ${topic}`);
+      this.onReturn(error);
+    }
+  }
+
+  /**
+   * Waits for the channel's `drain` event. Publishes share the same wait so
+   * that they resume in order once the buffer has room again.
+   */
+  private waitForDrain(channel: Channel): Promise<void> {
+    if (!this.drained) {
+      this.drained = new Promise<void>((resolve, reject) => {
+        const onDrain = () => {
+          channel.removeListener('close', onClose);
+          this.drained = null;
+          resolve();
+        };
+        const onClose = () => {
+          channel.removeListener('drain', onDrain);
+          this.drained = null;
+          reject(new Error('RabbitMQ channel closed while waiting for the write buffer to drain.'));
+        };
+        channel.once('drain', onDrain);
+        channel.once('close', onClose);
+      });
     }
+    return this.drained;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,343 @@
+import type { Redis } from 'ioredis';
+import { hostname } from 'os';
+import {
+  IBrokerAdapter,
+  BrokerMessage,
+  MessageHandler,
+} from '@syntropylog/types';
+import { PayloadCodec, PayloadCodecOptions, PayloadCodecs } from './codecs';
+import { BrokerReconnectOptions } from './reconnect';
+
+/** Field that carries the message payload inside a stream entry. */
+const PAYLOAD_FIELD = 'payload';
+/** Prefix of the fields that carry message headers inside a stream entry. */
+const HEADER_FIELD_PREFIX = 'header:';
+
+type StreamEntry = [id: Buffer, fields: Buffer[]];
+
+export interface RedisStreamsAdapterOptions {
+  /** Consumer group shared by every instance that should split the work. */
+  groupName: string;
+  /**
+   * Name of this consumer inside the group. Defaults to the host name, so that
+   * a restarted process gets back the entries it left pending; give each
+   * process on the same host its own name.
+   */
+  consumerName?: string;
+  /** How long XREADGROUP blocks waiting for new entries, in milliseconds. */
+  blockMs?: number;
+  /** Maximum number of entries fetched per XREADGROUP call. */
+  batchSize?: number;
+  /** Approximate maximum stream length applied on XADD (`MAXLEN ~`). */
+  maxLen?: number;
+  /** ID the consumer group starts reading from when it is created. */
+  startId?: string;
+  /**
+   * When set, entries left pending by any consumer for longer than this are
+   * claimed with XAUTOCLAIM and redelivered to this consumer. Without it, a
+   * consumer only gets its own pending entries back when it subscribes again,
+   * and entries of a consumer that never comes back stay pending.
+   */
+  claimIdleMs?: number;
+  /**
+   * Backoff between attempts when reading the stream fails, e.g. while the
+   * connection is down. `maxAttempts` is ignored: reading is retried until
+   * the subscription is cancelled.
+   */
+  readRetry?: BrokerReconnectOptions;
+  /**
+   * Codec for the `payload` field, per adapter or per stream. It is recorded
+   * as the `content-type` header and handlers get the decoded payload;
+   * without it, objects are stored as JSON and handlers get a `Buffer`.
+   */
+  codec?: PayloadCodec | PayloadCodecOptions;
+}
+
+interface StreamSubscription {
+  reader: Redis;
+  active: boolean;
+  redeliver: string[];
+  /** Where reading this consumer's own pending entries resumes; null once they are done. */
+  pendingFrom: string | null;
+  /** Ends the backoff wait after a failed read, so cancelling does not wait for it. */
+  wake?: () => void;
+  loop: Promise<void>;
+}
+
+/**
+ * Converts the flat `[field, value, field, value, ...]` list of a stream entry
+ * into a BrokerMessage.
+ */
+function entryToBrokerMessage(fields: Buffer[]): BrokerMessage {
+  let payload: Buffer = Buffer.alloc(0);
+  const headers: Record<string, string | Buffer> = {};
+
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    const field = fields[i].toString();
+    if (field === PAYLOAD_FIELD) {
+      payload = fields[i + 1];
+    } else if (field.startsWith(HEADER_FIELD_PREFIX)) {
+      headers[field.slice(HEADER_FIELD_PREFIX.length)] = fields[i + 1].toString();
+    }
+  }
+
+  return {
+    payload,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+  };
+}
+
+export class RedisStreamsAdapter implements IBrokerAdapter {
+  private readonly redis: Redis;
+  private readonly groupName: string;
+  private readonly consumerName: string;
+  private readonly blockMs: number;
+  private readonly batchSize: number;
+  private readonly maxLen?: number;
+  private readonly startId: string;
+  private readonly claimIdleMs?: number;
+  private readonly readRetry: BrokerReconnectOptions;
+  private readonly codecs: PayloadCodecs | null;
+  private connected = false;
+  private subscriptions: Map<string, StreamSubscription> = new Map();
+
+  // The adapter receives an already created ioredis client, like KafkaAdapter
+  // receives its Kafka instance. Subscriptions use duplicated connections
+  // because XREADGROUP BLOCK holds the connection while waiting.
+  constructor(redis: Redis, options: RedisStreamsAdapterOptions) {
+    this.redis = redis;
+    this.groupName = options.groupName;
+    this.consumerName = options.consumerName ?? hostname();
+    this.blockMs = options.blockMs ?? 5000;
+    this.batchSize = options.batchSize ?? 10;
+    this.maxLen = options.maxLen;
+    this.startId = options.startId ?? '$';
+    this.claimIdleMs = options.claimIdleMs;
+    this.readRetry = options.readRetry ?? {};
+    this.codecs = options.codec ? new PayloadCodecs(options.codec) : null;
+  }
+
+  async connect(): Promise<void> {
+    if (this.redis.status === 'wait') {
+      await this.redis.connect();
+    }
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    for (const [topic, subscription] of this.subscriptions) {
+      try {
+        await this.stopSubscription(subscription);
+        console.log(`✅ Cancelled Redis stream subscription for topic: ${topic}`);
+      } catch (error) {
+        console.warn(`⚠️ Error cancelling subscription for topic ${topic}:`, error);
+      }
+    }
+    this.subscriptions.clear();
+
+    if (this.connected) {
+      await this.redis.quit();
+      this.connected = false;
+    }
+  }
+
+  async publish(topic: string, message: BrokerMessage): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Redis connection is not available. Please connect first.');
+    }
+
+    const encoded = this.codecs ? this.codecs.encode(topic, message) : message;
+    const payload = Buffer.isBuffer(encoded.payload)
+      ? encoded.payload
+      : Buffer.from(typeof encoded.payload === 'string' ? encoded.payload : JSON.stringify(encoded.payload));
+
+    const fields: (string | Buffer)[] = [PAYLOAD_FIELD, payload];
+    const headers: Record<string, string | Buffer> = encoded.headers || {};
+    for (const [key, value] of Object.entries(headers)) {
+      fields.push(`${HEADER_FIELD_PREFIX}${key}`, value);
+    }
+
+    if (this.maxLen !== undefined) {
+      await this.redis.xadd(topic, 'MAXLEN', '~', this.maxLen, '*', ...fields);
+    } else {
+      await this.redis.xadd(topic, '*', ...fields);
+    }
+  }
+
+  async subscribe(topic: string, handler: MessageHandler): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Redis connection is not available. Please connect first.');
+    }
+
+    await this.ensureGroup(topic);
+
+    // Subscribing again replaces the handler; the previous reader holds its
+    // own connection, so it has to be closed.
+    const previous = this.subscriptions.get(topic);
+    if (previous) {
+      await this.stopSubscription(previous);
+    }
+
+    const reader = this.redis.duplicate();
+    const subscription: StreamSubscription = {
+      reader,
+      active: true,
+      redeliver: [],
+      pendingFrom: '0',
+      loop: Promise.resolve(),
+    };
+    const decoding = this.codecs ? this.codecs.decoding(topic, handler) : handler;
+    subscription.loop = this.consume(topic, subscription, decoding);
+    this.subscriptions.set(topic, subscription);
+  }
+
+  async unsubscribe(topic: string): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Redis connection is not available.');
+    }
+
+    const subscription = this.subscriptions.get(topic);
+    if (subscription) {
+      await this.stopSubscription(subscription);
+      this.subscriptions.delete(topic);
+      console.log(`✅ Unsubscribed from Redis stream: ${topic}`);
+    } else {
+      console.warn(`No active subscription found for topic: ${topic}`);
+    }
+  }
+
+  private async ensureGroup(topic: string): Promise<void> {
+    try {
+      await this.redis.xgroup('CREATE', topic, this.groupName, this.startId, 'MKSTREAM');
+    } catch (error) {
+      // BUSYGROUP means another instance already created the group.
+      if (!(error instanceof Error) || !error.message.includes('BUSYGROUP')) {
+        throw error;
+      }
+    }
+  }
+
+  private async stopSubscription(subscription: StreamSubscription): Promise<void> {
+    subscription.active = false;
+    // Closing the reader interrupts a blocking XREADGROUP.
+    subscription.reader.disconnect();
+    subscription.wake?.();
+    await subscription.loop;
+  }
+
+  private async consume(
+    topic: string,
+    subscription: StreamSubscription,
+    handler: MessageHandler
+  ): Promise<void> {
+    const { initialDelayMs = 1000, maxDelayMs = 30000, factor = 2 } = this.readRetry;
+    let delayMs = initialDelayMs;
+
+    while (subscription.active) {
+      let entries: StreamEntry[];
+      try {
+        entries = await this.nextEntries(topic, subscription);
+        delayMs = initialDelayMs;
+      } catch (error) {
+        if (!subscription.active) {
+          return;
+        }
+        console.error(`⚠️ Reading Redis stream ${topic} failed, retrying in ${delayMs}ms:`, error);
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, delayMs);
+          subscription.wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        subscription.wake = undefined;
+        delayMs = Math.min(delayMs * factor, maxDelayMs);
+        // The stream or the group may have been deleted (NOGROUP).
+        if (subscription.active && error instanceof Error && error.message.includes('NOGROUP')) {
+          await this.ensureGroup(topic).catch(() => undefined);
+        }
+        continue;
+      }
+
+      for (const [rawId, fields] of entries) {
+        const id = rawId.toString();
+        const controls = {
+          ack: async () => {
+            await this.redis.xack(topic, this.groupName, id);
+          },
+          nack: async (requeue = false) => {
+            // The entry stays in the pending list either way; requeueing asks
+            // this consumer to claim it back right away instead of waiting for
+            // its next subscription or XAUTOCLAIM to pick it up.
+            if (requeue) {
+              subscription.redeliver.push(id);
+            }
+          },
+        };
+
+        try {
+          await handler(entryToBrokerMessage(fields), controls);
+        } catch (error) {
+          // Left unacknowledged, the entry stays pending: this consumer reads
+          // it again when it next subscribes, or XAUTOCLAIM hands it out
+          // sooner when `claimIdleMs` is set.
+          console.error(`⚠️ Handler failed for Redis stream entry ${id} on ${topic}:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns the next batch to process: explicitly requeued entries first,
+   * then the entries this consumer left pending before subscribing, then
+   * stale pending entries (when `claimIdleMs` is set), then new entries.
+   */
+  private async nextEntries(topic: string, subscription: StreamSubscription): Promise<StreamEntry[]> {
+    const { reader } = subscription;
+
+    if (subscription.redeliver.length > 0) {
+      const ids = subscription.redeliver.splice(0, subscription.redeliver.length);
+      const claimed = (await reader.callBuffer(
+        'XCLAIM', topic, this.groupName, this.consumerName, 0, ...ids
+      )) as (StreamEntry | null)[];
+      return claimed.filter((entry): entry is StreamEntry => entry !== null);
+    }
+
+    if (subscription.pendingFrom !== null) {
+      // Reading from an ID other than `>` returns this consumer's pending entries.
+      const result = (await reader.callBuffer(
+        'XREADGROUP',
+        'GROUP', this.groupName, this.consumerName,
+        'COUNT', this.batchSize,
+        'STREAMS', topic, subscription.pendingFrom
+      )) as [Buffer, [Buffer, Buffer[] | null][]][] | null;
+      const pending = result ? result.flatMap(([, streamEntries]) => streamEntries) : [];
+      if (pending.length > 0) {
+        subscription.pendingFrom = pending[pending.length - 1][0].toString();
+        // Entries trimmed from the stream come back without fields.
+        return pending.filter((entry): entry is StreamEntry => entry[1] !== null);
+      }
+      subscription.pendingFrom = null;
+    }
+
+    if (this.claimIdleMs !== undefined) {
+      const [, claimed] = (await reader.callBuffer(
+        'XAUTOCLAIM', topic, this.groupName, this.consumerName, this.claimIdleMs, '0-0', 'COUNT', this.batchSize
+      )) as [Buffer, (StreamEntry | null)[]];
+      const entries = claimed.filter((entry): entry is StreamEntry => entry !== null);
+      if (entries.length > 0) {
+        return entries;
+      }
+    }
+
+    const result = (await reader.callBuffer(
+      'XREADGROUP',
+      'GROUP', this.groupName, this.consumerName,
+      'COUNT', this.batchSize,
+      'BLOCK', this.blockMs,
+      'STREAMS', topic, '>'
+    )) as [Buffer, StreamEntry[]][] | null;
+
+    return result ? result.flatMap(([, streamEntries]) => streamEntries) : [];
+  }
+}
@@ -0,0 +1,130 @@
+import { BrokerMessage } from '@syntropylog/types';
+
+/**
+ * The part of a Postgres client the outbox needs. A `pg` `Client` or
+ * `PoolClient` fits, including one that is inside a transaction.
+ */
+export interface OutboxQueryable {
+  query<R = unknown>(text: string, values?: unknown[]): Promise<{ rows: R[]; rowCount?: number | null }>;
+}
+
+export interface TransactionalOutboxOptions {
+  /** Name of the outbox table, optionally schema-qualified. Defaults to `syntropylog_outbox`. */
+  table?: string;
+}
+
+export interface OutboxAddOptions {
+  /**
+   * Messages with the same ordering key are published in the order they were
+   * added; a message waiting for a retry holds back the ones after it, and so
+   * does a failed message until it is retried or discarded (see `OutboxRelay`).
+   */
+  orderingKey?: string;
+  /**
+   * Identifies the message for deduplication: a second `add` with the same key
+   * is ignored, and the relay sends the key in a header for consumers.
+   */
+  dedupKey?: string;
+}
+
+export const DEFAULT_OUTBOX_TABLE = 'syntropylog_outbox';
+
+/** Quotes a possibly schema-qualified table name. */
+export function quoteOutboxTable(table: string): string {
+  return table
+    .split('.')
+    .map(part => `"${part.replace(/"/g, '""')}"`)
+    .join('.');
+}
+
+function toPayloadBuffer(payload: unknown): Buffer {
+  if (Buffer.isBuffer(payload)) {
+    return payload;
+  }
+  return Buffer.from(typeof payload === 'string' ? payload : JSON.stringify(payload));
+}
+
+function toStringHeaders(headers: BrokerMessage['headers']): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    result[key] = Buffer.isBuffer(value) ? value.toString() : value;
+  }
+  return result;
+}
+
+/**
+ * Writes messages to an outbox table using the application's own database
+ * transaction, so that they are stored if and only if the business data is.
+ * An `OutboxRelay` then publishes them to a broker.
+ */
+export class TransactionalOutbox {
+  private readonly table: string;
+  private readonly indexName: string;
+  private readonly orderingIndexName: string;
+
+  constructor(options: TransactionalOutboxOptions = {}) {
+    const table = options.table ?? DEFAULT_OUTBOX_TABLE;
+    this.table = quoteOutboxTable(table);
+    // Indexes live in the table's schema and take an unqualified name.
+    this.indexName = quoteOutboxTable(`${table.split('.').pop()}_pending_idx`);
+    this.orderingIndexName = quoteOutboxTable(`${table.split('.').pop()}_pending_ordering_idx`);
+  }
+
+  /**
+   * Creates the outbox table and its index if they do not exist.
+   */
+  async createTable(db: OutboxQueryable): Promise<void> {
+    await db.query(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+        id BIGSERIAL PRIMARY KEY,
+        topic TEXT NOT NULL,
+        headers JSONB NOT NULL,
+        payload BYTEA NOT NULL,
+        ordering_key TEXT,
+        dedup_key TEXT UNIQUE,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        last_error TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        published_at TIMESTAMPTZ,
+        failed_at TIMESTAMPTZ
+      )`
+    );
+    await db.query(
+      `CREATE INDEX IF NOT EXISTS ${this.indexName}
+        ON ${this.table} (id) WHERE published_at IS NULL AND failed_at IS NULL`
+    );
+    // Lets the relay find earlier pending or failed messages of the same ordering key.
+    await db.query(
+      `CREATE INDEX IF NOT EXISTS ${this.orderingIndexName}
+        ON ${this.table} (ordering_key, id) WHERE published_at IS NULL`
+    );
+  }
+
+  /**
+   * Stores a message for publishing. Call it with the client of the
+   * transaction that writes the related business data.
+   * @returns False when a message with the same `dedupKey` was already added.
+   */
+  async add(
+    db: OutboxQueryable,
+    topic: string,
+    message: BrokerMessage,
+    options: OutboxAddOptions = {}
+  ): Promise<boolean> {
+    const result = await db.query(
+      `INSERT INTO ${this.table} (topic, headers, payload, ordering_key, dedup_key)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (dedup_key) DO NOTHING
+        RETURNING id`,
+      [
+        topic,
+        JSON.stringify(toStringHeaders(message.headers)),
+        toPayloadBuffer(message.payload),
+        options.orderingKey ?? null,
+        options.dedupKey ?? null,
+      ]
+    );
+    return result.rows.length > 0;
+  }
+}
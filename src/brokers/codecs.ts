@@ -0,0 +1,170 @@
+import { decode as decodeMsgpack, encode as encodeMsgpack } from '@msgpack/msgpack';
+import { decode as decodeCbor, encode as encodeCbor } from 'cbor-x';
+import { BrokerMessage, MessageHandler } from '@syntropylog/types';
+
+/** Header that records which codec encoded a payload. */
+export const CONTENT_TYPE_HEADER = 'content-type';
+
+/**
+ * Turns payloads into the bytes sent to the broker and back.
+ */
+export interface PayloadCodec {
+  /** Media type written to the `content-type` header, e.g. `application/json`. */
+  readonly contentType: string;
+  encode(payload: unknown): Buffer;
+  decode(data: Buffer): unknown;
+}
+
+/** `JSON.stringify`s the payload as UTF-8. */
+export const jsonCodec: PayloadCodec = {
+  contentType: 'application/json',
+  encode: payload => Buffer.from(JSON.stringify(payload)),
+  decode: data => JSON.parse(data.toString('utf8')),
+};
+
+/** Sends `Buffer` and `Uint8Array` payloads untouched; consumers get a `Buffer`. */
+export const rawCodec: PayloadCodec = {
+  contentType: 'application/octet-stream',
+  encode: payload => {
+    if (payload instanceof Uint8Array) {
+      return Buffer.isBuffer(payload) ? payload : Buffer.from(payload);
+    }
+    throw new TypeError('The raw codec only encodes Buffer or Uint8Array payloads.');
+  },
+  decode: data => data,
+};
+
+/** Sends string payloads as UTF-8 text; consumers get a string. */
+export const utf8Codec: PayloadCodec = {
+  contentType: 'text/plain; charset=utf-8',
+  encode: payload => {
+    if (typeof payload === 'string') {
+      return Buffer.from(payload, 'utf8');
+    }
+    throw new TypeError('The UTF-8 codec only encodes string payloads.');
+  },
+  decode: data => data.toString('utf8'),
+};
+
+/** MessagePack; binary values come back as `Uint8Array`. */
+export const msgpackCodec: PayloadCodec = {
+  contentType: 'application/msgpack',
+  encode: payload => {
+    const bytes = encodeMsgpack(payload);
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  },
+  decode: data => decodeMsgpack(data),
+};
+
+/** CBOR (RFC 8949); binary values come back as `Buffer`. */
+export const cborCodec: PayloadCodec = {
+  contentType: 'application/cbor',
+  encode: payload => encodeCbor(payload),
+  decode: data => decodeCbor(data),
+};
+
+const BUILT_IN_CODECS = [jsonCodec, rawCodec, utf8Codec, msgpackCodec, cborCodec];
+
+/**
+ * The `codec` option of the broker adapters, when different topics need
+ * different codecs.
+ */
+export interface PayloadCodecOptions {
+  /** Codec for topics not listed in `topics`. Defaults to `jsonCodec`. */
+  default?: PayloadCodec;
+  /** Codec by topic, as passed to `publish` and `subscribe`. */
+  topics?: Record<string, PayloadCodec>;
+  /**
+   * Codecs consumers can decode besides the built-in ones, matched on the
+   * `content-type` header. `default` and `topics` are included already.
+   */
+  decoders?: PayloadCodec[];
+}
+
+/** `text/plain; charset=utf-8` and `Text/Plain` both give `text/plain`. */
+function mediaType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+function headerValue(message: BrokerMessage, name: string): string | undefined {
+  const value = message.headers?.[name];
+  return Buffer.isBuffer(value) ? value.toString() : value;
+}
+
+/**
+ * Applies an adapter's `codec` option. Publishing encodes the payload with
+ * the topic's codec and records it in the `content-type` header; consuming
+ * decodes with the codec named by that header, or with the subscribed
+ * topic's codec when the header is missing. Payloads whose content type has
+ * no codec are handed over as the raw `Buffer`.
+ */
+export class PayloadCodecs {
+  private readonly defaultCodec: PayloadCodec;
+  private readonly topics: Record<string, PayloadCodec>;
+  private readonly byMediaType: Map<string, PayloadCodec> = new Map();
+
+  constructor(option: PayloadCodec | PayloadCodecOptions) {
+    const options: PayloadCodecOptions = 'contentType' in option ? { default: option } : option;
+    this.defaultCodec = options.default ?? jsonCodec;
+    this.topics = options.topics ?? {};
+
+    const codecs = [
+      ...BUILT_IN_CODECS,
+      ...(options.decoders ?? []),
+      ...Object.values(this.topics),
+      this.defaultCodec,
+    ];
+    for (const codec of codecs) {
+      this.byMediaType.set(mediaType(codec.contentType), codec);
+    }
+  }
+
+  /** The codec used for `topic`; RegExp subscriptions use the default one. */
+  codecFor(topic: string | RegExp): PayloadCodec {
+    return (typeof topic === 'string' ? this.topics[topic] : undefined) ?? this.defaultCodec;
+  }
+
+  /**
+   * Encodes the payload for publishing. A `Buffer` payload that already has
+   * a `content-type` header is taken as encoded, so forwarded messages are
+   * not encoded twice. Otherwise a `content-type` header selects the codec,
+   * and must name a known one.
+   */
+  encode(topic: string, message: BrokerMessage): BrokerMessage & { payload: Buffer } {
+    const contentType = headerValue(message, CONTENT_TYPE_HEADER);
+    if (contentType !== undefined && Buffer.isBuffer(message.payload)) {
+      return { ...message, payload: message.payload };
+    }
+
+    const codec = contentType === undefined ? this.codecFor(topic) : this.byMediaType.get(mediaType(contentType));
+    if (!codec) {
+      throw new Error(`No payload codec is registered for content type "${contentType}".`);
+    }
+    return {
+      payload: codec.encode(message.payload),
+      headers: { ...message.headers, [CONTENT_TYPE_HEADER]: contentType ?? codec.contentType },
+    };
+  }
+
+  /** Decodes a received message whose payload is still the raw bytes. */
+  decode(topic: string | RegExp, message: BrokerMessage): BrokerMessage {
+    const contentType = headerValue(message, CONTENT_TYPE_HEADER);
+    const codec = contentType === undefined
+      ? this.codecFor(topic)
+      : this.byMediaType.get(mediaType(contentType));
+    // Kafka tombstones have a null payload.
+    if (!codec || !Buffer.isBuffer(message.payload)) {
+      return message;
+    }
+    return { ...message, payload: codec.decode(message.payload) };
+  }
+
+  /**
+   * Wraps a handler so that it receives decoded payloads. A payload that
+   * fails to decode surfaces as an error thrown by the handler, so it goes
+   * through the adapter's usual failure handling.
+   */
+  decoding(topic: string | RegExp, handler: MessageHandler): MessageHandler {
+    return async (message, controls) => handler(this.decode(topic, message), controls);
+  }
+}
@@ -3,6 +3,80 @@
  * @description Broker adapters for SyntropyLog
  */
 
-export { KafkaAdapter } from './KafkaAdapter';
-export { RabbitMQAdapter } from './RabbitMQAdapter';
-export { NatsAdapter } from './NatsAdapter'; 
\ No newline at end of file
+export { KafkaAdapter, KAFKA_DLQ_HEADERS } from './KafkaAdapter';
+export type {
+  KafkaAdapterOptions,
+  KafkaDeadLetterOptions,
+  KafkaRetryPolicy,
+  KafkaMessageControls,
+  KafkaBrokerMessage,
+  KafkaBatchEntry,
+  KafkaBatchingOptions,
+  KafkaOffset,
+  KafkaTransaction,
+  KafkaCommitMode,
+  KafkaConsumerOptions,
+  KafkaSubscribeOptions,
+} from './KafkaAdapter';
+export { RabbitMQAdapter, RabbitMQReturnedMessageError } from './RabbitMQAdapter';
+export type {
+  RabbitMQAdapterOptions,
+  RabbitMQExchangeType,
+  RabbitMQSubscriptionOptions,
+} from './RabbitMQAdapter';
+export { NatsAdapter } from './NatsAdapter';
+export type { NatsAdapterOptions, NatsJetStreamOptions, NatsMessageControls } from './NatsAdapter';
+export { MqttAdapter } from './MqttAdapter';
+export type { MqttAdapterOptions, MqttBrokerMessage, MqttEnvelope, MqttQoS, MqttSubscribeOptions } from './MqttAdapter';
+export { PostgresNotifyAdapter, POSTGRES_NOTIFY_MAX_PAYLOAD_BYTES } from './PostgresNotifyAdapter';
+export type { PostgresNotifyAdapterOptions } from './PostgresNotifyAdapter';
+export { RedisStreamsAdapter } from './RedisStreamsAdapter';
+export type { RedisStreamsAdapterOptions } from './RedisStreamsAdapter';
+export { TransactionalOutbox, DEFAULT_OUTBOX_TABLE } from './TransactionalOutbox';
+export type { TransactionalOutboxOptions, OutboxAddOptions, OutboxQueryable } from './TransactionalOutbox';
+export { OutboxRelay } from './OutboxRelay';
+export type {
+  OutboxRelayOptions,
+  OutboxRetryOptions,
+  OutboxConnectionPool,
+  OutboxPublishedEvent,
+  OutboxRetryEvent,
+  OutboxFailedEvent,
+} from './OutboxRelay';
+export { createIdempotentHandler, InMemoryIdempotencyStore } from './IdempotentConsumer';
+export type {
+  IdempotencyClaim,
+  IdempotencyStore,
+  IdempotentHandlerOptions,
+  InMemoryIdempotencyStoreOptions,
+  DuplicateMessageEvent,
+} from './IdempotentConsumer';
+export {
+  PayloadCodecs,
+  CONTENT_TYPE_HEADER,
+  jsonCodec,
+  rawCodec,
+  utf8Codec,
+  msgpackCodec,
+  cborCodec,
+} from './codecs';
+export type { PayloadCodec, PayloadCodecOptions } from './codecs';
+export { CircuitBreakerBrokerAdapter } from './CircuitBreakerBrokerAdapter';
+export type { BrokerCircuitBreakerOptions } from './CircuitBreakerBrokerAdapter';
+export { CircuitBreaker, CircuitOpenError } from '../utils/CircuitBreaker';
+export type { CircuitBreakerOptions, CircuitState, CircuitStateChangeEvent } from '../utils/CircuitBreaker';
+export { InMemoryBrokerAdapter } from './InMemoryBrokerAdapter';
+export type {
+  InMemoryBrokerAdapterOptions,
+  InMemoryDelivery,
+  InMemoryDeliveryStatus,
+  InMemoryMessageControls,
+  InMemoryMessageRecord,
+} from './InMemoryBrokerAdapter';
+export type {
+  BrokerReconnectOptions,
+  BrokerDisconnectedEvent,
+  BrokerReconnectingEvent,
+  BrokerReconnectedEvent,
+  BrokerReconnectFailedEvent,
+} from './reconnect';
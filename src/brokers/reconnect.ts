@@ -0,0 +1,84 @@
+import type { EventEmitter } from 'events';
+
+/**
+ * Backoff used by the broker adapters to re-establish a lost connection.
+ */
+export interface BrokerReconnectOptions {
+  /** Attempts before giving up and emitting `reconnectFailed`. Unlimited when omitted. */
+  maxAttempts?: number;
+  /** Delay before the first attempt, in milliseconds. Defaults to 1000. */
+  initialDelayMs?: number;
+  /** Upper bound for the delay between attempts, in milliseconds. Defaults to 30000. */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each failed attempt. Defaults to 2. */
+  factor?: number;
+}
+
+/** Payload of the `disconnected` event. */
+export interface BrokerDisconnectedEvent {
+  /** Why the connection was lost, when the client reported it. */
+  error?: unknown;
+}
+
+/** Payload of the `reconnecting` event. */
+export interface BrokerReconnectingEvent {
+  /** 1-based number of the attempt about to be made. */
+  attempt: number;
+  /** Delay before the attempt, when the adapter (not the client library) schedules it. */
+  delayMs?: number;
+}
+
+/** Payload of the `reconnected` event. */
+export interface BrokerReconnectedEvent {
+  /** How many attempts it took. */
+  attempts: number;
+}
+
+/** Payload of the `reconnectFailed` event, emitted when `maxAttempts` is exhausted. */
+export interface BrokerReconnectFailedEvent {
+  attempts: number;
+  error: unknown;
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Calls `attempt` with exponential backoff until it succeeds, the attempts run
+ * out or `isCancelled` returns true, emitting the lifecycle events on `emitter`.
+ * @returns Whether the connection was re-established.
+ */
+export async function reconnectWithBackoff(
+  emitter: EventEmitter,
+  options: BrokerReconnectOptions,
+  attempt: () => Promise<void>,
+  isCancelled: () => boolean
+): Promise<boolean> {
+  const maxAttempts = options.maxAttempts ?? Infinity;
+  const maxDelayMs = options.maxDelayMs ?? 30000;
+  const factor = options.factor ?? 2;
+  let delayMs = options.initialDelayMs ?? 1000;
+  let lastError: unknown;
+
+  for (let attempts = 1; attempts <= maxAttempts; attempts++) {
+    const event: BrokerReconnectingEvent = { attempt: attempts, delayMs };
+    emitter.emit('reconnecting', event);
+    await sleep(delayMs);
+    if (isCancelled()) {
+      return false;
+    }
+
+    try {
+      await attempt();
+      const reconnected: BrokerReconnectedEvent = { attempts };
+      emitter.emit('reconnected', reconnected);
+      return true;
+    } catch (error) {
+      lastError = error;
+      delayMs = Math.min(delayMs * factor, maxDelayMs);
+    }
+  }
+
+  const failed: BrokerReconnectFailedEvent = { attempts: maxAttempts, error: lastError };
+  emitter.emit('reconnectFailed', failed);
+  return false;
+}
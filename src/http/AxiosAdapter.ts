@@ -13,11 +13,11 @@ import axios, {
   RawAxiosResponseHeaders,
 } from 'axios';
 import {
-  AdapterHttpRequest,
   AdapterHttpResponse,
   IHttpClientAdapter,
-  AdapterHttpError,
 } from '@syntropylog/types';
+import { sanitizeRequestHeaders } from './utils';
+import { HttpAdapterError, HttpAdapterOptions, HttpAdapterRequest } from './types';
 
 /**
  * A helper function to normalize the Axios headers object.
@@ -51,13 +51,16 @@ function normalizeHeaders(
  */
 export class AxiosAdapter implements IHttpClientAdapter {
   private readonly axiosInstance: AxiosInstance;
+  private readonly options: HttpAdapterOptions;
 
   /**
    * @constructor
    * @param {AxiosRequestConfig | AxiosInstance} config - Either a pre-configured
    * Axios instance or a configuration object to create a new instance.
+   * @param {HttpAdapterOptions} [options] - Adapter options, such as the default timeout.
    */
-  constructor(config: AxiosRequestConfig | AxiosInstance) {
+  constructor(config: AxiosRequestConfig | AxiosInstance, options: HttpAdapterOptions = {}) {
+    this.options = options;
     if ('request' in config && typeof config.request === 'function') {
       this.axiosInstance = config as AxiosInstance;
     } else {
@@ -71,30 +74,18 @@ export class AxiosAdapter implements IHttpClientAdapter {
    * sends the request, and then normalizes the Axios response or error back
    * into the framework's generic format (`AdapterHttpResponse` or `AdapterHttpError`).
    * @template T The expected type of the response data.
-   * @param {AdapterHttpRequest} request The generic request object.
+   * @param {HttpAdapterRequest} request The generic request object, optionally
+   * carrying a `timeout` override and an `AbortSignal`.
    * @returns {Promise<AdapterHttpResponse<T>>} A promise that resolves with the normalized response.
-   * @throws {AdapterHttpError} Throws a normalized error if the request fails.
+   * @throws {HttpAdapterError} Throws a normalized error if the request fails.
    */
   async request<T>(
-    request: AdapterHttpRequest
+    request: HttpAdapterRequest
   ): Promise<AdapterHttpResponse<T>> {
     try {
       // Sanitize headers before passing them to Axios.
-      // The `request.headers` object from the instrumenter contains the full context,
-      // which might include non-string values or keys that are not valid HTTP headers.
       // This ensures we only pass valid, string-based headers to the underlying client.
-      const sanitizedHeaders: Record<string, string> = {};
-      const excludedHeaders = ['host', 'connection', 'content-length']; // Headers to exclude
-
-      for (const key in request.headers) {
-        if (
-          Object.prototype.hasOwnProperty.call(request.headers, key) &&
-          typeof request.headers[key] === 'string' &&
-          !excludedHeaders.includes(key.toLowerCase()) // Exclude problematic headers
-        ) {
-          sanitizedHeaders[key] = request.headers[key] as string;
-        }
-      }
+      const sanitizedHeaders = sanitizeRequestHeaders(request.headers);
 
       const axiosConfig: AxiosRequestConfig = {
         url: request.url,
@@ -104,6 +95,14 @@ export class AxiosAdapter implements IHttpClientAdapter {
         data: request.body,
       };
 
+      const timeout = request.timeout ?? this.options.timeout;
+      if (timeout !== undefined) {
+        axiosConfig.timeout = timeout;
+      }
+      if (request.signal) {
+        axiosConfig.signal = request.signal;
+      }
+
       const response = await this.axiosInstance.request<T>(axiosConfig);
 
       return {
@@ -113,11 +112,19 @@ export class AxiosAdapter implements IHttpClientAdapter {
       };
     } catch (error) {
       if (isAxiosError(error)) {
-        const normalizedError: AdapterHttpError = {
+        // Axios reports timeouts as ECONNABORTED (or ETIMEDOUT with
+        // `clarifyTimeoutError`) and cancellations as ERR_CANCELED.
+        const isAborted = error.code === 'ERR_CANCELED';
+        const isTimeout = !isAborted && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT');
+
+        const normalizedError: HttpAdapterError = {
           name: 'AdapterHttpError',
           message: error.message,
           stack: error.stack,
           isAdapterError: true,
+          code: error.code,
+          isTimeout,
+          isAborted,
           request: request,
           response: error.response
             ? {
@@ -0,0 +1,92 @@
+/**
+ * @file src/http/CircuitBreakerHttpAdapter.ts
+ * @description A decorator for any IHttpClientAdapter that stops calling a
+ * host once too many of its requests fail, and lets a trial request through
+ * after a cooldown. Each host has its own circuit.
+ */
+
+import {
+  AdapterHttpResponse,
+  IHttpClientAdapter,
+} from '@syntropylog/types';
+import { CircuitBreaker, CircuitBreakerOptions } from '../utils/CircuitBreaker';
+import { HttpAdapterError, HttpAdapterRequest } from './types';
+
+export interface HttpCircuitBreakerOptions extends CircuitBreakerOptions {
+  /**
+   * A breaker to share with other decorators. When omitted, one is created
+   * from the options above.
+   */
+  breaker?: CircuitBreaker;
+  /** Maps a request to its circuit. Defaults to the host of the URL. */
+  keyFor?: (request: HttpAdapterRequest) => string;
+}
+
+/**
+ * Default failure rule: network errors, timeouts, 429 and 5xx responses count
+ * against the host. Other 4xx responses are the caller's fault and cancelled
+ * requests say nothing about the host.
+ * @param {unknown} error - The error thrown by the wrapped adapter.
+ * @returns {boolean} Whether the error counts as a failure.
+ */
+function isHostFailure(error: unknown): boolean {
+  const adapterError = error as HttpAdapterError;
+  if (!adapterError?.isAdapterError || adapterError.isAborted) {
+    return false;
+  }
+  if (!adapterError.response) {
+    return true;
+  }
+  const { statusCode } = adapterError.response;
+  return statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * Returns the host of a request URL, or the URL itself when it cannot be parsed.
+ * @param {HttpAdapterRequest} request - The generic request.
+ * @returns {string} The circuit key.
+ */
+function hostOf(request: HttpAdapterRequest): string {
+  try {
+    return new URL(request.url).host;
+  } catch {
+    return request.url;
+  }
+}
+
+/**
+ * @class CircuitBreakerHttpAdapter
+ * @description Wraps another `IHttpClientAdapter` with a per-host circuit
+ * breaker. While a host's circuit is open, requests to it reject with a
+ * `CircuitOpenError` without being sent. State changes are emitted by `breaker`.
+ * @implements {IHttpClientAdapter}
+ */
+export class CircuitBreakerHttpAdapter implements IHttpClientAdapter {
+  readonly breaker: CircuitBreaker;
+  private readonly adapter: IHttpClientAdapter;
+  private readonly keyFor: (request: HttpAdapterRequest) => string;
+
+  /**
+   * @constructor
+   * @param {IHttpClientAdapter} adapter - The adapter that sends the requests.
+   * @param {HttpCircuitBreakerOptions} [options] - The breaker configuration.
+   */
+  constructor(adapter: IHttpClientAdapter, options: HttpCircuitBreakerOptions = {}) {
+    const { breaker, keyFor, ...breakerOptions } = options;
+    this.adapter = adapter;
+    this.breaker = breaker ?? new CircuitBreaker({ isFailure: isHostFailure, ...breakerOptions });
+    this.keyFor = keyFor ?? hostOf;
+  }
+
+  /**
+   * Sends the request through the circuit of its host.
+   * @template T The expected type of the response data.
+   * @param {HttpAdapterRequest} request The generic request object.
+   * @returns {Promise<AdapterHttpResponse<T>>} A promise that resolves with the normalized response.
+   * @throws {CircuitOpenError} When the host's circuit is open.
+   * @throws {HttpAdapterError} When the wrapped adapter fails.
+   */
+  async request<T>(request: HttpAdapterRequest): Promise<AdapterHttpResponse<T>> {
+    return this.breaker.execute(this.keyFor(request), () => this.adapter.request<T>(request));
+  }
+}
@@ -1,29 +1,216 @@
-// Using native fetch (available in Node.js 18+)
-// For older versions, you would need to install node-fetch
+/**
+ * @file src/http/FetchAdapter.ts
+ * @description An implementation of the IHttpClientAdapter for the native fetch API
+ * (available in Node.js 18+). It mirrors AxiosAdapter so that both adapters
+ * behave the same way under SyntropyLog.
+ */
+
 import {
   IHttpClientAdapter,
-  AdapterHttpRequest,
   AdapterHttpResponse,
 } from '@syntropylog/types';
+import { buildSearchParams, sanitizeRequestHeaders } from './utils';
+import { HttpAdapterError, HttpAdapterOptions, HttpAdapterRequest } from './types';
+
+/**
+ * Appends the generic query params to the request URL.
+ * @param {string} url - The request URL, which may already contain a query string.
+ * @param {Record<string, any> | undefined} queryParams - The generic query params.
+ * @returns {string} The URL including the query string.
+ */
+function buildUrl(url: string, queryParams: Record<string, any> | undefined): string {
+  const query = buildSearchParams(queryParams)?.toString();
+  if (!query) {
+    return url;
+  }
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+}
 
+/**
+ * Translates the generic request body into a fetch `body`. Strings, binary
+ * data, `URLSearchParams` and `FormData` are passed through untouched (fetch
+ * sets their content type); any other value is sent as JSON.
+ * @param {unknown} body - The generic request body.
+ * @param {Record<string, string>} headers - The outgoing headers, updated in place
+ * with a JSON content type when needed.
+ * @returns {RequestInit['body']} The fetch body.
+ */
+function buildBody(body: unknown, headers: Record<string, string>): RequestInit['body'] {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  if (
+    typeof body === 'string' ||
+    body instanceof Uint8Array ||
+    body instanceof ArrayBuffer ||
+    body instanceof URLSearchParams ||
+    body instanceof Blob ||
+    body instanceof FormData
+  ) {
+    return body as RequestInit['body'];
+  }
+
+  const hasContentType = Object.keys(headers).some(key => key.toLowerCase() === 'content-type');
+  if (!hasContentType) {
+    headers['Content-Type'] = 'application/json';
+  }
+  return JSON.stringify(body);
+}
+
+/**
+ * Reads the response body according to its `content-type`: JSON is parsed,
+ * text is returned as a string, url-encoded forms as an object and anything
+ * else as a Buffer. An empty body yields an empty object.
+ * @param {Response} response - The fetch response.
+ * @returns {Promise<unknown>} The parsed body.
+ */
+async function parseBody(response: Response): Promise<unknown> {
+  const contentType = response.headers.get('content-type') ?? '';
+
+  if (contentType && !contentType.includes('json') && !contentType.startsWith('text/')) {
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      return Object.fromEntries(new URLSearchParams(await response.text()));
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  const text = await response.text();
+  if (!text) {
+    return {};
+  }
+  if (contentType.startsWith('text/')) {
+    return text;
+  }
+  // JSON, or no content type at all: try JSON and fall back to the raw text.
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Reads the error code of a failed fetch. Node's fetch (undici) rejects with a
+ * generic `TypeError` and keeps the system error, e.g. `ECONNREFUSED` or
+ * `ENOTFOUND`, in its `cause`.
+ * @param {unknown} error - The rejection reason.
+ * @returns {string | undefined} The error code, if any.
+ */
+function errorCode(error: unknown): string | undefined {
+  const { code, cause } = (error ?? {}) as { code?: string; cause?: { code?: string } };
+  return code ?? cause?.code;
+}
+
+/**
+ * @class FetchAdapter
+ * @description An adapter that allows SyntropyLog to instrument HTTP requests
+ * made with the native fetch API. It implements the `IHttpClientAdapter` interface.
+ * @implements {IHttpClientAdapter}
+ */
 export class FetchAdapter implements IHttpClientAdapter {
+  private readonly fetchFn: typeof fetch;
+  private readonly options: HttpAdapterOptions;
+
+  /**
+   * @constructor
+   * @param {typeof fetch} [fetchFn] - The fetch implementation to use.
+   * Defaults to the global `fetch`.
+   * @param {HttpAdapterOptions} [options] - Adapter options, such as the default timeout.
+   */
+  constructor(fetchFn?: typeof fetch, options: HttpAdapterOptions = {}) {
+    this.fetchFn = fetchFn ?? ((input, init) => fetch(input, init));
+    this.options = options;
+  }
+
+  /**
+   * Executes an HTTP request using fetch.
+   * It translates the generic `AdapterHttpRequest` into a fetch call, and then
+   * normalizes the response or error back into the framework's generic format
+   * (`AdapterHttpResponse` or `AdapterHttpError`). Non-2xx responses are errors.
+   * @template T The expected type of the response data.
+   * @param {HttpAdapterRequest} request The generic request object, optionally
+   * carrying a `timeout` override and an `AbortSignal`.
+   * @returns {Promise<AdapterHttpResponse<T>>} A promise that resolves with the normalized response.
+   * @throws {HttpAdapterError} Throws a normalized error if the request fails.
+   */
   async request<T>(
-    request: AdapterHttpRequest,
+    request: HttpAdapterRequest,
   ): Promise<AdapterHttpResponse<T>> {
-    const response = await fetch(request.url, {
-      method: request.method,
-      headers: request.headers as Record<string, string>,
-      body: request.body ? JSON.stringify(request.body) : undefined,
-    });
-
-    // Handle cases where the response body might be empty
-    const text = await response.text();
-    const data = (text ? JSON.parse(text) : {}) as T;
-
-    return {
-      statusCode: response.status,
-      data: data,
-      headers: Object.fromEntries(response.headers.entries()),
-    };
-  }
-} 
\ No newline at end of file
+    const headers = sanitizeRequestHeaders(request.headers);
+    const body = buildBody(request.body, headers);
+
+    // A single controller aborts the call both on timeout and when the
+    // caller's signal fires; the flag tells the two cases apart afterwards.
+    const controller = new AbortController();
+    const timeout = request.timeout ?? this.options.timeout;
+    let timedOut = false;
+    const timer = timeout !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+    const onAbort = () => controller.abort();
+    if (request.signal?.aborted) {
+      controller.abort();
+    } else {
+      request.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    try {
+      let response: Response;
+      let data: unknown;
+      try {
+        response = await this.fetchFn(buildUrl(request.url, request.queryParams), {
+          method: request.method,
+          headers,
+          body,
+          signal: controller.signal,
+        });
+        data = await parseBody(response);
+      } catch (error) {
+        // fetch only rejects on network failures or aborts, so there is no response to attach.
+        const normalizedError: HttpAdapterError = {
+          name: 'AdapterHttpError',
+          message: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+          isAdapterError: true,
+          code: errorCode(error),
+          isTimeout: timedOut,
+          isAborted: !timedOut && controller.signal.aborted,
+          request: request,
+          response: undefined,
+        };
+        if (normalizedError.isTimeout) {
+          normalizedError.message = `Request timed out after ${timeout}ms`;
+        } else if (normalizedError.isAborted) {
+          normalizedError.message = 'Request aborted';
+        }
+        throw normalizedError;
+      }
+
+      const normalizedResponse: AdapterHttpResponse<T> = {
+        statusCode: response.status,
+        data: data as T,
+        headers: Object.fromEntries(response.headers.entries()),
+      };
+
+      if (!response.ok) {
+        const normalizedError: HttpAdapterError = {
+          name: 'AdapterHttpError',
+          message: `Request failed with status code ${response.status}`,
+          stack: new Error().stack,
+          isAdapterError: true,
+          request: request,
+          response: normalizedResponse,
+        };
+        throw normalizedError;
+      }
+
+      return normalizedResponse;
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
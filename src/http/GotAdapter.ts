@@ -0,0 +1,216 @@
+/**
+ * @file src/http/GotAdapter.ts
+ * @description An implementation of the IHttpClientAdapter for the Got library.
+ * This class acts as a "translator," converting requests and responses
+ * between the framework's generic format and the Got-specific format.
+ */
+
+import type { Got, ExtendOptions, OptionsInit, Response } from 'got';
+import type { IncomingHttpHeaders } from 'http';
+import {
+  AdapterHttpResponse,
+  IHttpClientAdapter,
+} from '@syntropylog/types';
+import { buildSearchParams, sanitizeRequestHeaders } from './utils';
+import { HttpAdapterError, HttpAdapterOptions, HttpAdapterRequest } from './types';
+
+let gotModule: Promise<typeof import('got')> | undefined;
+
+/**
+ * Loads Got on first use. Got 12 is ESM-only, so a static import would turn
+ * into a `require('got')` in the CommonJS bundle and fail when it is loaded.
+ * @returns {Promise<typeof import('got')>} The Got module.
+ */
+function loadGot(): Promise<typeof import('got')> {
+  gotModule ??= import('got');
+  return gotModule;
+}
+
+/**
+ * Names of the errors Got rejects with; they all extend its `RequestError`.
+ */
+const GOT_ERROR_NAMES = new Set([
+  'RequestError',
+  'HTTPError',
+  'TimeoutError',
+  'MaxRedirectsError',
+  'CacheError',
+  'UploadError',
+  'ReadError',
+  'RetryError',
+  'AbortError',
+  'CancelError',
+]);
+
+/**
+ * Tells whether an error was raised by Got. Checked by name rather than with
+ * `instanceof`, which fails when the error comes from another copy of Got
+ * than the one this module loads.
+ * @param {unknown} error - The caught error.
+ * @returns {boolean} True for Got errors.
+ */
+function isGotError(
+  error: unknown
+): error is Error & { code?: string; response?: unknown } {
+  return error instanceof Error && GOT_ERROR_NAMES.has(error.name);
+}
+
+/**
+ * Converts Node's `IncomingHttpHeaders` (whose values may be `undefined`)
+ * into the simple record our adapter interface expects.
+ * @param {IncomingHttpHeaders} headers - The Got response headers.
+ * @returns {Record<string, string | number | string[]>} A simple, normalized headers object.
+ */
+function normalizeHeaders(
+  headers: IncomingHttpHeaders
+): Record<string, string | number | string[]> {
+  const normalized: Record<string, string | number | string[]> = {};
+  for (const key in headers) {
+    if (Object.prototype.hasOwnProperty.call(headers, key)) {
+      const value = headers[key];
+      if (value !== undefined && value !== null) {
+        normalized[key] = value;
+      }
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Maps a generic request body onto the matching Got option: plain objects
+ * and arrays are sent as `json`, `URLSearchParams` as an url-encoded `form`, and
+ * strings or binary data are passed through as `body`.
+ * @param {unknown} body - The generic request body.
+ * @returns {Partial<OptionsInit>} The Got body options.
+ */
+function buildBodyOptions(body: unknown): Partial<OptionsInit> {
+  if (body === undefined || body === null) {
+    return {};
+  }
+  if (typeof body === 'string' || Buffer.isBuffer(body)) {
+    return { body };
+  }
+  if (body instanceof Uint8Array) {
+    return { body: Buffer.from(body) };
+  }
+  if (body instanceof URLSearchParams) {
+    return { form: Object.fromEntries(body) };
+  }
+  return { json: body as Record<string, unknown> };
+}
+
+/**
+ * Parses the raw response body according to its `content-type`.
+ * JSON responses are parsed, everything else is returned as text.
+ * @param {Response<string>} response - The Got response with a text body.
+ * @returns {unknown} The parsed body.
+ */
+function parseBody(response: Response<string>): unknown {
+  const contentType = String(response.headers['content-type'] ?? '');
+  if (contentType.includes('json') && response.body) {
+    try {
+      return JSON.parse(response.body);
+    } catch {
+      return response.body;
+    }
+  }
+  return response.body;
+}
+
+/**
+ * @class GotAdapter
+ * @description An adapter that allows SyntropyLog to instrument HTTP requests
+ * made with the Got library. It implements the `IHttpClientAdapter` interface.
+ * Hooks and retry settings configured on the Got instance are preserved.
+ * @implements {IHttpClientAdapter}
+ */
+export class GotAdapter implements IHttpClientAdapter {
+  private readonly config: Got | ExtendOptions;
+  private readonly options: HttpAdapterOptions;
+  private gotInstance?: Promise<Got>;
+
+  /**
+   * @constructor
+   * @param {Got | ExtendOptions} [config] - Either a pre-configured Got
+   * instance or the options used to extend the default instance. The
+   * default instance is only loaded and extended on the first request.
+   * @param {HttpAdapterOptions} [options] - Adapter options, such as the default timeout.
+   */
+  constructor(config: Got | ExtendOptions = {}, options: HttpAdapterOptions = {}) {
+    this.config = config;
+    this.options = options;
+  }
+
+  /**
+   * Returns the pre-configured Got instance, or extends the default one.
+   * @returns {Promise<Got>} The Got instance used for requests.
+   */
+  private getGot(): Promise<Got> {
+    if (!this.gotInstance) {
+      const config = this.config;
+      this.gotInstance = typeof config === 'function' && typeof (config as Got).extend === 'function'
+        ? Promise.resolve(config as Got)
+        : loadGot().then(({ default: got }) => got.extend(config as ExtendOptions));
+    }
+    return this.gotInstance;
+  }
+
+  /**
+   * Executes an HTTP request using the configured Got instance.
+   * It translates the generic `AdapterHttpRequest` into Got options,
+   * sends the request, and then normalizes the Got response or error back
+   * into the framework's generic format (`AdapterHttpResponse` or `AdapterHttpError`).
+   * @template T The expected type of the response data.
+   * @param {HttpAdapterRequest} request The generic request object, optionally
+   * carrying a `timeout` override and an `AbortSignal`.
+   * @returns {Promise<AdapterHttpResponse<T>>} A promise that resolves with the normalized response.
+   * @throws {HttpAdapterError} Throws a normalized error if the request fails.
+   */
+  async request<T>(
+    request: HttpAdapterRequest
+  ): Promise<AdapterHttpResponse<T>> {
+    const gotInstance = await this.getGot();
+    const timeout = request.timeout ?? this.options.timeout;
+    try {
+      const response = (await gotInstance(request.url, {
+        method: request.method as OptionsInit['method'],
+        headers: sanitizeRequestHeaders(request.headers),
+        searchParams: buildSearchParams(request.queryParams),
+        responseType: 'text',
+        ...(timeout !== undefined ? { timeout: { request: timeout } } : {}),
+        ...(request.signal ? { signal: request.signal } : {}),
+        ...buildBodyOptions(request.body),
+      })) as Response<string>;
+
+      return {
+        statusCode: response.statusCode,
+        data: parseBody(response) as T,
+        headers: normalizeHeaders(response.headers),
+      };
+    } catch (error) {
+      if (isGotError(error)) {
+        const response = error.response as Response<string> | undefined;
+        const normalizedError: HttpAdapterError = {
+          name: 'AdapterHttpError',
+          message: error.message,
+          stack: error.stack,
+          isAdapterError: true,
+          code: error.code,
+          isTimeout: error.name === 'TimeoutError' || error.code === 'ETIMEDOUT',
+          isAborted: error.code === 'ERR_ABORTED',
+          request: request,
+          response: response
+            ? {
+                statusCode: response.statusCode,
+                data: parseBody(response),
+                headers: normalizeHeaders(response.headers),
+              }
+            : undefined,
+        };
+        throw normalizedError;
+      }
+
+      throw error;
+    }
+  }
+}
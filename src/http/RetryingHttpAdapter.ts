@@ -0,0 +1,240 @@
+/**
+ * @file src/http/RetryingHttpAdapter.ts
+ * @description A decorator for any IHttpClientAdapter that retries failed
+ * requests with exponential backoff and jitter. Every attempt goes through the
+ * wrapped adapter with its attempt number on the request, so retries show up
+ * in SyntropyLog instead of being hidden inside application code.
+ */
+
+import {
+  AdapterHttpResponse,
+  IHttpClientAdapter,
+} from '@syntropylog/types';
+import { HttpAdapterError, HttpAdapterRequest } from './types';
+
+/** Methods that are safe to send more than once (RFC 9110, section 9.2.2). */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'TRACE', 'PUT', 'DELETE'];
+
+/** Status codes that usually indicate a transient failure. */
+const RETRYABLE_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
+
+/**
+ * Information about a retry that is about to happen.
+ */
+export interface HttpRetryEvent {
+  /** The request being retried. */
+  request: HttpAdapterRequest;
+  /** The error of the attempt that just failed. */
+  error: HttpAdapterError;
+  /** The attempt that just failed (1-based). */
+  attempt: number;
+  /** How long the adapter waits before the next attempt, in milliseconds. */
+  delayMs: number;
+}
+
+/**
+ * Configuration of the retry policy.
+ */
+export interface HttpRetryOptions {
+  /** How many times a request is retried after the first attempt. Defaults to 3. */
+  maxRetries?: number;
+  /** Delay before the first retry, in milliseconds. Defaults to 100. */
+  baseDelayMs?: number;
+  /** Upper bound for any single delay, including `Retry-After`. Defaults to 30000. */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each attempt. Defaults to 2. */
+  factor?: number;
+  /**
+   * Randomizes each delay between 0 and the computed backoff ("full jitter")
+   * so that clients failing together do not retry together. Defaults to true.
+   */
+  jitter?: boolean;
+  /** Response status codes that are retried. */
+  retryOnStatus?: number[];
+  /** Retry requests that failed without a response. Defaults to true. */
+  retryOnNetworkError?: boolean;
+  /** Retry requests that timed out. Defaults to true. */
+  retryOnTimeout?: boolean;
+  /**
+   * HTTP methods that may be retried. Defaults to the idempotent methods, so
+   * POST and PATCH are never retried unless they are listed here.
+   */
+  methods?: string[];
+  /** Wait for the delay given by a `Retry-After` response header. Defaults to true. */
+  respectRetryAfter?: boolean;
+  /**
+   * When set, the attempt number is also sent to the server in this header.
+   */
+  attemptHeader?: string;
+  /**
+   * Final say on whether an error is retried, called after the method check.
+   * Returning `undefined` falls back to the built-in rules.
+   */
+  shouldRetry?: (error: HttpAdapterError, attempt: number) => boolean | undefined;
+  /** Called before waiting for the next attempt. */
+  onRetry?: (event: HttpRetryEvent) => void;
+}
+
+/**
+ * Reads the `Retry-After` header of an error response.
+ * @param {HttpAdapterError} error - The normalized error.
+ * @returns {number | undefined} The requested delay in milliseconds, if any.
+ */
+function getRetryAfterMs(error: HttpAdapterError): number | undefined {
+  const headers = error.response?.headers ?? {};
+  const key = Object.keys(headers).find(name => name.toLowerCase() === 'retry-after');
+  if (!key) {
+    return undefined;
+  }
+
+  const raw = headers[key];
+  const value = String(Array.isArray(raw) ? raw[0] : raw).trim();
+  // Either a number of seconds or an HTTP date.
+  if (/^\d+$/.test(value)) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Waits for the given delay, returning early if the signal is aborted.
+ * @param {number} ms - The delay in milliseconds.
+ * @param {AbortSignal} [signal] - The caller's abort signal.
+ * @returns {Promise<boolean>} Resolves with `false` when aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * @class RetryingHttpAdapter
+ * @description Wraps another `IHttpClientAdapter` and retries requests that
+ * fail with a retryable status code, a network error or a timeout. Aborted
+ * requests are never retried.
+ * @implements {IHttpClientAdapter}
+ */
+export class RetryingHttpAdapter implements IHttpClientAdapter {
+  private readonly adapter: IHttpClientAdapter;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly factor: number;
+  private readonly jitter: boolean;
+  private readonly retryOnStatus: number[];
+  private readonly retryOnNetworkError: boolean;
+  private readonly retryOnTimeout: boolean;
+  private readonly methods: string[];
+  private readonly respectRetryAfter: boolean;
+  private readonly options: HttpRetryOptions;
+
+  /**
+   * @constructor
+   * @param {IHttpClientAdapter} adapter - The adapter that sends each attempt.
+   * @param {HttpRetryOptions} [options] - The retry policy.
+   */
+  constructor(adapter: IHttpClientAdapter, options: HttpRetryOptions = {}) {
+    this.adapter = adapter;
+    this.options = options;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 100;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.factor = options.factor ?? 2;
+    this.jitter = options.jitter ?? true;
+    this.retryOnStatus = options.retryOnStatus ?? RETRYABLE_STATUS_CODES;
+    this.retryOnNetworkError = options.retryOnNetworkError ?? true;
+    this.retryOnTimeout = options.retryOnTimeout ?? true;
+    this.methods = (options.methods ?? IDEMPOTENT_METHODS).map(method => method.toUpperCase());
+    this.respectRetryAfter = options.respectRetryAfter ?? true;
+  }
+
+  /**
+   * Sends the request through the wrapped adapter, retrying it according to
+   * the policy. The error of the last attempt is rethrown once retries run out.
+   * @template T The expected type of the response data.
+   * @param {HttpAdapterRequest} request The generic request object.
+   * @returns {Promise<AdapterHttpResponse<T>>} A promise that resolves with the normalized response.
+   * @throws {HttpAdapterError} The error of the last attempt.
+   */
+  async request<T>(request: HttpAdapterRequest): Promise<AdapterHttpResponse<T>> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.adapter.request<T>(this.withAttempt(request, attempt));
+      } catch (error) {
+        const adapterError = error as HttpAdapterError;
+        if (attempt > this.maxRetries || !this.isRetryable(request, adapterError, attempt)) {
+          throw error;
+        }
+
+        const delayMs = this.getDelay(adapterError, attempt);
+        this.options.onRetry?.({ request, error: adapterError, attempt, delayMs });
+        if (!(await sleep(delayMs, request.signal))) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private withAttempt(request: HttpAdapterRequest, attempt: number): HttpAdapterRequest {
+    const { attemptHeader } = this.options;
+    return {
+      ...request,
+      attempt,
+      headers: attemptHeader
+        ? { ...request.headers, [attemptHeader]: String(attempt) }
+        : request.headers,
+    };
+  }
+
+  private isRetryable(request: HttpAdapterRequest, error: HttpAdapterError, attempt: number): boolean {
+    // Errors that did not come from an adapter are programming errors.
+    if (!error?.isAdapterError || error.isAborted || request.signal?.aborted) {
+      return false;
+    }
+    if (!this.methods.includes(request.method.toUpperCase())) {
+      return false;
+    }
+
+    const decision = this.options.shouldRetry?.(error, attempt);
+    if (decision !== undefined) {
+      return decision;
+    }
+
+    if (error.isTimeout) {
+      return this.retryOnTimeout;
+    }
+    if (!error.response) {
+      return this.retryOnNetworkError;
+    }
+    return this.retryOnStatus.includes(error.response.statusCode);
+  }
+
+  private getDelay(error: HttpAdapterError, attempt: number): number {
+    if (this.respectRetryAfter) {
+      const retryAfter = getRetryAfterMs(error);
+      if (retryAfter !== undefined) {
+        return Math.min(retryAfter, this.maxDelayMs);
+      }
+    }
+
+    const backoff = Math.min(this.baseDelayMs * this.factor ** (attempt - 1), this.maxDelayMs);
+    return this.jitter ? Math.floor(Math.random() * backoff) : backoff;
+  }
+}
@@ -4,4 +4,12 @@
  */
 
 export { AxiosAdapter } from './AxiosAdapter';
-export { FetchAdapter } from './FetchAdapter'; 
\ No newline at end of file
+export { FetchAdapter } from './FetchAdapter';
+export { GotAdapter } from './GotAdapter';
+export type { HttpAdapterOptions, HttpAdapterRequest, HttpAdapterError } from './types';
+export { RetryingHttpAdapter } from './RetryingHttpAdapter';
+export type { HttpRetryOptions, HttpRetryEvent } from './RetryingHttpAdapter';
+export { CircuitBreakerHttpAdapter } from './CircuitBreakerHttpAdapter';
+export type { HttpCircuitBreakerOptions } from './CircuitBreakerHttpAdapter';
+export { CircuitBreaker, CircuitOpenError } from '../utils/CircuitBreaker';
+export type { CircuitBreakerOptions, CircuitState, CircuitStateChangeEvent } from '../utils/CircuitBreaker';
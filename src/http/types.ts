@@ -0,0 +1,41 @@
+/**
+ * @file src/http/types.ts
+ * @description Extensions to the generic HTTP adapter contracts that are
+ * shared by the adapters in this package.
+ */
+
+import type { AdapterHttpRequest, AdapterHttpError } from '@syntropylog/types';
+
+/**
+ * Options accepted by every HTTP adapter in addition to its client-specific configuration.
+ */
+export interface HttpAdapterOptions {
+  /** Default timeout for every request, in milliseconds. No timeout when omitted. */
+  timeout?: number;
+}
+
+/**
+ * A generic request with optional per-request controls.
+ */
+export interface HttpAdapterRequest extends AdapterHttpRequest {
+  /** Overrides the adapter's default timeout for this request, in milliseconds. */
+  timeout?: number;
+  /** Cancels the request when aborted. */
+  signal?: AbortSignal;
+  /**
+   * 1-based attempt number, set by `RetryingHttpAdapter` on every attempt it
+   * sends so that retries can be told apart in the logs.
+   */
+  attempt?: number;
+}
+
+/**
+ * The normalized error thrown by the adapters. `isTimeout` and `isAborted`
+ * let SyntropyLog tell timeouts and cancellations apart from network and HTTP errors.
+ */
+export interface HttpAdapterError extends AdapterHttpError {
+  /** The underlying client's error code, e.g. `ECONNREFUSED`. */
+  code?: string;
+  isTimeout?: boolean;
+  isAborted?: boolean;
+}
@@ -0,0 +1,58 @@
+/**
+ * @file src/http/utils.ts
+ * @description Request helpers shared by the HTTP adapters.
+ */
+
+/**
+ * Headers that must never be forwarded to the underlying client; they are
+ * computed by the client itself and forwarding them breaks the request.
+ */
+const EXCLUDED_HEADERS = ['host', 'connection', 'content-length'];
+
+/**
+ * Keeps only valid, string-based headers.
+ * The `request.headers` object from the instrumenter contains the full context,
+ * which might include non-string values or keys that are not valid HTTP headers.
+ * @param {Record<string, unknown> | undefined} headers - The generic request headers.
+ * @returns {Record<string, string>} The headers that are safe to pass to an HTTP client.
+ */
+export function sanitizeRequestHeaders(
+  headers: Record<string, unknown> | undefined
+): Record<string, string> {
+  const sanitizedHeaders: Record<string, string> = {};
+  for (const key in headers) {
+    if (
+      Object.prototype.hasOwnProperty.call(headers, key) &&
+      typeof headers[key] === 'string' &&
+      !EXCLUDED_HEADERS.includes(key.toLowerCase())
+    ) {
+      sanitizedHeaders[key] = headers[key] as string;
+    }
+  }
+  return sanitizedHeaders;
+}
+
+/**
+ * Builds search params from the generic query params. Arrays become
+ * repeated keys and `null`/`undefined` values are dropped.
+ * @param {Record<string, any> | undefined} queryParams - The generic query params.
+ * @returns {URLSearchParams | undefined} The search params, or undefined if there are none.
+ */
+export function buildSearchParams(
+  queryParams: Record<string, any> | undefined
+): URLSearchParams | undefined {
+  if (!queryParams) {
+    return undefined;
+  }
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(queryParams)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      searchParams.append(key, String(item));
+    }
+  }
+  return searchParams;
+}
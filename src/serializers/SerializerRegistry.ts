@@ -0,0 +1,93 @@
+import { ISerializer, SerializationContext, SerializationResult } from '../types';
+import { GenericSerializer } from './generic/GenericSerializer';
+
+export interface SerializerRegistryOptions {
+  /**
+   * Serializador usado cuando ninguno de los registrados reconoce el dato.
+   * Por defecto GenericSerializer; `null` desactiva el fallback.
+   */
+  fallback?: ISerializer | null;
+}
+
+/**
+ * Registro tipado de serializadores con despacho por prioridad.
+ * Para cada dato elige el serializador de mayor `priority` cuyo `canSerialize`
+ * lo acepte; a igual prioridad gana el registrado primero. Un `typeHint` en el
+ * contexto fuerza un serializador concreto siempre que éste reconozca el dato.
+ */
+export class SerializerRegistry {
+  private serializers: ISerializer[] = [];
+  private readonly fallback: ISerializer | null;
+
+  constructor(options: SerializerRegistryOptions = {}) {
+    this.fallback = options.fallback === undefined ? new GenericSerializer() : options.fallback;
+  }
+
+  register(serializer: ISerializer): void {
+    // Un nombre repetido reemplaza al serializador anterior
+    this.serializers = this.serializers.filter(existing => existing.name !== serializer.name);
+
+    const index = this.serializers.findIndex(existing => existing.priority < serializer.priority);
+    if (index === -1) {
+      this.serializers.push(serializer);
+    } else {
+      this.serializers.splice(index, 0, serializer);
+    }
+  }
+
+  unregister(name: string): boolean {
+    const before = this.serializers.length;
+    this.serializers = this.serializers.filter(serializer => serializer.name !== name);
+    return this.serializers.length !== before;
+  }
+
+  get(name: string): ISerializer | undefined {
+    return this.serializers.find(serializer => serializer.name === name);
+  }
+
+  /**
+   * Devuelve los serializadores registrados ordenados por prioridad descendente.
+   */
+  getSerializers(): ISerializer[] {
+    return [...this.serializers];
+  }
+
+  findSerializer(data: any, typeHint?: string): ISerializer | undefined {
+    if (typeHint) {
+      const hinted = this.get(typeHint);
+      if (hinted && hinted.canSerialize(data)) {
+        return hinted;
+      }
+    }
+
+    const match = this.serializers.find(serializer => serializer.canSerialize(data));
+    if (match) {
+      return match;
+    }
+
+    if (this.fallback && this.fallback.canSerialize(data)) {
+      return this.fallback;
+    }
+
+    return undefined;
+  }
+
+  async serialize(data: any, context: SerializationContext = {}): Promise<SerializationResult> {
+    const serializer = this.findSerializer(data, context.typeHint);
+
+    if (!serializer) {
+      return {
+        success: false,
+        error: 'Ningún serializador registrado reconoce el dato',
+        metadata: {
+          serializer: 'none',
+          complexity: 'low',
+          duration: 0,
+          timestamp: new Date().toISOString()
+        }
+      };
+    }
+
+    return serializer.serialize(data, context);
+  }
+}
@@ -0,0 +1,115 @@
+import { ISerializer, SerializationContext, SerializationResult } from '../../types';
+import { DataSanitizer } from '../../utils/DataSanitizer';
+
+/**
+ * Serializador de último recurso: acepta cualquier dato y lo convierte en una
+ * estructura segura para logs (errores, fechas, buffers y referencias circulares).
+ * Lo usa SerializerRegistry cuando ningún serializador específico reconoce el dato.
+ */
+export class GenericSerializer implements ISerializer {
+  name = 'generic';
+  priority = 0;
+  private readonly sanitizer = new DataSanitizer();
+
+  canSerialize(data: any): boolean {
+    return data !== undefined;
+  }
+
+  getComplexity(data: any): 'low' | 'medium' | 'high' {
+    if (typeof data !== 'object' || data === null) {
+      return 'low';
+    }
+    const keys = Object.keys(data).length;
+    if (keys > 50) return 'high';
+    if (keys > 10) return 'medium';
+    return 'low';
+  }
+
+  async serialize(data: any, context: SerializationContext): Promise<SerializationResult> {
+    const startTime = Date.now();
+    let timedOut = false;
+
+    try {
+      let result = this.serializeValue(data, new WeakSet());
+
+      result = this.sanitizer.sanitizeSerialized(result, context);
+
+      const duration = Date.now() - startTime;
+
+      // ✅ Verificar que la serialización respeta el timeout del contexto
+      const timeout = context.timeout || 50;
+      if (duration > timeout) {
+        timedOut = true;
+        throw new Error(`Serialización lenta: ${duration}ms (máximo ${timeout}ms)`);
+      }
+
+      return {
+        success: true,
+        data: result,
+        metadata: {
+          serializer: this.name,
+          complexity: this.getComplexity(data),
+          duration,
+          timestamp: new Date().toISOString()
+        }
+      };
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Error desconocido en serialización genérica',
+        metadata: {
+          serializer: this.name,
+          complexity: this.getComplexity(data),
+          duration,
+          timestamp: new Date().toISOString(),
+          timedOut
+        }
+      };
+    }
+  }
+
+  private serializeValue(value: any, seen: WeakSet<object>): any {
+    if (typeof value === 'bigint') return value.toString();
+    if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+    if (typeof value === 'symbol') return value.toString();
+    if (typeof value !== 'object' || value === null) return value;
+
+    if (value instanceof Date) return value.toISOString();
+    if (Buffer.isBuffer(value)) return `[Buffer ${value.length} bytes]`;
+
+    if (seen.has(value)) return '[Circular]';
+
+    // Solo los ancestros cuentan como circulares; las referencias compartidas se serializan
+    seen.add(value);
+    const result = this.serializeObject(value, seen);
+    seen.delete(value);
+    return result;
+  }
+
+  private serializeObject(value: object, seen: WeakSet<object>): any {
+    if (value instanceof Error) {
+      const serialized: any = {
+        type: 'Error',
+        name: value.name,
+        message: value.message,
+        stack: value.stack
+      };
+      for (const [key, nested] of Object.entries(value)) {
+        serialized[key] = this.serializeValue(nested, seen);
+      }
+      return serialized;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.serializeValue(item, seen));
+    }
+
+    const result: any = {};
+    for (const [key, nested] of Object.entries(value)) {
+      result[key] = this.serializeValue(nested, seen);
+    }
+    return result;
+  }
+}
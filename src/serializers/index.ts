@@ -6,6 +6,9 @@ import { PostgreSQLSerializer } from './postgres/PostgreSQLSerializer';
 import { SQLServerSerializer } from './sqlserver/SQLServerSerializer';
 import { OracleSerializer } from './oracle/OracleSerializer';
 import { MongoDBSerializer } from './mongodb/MongoDBSerializer';
+import { SerializerRegistry, SerializerRegistryOptions } from './SerializerRegistry';
+import { DefaultSerializationPipeline, SerializationPipelineOptions } from './pipeline/SerializationPipeline';
+import type { ISerializer } from '../types';
 
 // Exportar todos los serializadores de bases de datos
 export { PrismaSerializer } from './prisma/PrismaSerializer';
@@ -15,31 +18,69 @@ export { PostgreSQLSerializer } from './postgres/PostgreSQLSerializer';
 export { SQLServerSerializer } from './sqlserver/SQLServerSerializer';
 export { OracleSerializer } from './oracle/OracleSerializer';
 export { MongoDBSerializer } from './mongodb/MongoDBSerializer';
+export { GenericSerializer } from './generic/GenericSerializer';
+
+// Exportar el registro de serializadores
+export { SerializerRegistry } from './SerializerRegistry';
+export type { SerializerRegistryOptions } from './SerializerRegistry';
+
+// Exportar el pipeline de serialización y sus pasos incorporados
+export { DefaultSerializationPipeline } from './pipeline/SerializationPipeline';
+export type { SerializationPipelineOptions } from './pipeline/SerializationPipeline';
+export {
+  DetectSerializerStep,
+  SerializeStep,
+  SanitizeStep,
+  TruncateStep,
+  EnrichMetadataStep
+} from './pipeline/steps';
+
+// Exportar el colector de métricas de serialización
+export { SerializationMetricsCollector } from './metrics/SerializationMetricsCollector';
+export type { SerializationMetricsOptions, SerializerLike } from './metrics/SerializationMetricsCollector';
 
 // Exportar tipos comunes
-export type { ISerializer, SerializationContext, SerializationResult } from '../types';
+export type {
+  ISerializer,
+  SerializationContext,
+  SerializationResult,
+  SerializationStep,
+  SerializationPipeline,
+  SerializationPipelineState,
+  SerializationStepTiming,
+  TimeoutStrategy,
+  SerializationMetrics,
+  SerializationMetricsSnapshot,
+  SerializerMetricsSnapshot,
+  LatencyHistogram
+} from '../types';
+
+// Cualquier objeto capaz de registrar serializadores (p. ej. SerializerRegistry)
+export interface SerializerManager {
+  register(serializer: ISerializer): void;
+}
 
 // Función helper para registrar todos los serializadores
-export function registerAllSerializers(manager: any): void {
-  const serializers = [
-    new PrismaSerializer(),
-    new TypeORMSerializer(),
-    new MySQLSerializer(),
-    new PostgreSQLSerializer(),
-    new SQLServerSerializer(),
-    new OracleSerializer(),
-    new MongoDBSerializer()
-  ];
+export function registerAllSerializers(manager: SerializerManager): void {
+  getAllSerializers().forEach(serializer => manager.register(serializer));
+}
+
+// Función helper para crear un registro con todos los serializadores
+export function createSerializerRegistry(options?: SerializerRegistryOptions): SerializerRegistry {
+  const registry = new SerializerRegistry(options);
+  registerAllSerializers(registry);
+  return registry;
+}
 
-  serializers.forEach(serializer => {
-    if (manager.register) {
-      manager.register(serializer);
-    }
-  });
+// Función helper para crear un pipeline con todos los serializadores registrados
+export function createSerializationPipeline(
+  options: Omit<SerializationPipelineOptions, 'registry'> = {}
+): DefaultSerializationPipeline {
+  return new DefaultSerializationPipeline({ ...options, registry: createSerializerRegistry() });
 }
 
 // Función helper para obtener todos los serializadores
-export function getAllSerializers() {
+export function getAllSerializers(): ISerializer[] {
   return [
     new PrismaSerializer(),
     new TypeORMSerializer(),
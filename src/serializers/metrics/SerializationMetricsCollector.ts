@@ -0,0 +1,173 @@
+import {
+  LatencyHistogram,
+  SerializationContext,
+  SerializationMetricsSnapshot,
+  SerializationResult
+} from '../../types';
+
+// Límites (ms) de los buckets del histograma; el último bucket es +Infinity
+const DEFAULT_BUCKETS = [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000];
+
+// Cualquier cosa que serialice: un ISerializer, un SerializerRegistry, etc.
+export interface SerializerLike {
+  serialize(data: any, context: SerializationContext): Promise<SerializationResult>;
+}
+
+export interface SerializationMetricsOptions {
+  // Cantidad de muestras recientes que se conservan para calcular percentiles
+  maxSamples?: number;
+  buckets?: number[];
+}
+
+class LatencyRecorder {
+  private samples: number[] = [];
+  private next = 0;
+  private bucketCounts: number[];
+  private max = 0;
+
+  constructor(private readonly maxSamples: number, private readonly bounds: number[]) {
+    this.bucketCounts = new Array(bounds.length + 1).fill(0);
+  }
+
+  record(duration: number): void {
+    // Buffer circular: al llenarse se reemplazan las muestras más viejas
+    if (this.samples.length < this.maxSamples) {
+      this.samples.push(duration);
+    } else {
+      this.samples[this.next] = duration;
+    }
+    this.next = (this.next + 1) % this.maxSamples;
+
+    const index = this.bounds.findIndex(bound => duration <= bound);
+    this.bucketCounts[index === -1 ? this.bounds.length : index]++;
+    this.max = Math.max(this.max, duration);
+  }
+
+  snapshot(): LatencyHistogram {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const percentile = (p: number) =>
+      sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+
+    let cumulative = 0;
+    const buckets = [...this.bounds, Number.POSITIVE_INFINITY].map((le, i) => {
+      cumulative += this.bucketCounts[i];
+      return { le, count: cumulative };
+    });
+
+    return {
+      p50: percentile(50),
+      p95: percentile(95),
+      p99: percentile(99),
+      max: this.max,
+      buckets
+    };
+  }
+}
+
+interface SerializerAccumulator {
+  count: number;
+  failures: number;
+  totalDuration: number;
+  latency: LatencyRecorder;
+}
+
+/**
+ * Recolecta SerializationMetrics de cualquier serializador o registro.
+ * `wrap()` devuelve el mismo objeto instrumentado; `record()` permite alimentar
+ * resultados obtenidos por otra vía (p. ej. desde un pipeline).
+ */
+export class SerializationMetricsCollector {
+  private readonly maxSamples: number;
+  private readonly buckets: number[];
+  private total!: SerializerAccumulator;
+  private timedOut = 0;
+  private perSerializer!: Map<string, SerializerAccumulator>;
+
+  constructor(options: SerializationMetricsOptions = {}) {
+    this.maxSamples = options.maxSamples ?? 1000;
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+    this.reset();
+  }
+
+  wrap<T extends SerializerLike>(target: T): T {
+    const collector = this;
+    return new Proxy(target, {
+      get(object, property, receiver) {
+        if (property !== 'serialize') {
+          const value = Reflect.get(object, property, receiver);
+          return typeof value === 'function' ? value.bind(object) : value;
+        }
+        return async (data: any, context: SerializationContext) => {
+          const start = performance.now();
+          const result = await object.serialize(data, context);
+          collector.record(result, performance.now() - start);
+          return result;
+        };
+      }
+    });
+  }
+
+  /**
+   * Registra un resultado. Si no se pasa `duration` se usa la del metadata.
+   */
+  record(result: SerializationResult, duration: number = result.metadata.duration): void {
+    const name = result.metadata.serializer;
+    let accumulator = this.perSerializer.get(name);
+    if (!accumulator) {
+      accumulator = this.createAccumulator();
+      this.perSerializer.set(name, accumulator);
+    }
+
+    for (const target of [this.total, accumulator]) {
+      target.count++;
+      target.totalDuration += duration;
+      target.latency.record(duration);
+      if (!result.success) {
+        target.failures++;
+      }
+    }
+
+    if (!result.success && result.metadata.timedOut) {
+      this.timedOut++;
+    }
+  }
+
+  snapshot(): SerializationMetricsSnapshot {
+    const serializerStats: SerializationMetricsSnapshot['serializerStats'] = {};
+    for (const [name, accumulator] of this.perSerializer) {
+      serializerStats[name] = {
+        count: accumulator.count,
+        failures: accumulator.failures,
+        totalDuration: accumulator.totalDuration,
+        averageDuration: accumulator.count ? accumulator.totalDuration / accumulator.count : 0,
+        latency: accumulator.latency.snapshot()
+      };
+    }
+
+    return {
+      totalSerializations: this.total.count,
+      successfulSerializations: this.total.count - this.total.failures,
+      failedSerializations: this.total.failures,
+      timedOutSerializations: this.timedOut,
+      totalDuration: this.total.totalDuration,
+      averageDuration: this.total.count ? this.total.totalDuration / this.total.count : 0,
+      latency: this.total.latency.snapshot(),
+      serializerStats
+    };
+  }
+
+  reset(): void {
+    this.total = this.createAccumulator();
+    this.perSerializer = new Map();
+    this.timedOut = 0;
+  }
+
+  private createAccumulator(): SerializerAccumulator {
+    return {
+      count: 0,
+      failures: 0,
+      totalDuration: 0,
+      latency: new LatencyRecorder(this.maxSamples, this.buckets)
+    };
+  }
+}
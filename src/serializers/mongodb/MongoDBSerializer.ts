@@ -1,4 +1,5 @@
 import { ISerializer, SerializationContext, SerializationResult } from '../../types';
+import { DataSanitizer } from '../../utils/DataSanitizer';
 
 export interface MongoDBQueryData {
   collection?: string;
@@ -40,6 +41,7 @@ export interface MongoDBErrorData {
 export class MongoDBSerializer implements ISerializer {
   name = 'mongodb';
   priority = 70;
+  private readonly sanitizer = new DataSanitizer();
 
   canSerialize(data: any): boolean {
     return (
@@ -66,6 +68,7 @@ export class MongoDBSerializer implements ISerializer {
 
   async serialize(data: any, context: SerializationContext): Promise<SerializationResult> {
     const startTime = Date.now();
+    let timedOut = false;
     
     try {
       let result: any;
@@ -80,11 +83,14 @@ export class MongoDBSerializer implements ISerializer {
         throw new Error('Tipo de dato MongoDB no reconocido');
       }
 
+      result = this.sanitizer.sanitizeSerialized(result, context);
+
       const duration = Date.now() - startTime;
       
       // ✅ Verificar que la serialización respeta el timeout del contexto
       const timeout = context.timeout || 50;
       if (duration > timeout) {
+        timedOut = true;
         throw new Error(`Serialización lenta: ${duration}ms (máximo ${timeout}ms)`);
       }
       
@@ -108,7 +114,8 @@ export class MongoDBSerializer implements ISerializer {
           serializer: this.name,
           complexity: this.getComplexity(data),
           duration,
-          timestamp: new Date().toISOString()
+          timestamp: new Date().toISOString(),
+          timedOut
         }
       };
     }
@@ -195,7 +202,7 @@ export class MongoDBSerializer implements ISerializer {
       type: 'MongoDBQuery',
       collection: data.collection,
       operation: data.operation,
-      filter: data.filter, // Datos originales, sin sanitizar
+      filter: data.filter, // Datos originales, se sanitizan en serialize()
       projection: data.projection,
       sort: data.sort,
       update: data.update,
@@ -212,7 +219,7 @@ export class MongoDBSerializer implements ISerializer {
     return {
       type: 'MongoDBAggregation',
       collection: data.collection,
-      pipeline: data.pipeline, // Datos originales, sin sanitizar
+      pipeline: data.pipeline, // Datos originales, se sanitizan en serialize()
       stages: data.stages,
       duration: data.duration,
       documentsReturned: data.documentsReturned,
@@ -228,7 +235,7 @@ export class MongoDBSerializer implements ISerializer {
       message: data.message,
       operation: data.operation,
       collection: data.collection,
-      filter: data.filter, // Datos originales, sin sanitizar
+      filter: data.filter, // Datos originales, se sanitizan en serialize()
       pipeline: data.pipeline,
       writeErrors: data.writeErrors,
       writeConcernErrors: data.writeConcernErrors
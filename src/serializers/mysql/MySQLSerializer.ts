@@ -1,4 +1,5 @@
 import { ISerializer, SerializationContext, SerializationResult } from '../../types';
+import { DataSanitizer } from '../../utils/DataSanitizer';
 
 export interface MySQLQuery {
   sql: string;
@@ -26,6 +27,7 @@ export interface MySQLError {
 export class MySQLSerializer implements ISerializer {
   name = 'mysql';
   priority = 85;
+  private readonly sanitizer = new DataSanitizer();
 
   canSerialize(data: any): boolean {
     return (
@@ -56,6 +58,7 @@ export class MySQLSerializer implements ISerializer {
 
   async serialize(data: any, context: SerializationContext): Promise<SerializationResult> {
     const startTime = Date.now();
+    let timedOut = false;
     
     try {
       let result: any;
@@ -72,11 +75,14 @@ export class MySQLSerializer implements ISerializer {
         throw new Error('Tipo de dato MySQL no reconocido');
       }
 
+      result = this.sanitizer.sanitizeSerialized(result, context, ['sql'], ['values']);
+
       const duration = Date.now() - startTime;
       
       // ✅ Verificar que la serialización respeta el timeout del contexto
       const timeout = context.timeout || 50;
       if (duration > timeout) {
+        timedOut = true;
         throw new Error(`Serialización lenta: ${duration}ms (máximo ${timeout}ms)`);
       }
       
@@ -100,7 +106,8 @@ export class MySQLSerializer implements ISerializer {
           serializer: this.name,
           complexity: this.getComplexity(data),
           duration,
-          timestamp: new Date().toISOString()
+          timestamp: new Date().toISOString(),
+          timedOut
         }
       };
     }
@@ -191,15 +198,15 @@ export class MySQLSerializer implements ISerializer {
   private serializeQuery(query: MySQLQuery): any {
     return {
       type: 'MySQLQuery',
-      sql: query.sql, // SQL original, sin sanitizar
-      values: query.values, // Valores originales, sin sanitizar
+      sql: query.sql, // SQL original, se sanitiza en serialize()
+      values: query.values, // Valores originales, se sanitizan en serialize()
       timeout: query.timeout,
       connectionConfig: query.connectionConfig ? {
         host: query.connectionConfig.host,
         port: query.connectionConfig.port,
         database: query.connectionConfig.database,
         user: query.connectionConfig.user,
-        password: query.connectionConfig.password // Contraseña original, sin sanitizar
+        password: query.connectionConfig.password // Contraseña original, se sanitiza en serialize()
       } : undefined,
       complexity: this.assessQueryComplexity(query)
     };
@@ -213,7 +220,7 @@ export class MySQLSerializer implements ISerializer {
       sqlMessage: error.sqlMessage,
       sqlState: error.sqlState,
       index: error.index,
-      sql: error.sql, // SQL original, sin sanitizar
+      sql: error.sql, // SQL original, se sanitiza en serialize()
       fatal: error.fatal
     };
   }
@@ -228,7 +235,7 @@ export class MySQLSerializer implements ISerializer {
         port: connection.config.port,
         database: connection.config.database,
         user: connection.config.user,
-        password: connection.config.password // Contraseña original, sin sanitizar
+        password: connection.config.password // Contraseña original, se sanitiza en serialize()
       } : undefined,
       hasQuery: typeof connection.query === 'function',
       hasConnect: typeof connection.connect === 'function',
@@ -244,7 +251,7 @@ export class MySQLSerializer implements ISerializer {
         port: pool.config.port,
         database: pool.config.database,
         user: pool.config.user,
-        password: pool.config.password, // Contraseña original, sin sanitizar
+        password: pool.config.password, // Contraseña original, se sanitiza en serialize()
         connectionLimit: pool.config.connectionLimit,
         acquireTimeout: pool.config.acquireTimeout,
         timeout: pool.config.timeout
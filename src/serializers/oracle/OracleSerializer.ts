@@ -1,4 +1,5 @@
 import { ISerializer, SerializationContext, SerializationResult } from '../../types';
+import { DataSanitizer } from '../../utils/DataSanitizer';
 
 export interface OracleQuery {
   sql: string;
@@ -35,6 +36,7 @@ export interface OracleError {
 export class OracleSerializer implements ISerializer {
   name = 'oracle';
   priority = 100;
+  private readonly sanitizer = new DataSanitizer();
 
   canSerialize(data: any): boolean {
     return (
@@ -65,6 +67,7 @@ export class OracleSerializer implements ISerializer {
 
   async serialize(data: any, context: SerializationContext): Promise<SerializationResult> {
     const startTime = Date.now();
+    let timedOut = false;
     
     try {
       let result: any;
@@ -81,11 +84,14 @@ export class OracleSerializer implements ISerializer {
         throw new Error('Tipo de dato Oracle no reconocido');
       }
 
+      result = this.sanitizer.sanitizeSerialized(result, context, ['sql'], ['bindParams']);
+
       const duration = Date.now() - startTime;
       
       // ✅ Verificar que la serialización respeta el timeout del contexto
       const timeout = context.timeout || 50;
       if (duration > timeout) {
+        timedOut = true;
         throw new Error(`Serialización lenta: ${duration}ms (máximo ${timeout}ms)`);
       }
       
@@ -109,7 +115,8 @@ export class OracleSerializer implements ISerializer {
           serializer: this.name,
           complexity: this.getComplexity(data),
           duration,
-          timestamp: new Date().toISOString()
+          timestamp: new Date().toISOString(),
+          timedOut
         }
       };
     }
@@ -226,16 +233,16 @@ export class OracleSerializer implements ISerializer {
   private serializeQuery(query: OracleQuery): any {
     return {
       type: 'OracleQuery',
-      sql: query.sql, // SQL original, sin sanitizar
-      bindParams: query.bindParams, // Parámetros originales, sin sanitizar
+      sql: query.sql, // SQL original, se sanitiza en serialize()
+      bindParams: query.bindParams, // Parámetros originales, se sanitizan en serialize()
       options: query.options,
       config: query.config ? {
         host: query.config.host,
         port: query.config.port,
         serviceName: query.config.serviceName,
         user: query.config.user,
-        password: query.config.password, // Contraseña original, sin sanitizar
-        connectString: query.config.connectString // String de conexión original, sin sanitizar
+        password: query.config.password, // Contraseña original, se sanitiza en serialize()
+        connectString: query.config.connectString // String de conexión original, se sanitiza en serialize()
       } : undefined,
       complexity: this.assessQueryComplexity(query)
     };
@@ -247,7 +254,7 @@ export class OracleSerializer implements ISerializer {
       code: error.code,
       message: error.message,
       offset: error.offset,
-      sql: error.sql, // SQL original, sin sanitizar
+      sql: error.sql, // SQL original, se sanitiza en serialize()
       cause: error.cause
     };
   }
@@ -262,8 +269,8 @@ export class OracleSerializer implements ISerializer {
         port: connection.config.port,
         serviceName: connection.config.serviceName,
         user: connection.config.user,
-        password: connection.config.password, // Contraseña original, sin sanitizar
-        connectString: connection.config.connectString // String de conexión original, sin sanitizar
+        password: connection.config.password, // Contraseña original, se sanitiza en serialize()
+        connectString: connection.config.connectString // String de conexión original, se sanitiza en serialize()
       } : undefined,
       hasExecute: typeof connection.execute === 'function',
       hasCommit: typeof connection.commit === 'function',
@@ -283,8 +290,8 @@ export class OracleSerializer implements ISerializer {
         port: pool.config.port,
         serviceName: pool.config.serviceName,
         user: pool.config.user,
-        password: pool.config.password, // Contraseña original, sin sanitizar
-        connectString: pool.config.connectString // String de conexión original, sin sanitizar
+        password: pool.config.password, // Contraseña original, se sanitiza en serialize()
+        connectString: pool.config.connectString // String de conexión original, se sanitiza en serialize()
       } : undefined,
       hasGetConnection: typeof pool.getConnection === 'function',
       hasExecute: typeof pool.execute === 'function',
@@ -0,0 +1,130 @@
+import {
+  SerializationContext,
+  SerializationPipeline,
+  SerializationPipelineState,
+  SerializationResult,
+  SerializationStep,
+  SerializationStepTiming,
+  TimeoutStrategy
+} from '../../types';
+import { SerializerRegistry } from '../SerializerRegistry';
+import {
+  DetectSerializerStep,
+  EnrichMetadataStep,
+  SanitizeStep,
+  SerializeStep,
+  TruncateStep
+} from './steps';
+
+export interface SerializationPipelineOptions {
+  // Registro usado por el paso "detect"; por defecto uno vacío con GenericSerializer como fallback
+  registry?: SerializerRegistry;
+  // Pasos iniciales; si se omiten se usan los pasos incorporados
+  steps?: SerializationStep[];
+  // Calcula `context.timeout` cuando el contexto no lo trae
+  timeoutStrategy?: TimeoutStrategy;
+  // Presupuesto en bytes del paso "truncate" cuando el contexto no trae `maxSize`
+  maxSize?: number;
+}
+
+/**
+ * Implementación de SerializationPipeline: ejecuta los pasos en orden sobre un
+ * SerializationPipelineState y produce un único SerializationResult con el
+ * tiempo de cada paso. Pasos incorporados: detect → serialize → sanitize →
+ * truncate → enrich.
+ */
+export class DefaultSerializationPipeline implements SerializationPipeline {
+  steps: SerializationStep[];
+  private readonly timeoutStrategy?: TimeoutStrategy;
+
+  constructor(options: SerializationPipelineOptions = {}) {
+    this.timeoutStrategy = options.timeoutStrategy;
+    this.steps = options.steps
+      ? [...options.steps]
+      : [
+          new DetectSerializerStep(options.registry ?? new SerializerRegistry()),
+          new SerializeStep(),
+          new SanitizeStep(),
+          new TruncateStep(options.maxSize),
+          new EnrichMetadataStep()
+        ];
+  }
+
+  addStep(step: SerializationStep): void {
+    this.steps.push(step);
+  }
+
+  insertBefore(stepName: string, step: SerializationStep): void {
+    this.steps.splice(this.indexOf(stepName), 0, step);
+  }
+
+  insertAfter(stepName: string, step: SerializationStep): void {
+    this.steps.splice(this.indexOf(stepName) + 1, 0, step);
+  }
+
+  removeStep(stepName: string): boolean {
+    const before = this.steps.length;
+    this.steps = this.steps.filter(step => step.name !== stepName);
+    return this.steps.length !== before;
+  }
+
+  async execute(data: any, context: SerializationContext): Promise<SerializationResult> {
+    const startTime = Date.now();
+    const timings: SerializationStepTiming[] = [];
+
+    const effectiveContext: SerializationContext =
+      context.timeout === undefined && this.timeoutStrategy
+        ? { ...context, timeout: this.timeoutStrategy.calculateTimeout(data, context) }
+        : context;
+
+    let state: SerializationPipelineState = { input: data, data, metadata: {} };
+
+    try {
+      for (const step of this.steps) {
+        const stepStart = Date.now();
+        try {
+          state = (await step.execute(state, effectiveContext)) ?? state;
+        } finally {
+          timings.push({ name: step.name, duration: Date.now() - stepStart });
+        }
+      }
+
+      return this.buildResult(state, timings, startTime, { success: true, data: state.data });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error desconocido en el pipeline de serialización';
+      const failedStep = timings[timings.length - 1]?.name;
+
+      return this.buildResult(state, timings, startTime, {
+        success: false,
+        error: failedStep ? `[${failedStep}] ${message}` : message
+      });
+    }
+  }
+
+  private buildResult(
+    state: SerializationPipelineState,
+    timings: SerializationStepTiming[],
+    startTime: number,
+    outcome: Pick<SerializationResult, 'success' | 'data' | 'error'>
+  ): SerializationResult {
+    return {
+      ...outcome,
+      metadata: {
+        ...state.metadata,
+        serializer: state.serializer?.name ?? 'none',
+        complexity: state.complexity ?? 'low',
+        duration: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+        steps: timings
+      }
+    };
+  }
+
+  private indexOf(stepName: string): number {
+    const index = this.steps.findIndex(step => step.name === stepName);
+    if (index === -1) {
+      throw new Error(`Paso de serialización no encontrado: ${stepName}`);
+    }
+    return index;
+  }
+}
@@ -0,0 +1,160 @@
+import { SerializationContext, SerializationPipelineState, SerializationStep } from '../../types';
+import { DataSanitizer } from '../../utils/DataSanitizer';
+import { SerializerRegistry } from '../SerializerRegistry';
+
+// Límites que se aplican de forma progresiva hasta que el resultado entra en el presupuesto
+const TRUNCATION_LEVELS = [
+  { maxString: 1024, maxItems: 100 },
+  { maxString: 256, maxItems: 20 },
+  { maxString: 64, maxItems: 5 }
+];
+
+function byteSize(data: any): number {
+  const json = JSON.stringify(data);
+  return json === undefined ? 0 : Buffer.byteLength(json);
+}
+
+/**
+ * Busca el prefijo más largo de `json` tal que `{ preview }` serializado no supere
+ * `maxSize` bytes. Corta por code points para no partir caracteres multi-byte.
+ */
+function previewWithin(json: string, maxSize: number): string {
+  const chars = Array.from(json);
+  let low = 0;
+  let high = chars.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (byteSize({ preview: chars.slice(0, mid).join('') }) <= maxSize) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return chars.slice(0, low).join('');
+}
+
+function truncateValue(value: any, maxString: number, maxItems: number): any {
+  if (typeof value === 'string') {
+    return value.length > maxString ? `${value.slice(0, maxString)}…[+${value.length - maxString}]` : value;
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, maxItems).map(item => truncateValue(item, maxString, maxItems));
+    if (value.length > maxItems) {
+      items.push(`[+${value.length - maxItems} elementos]`);
+    }
+    return items;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: any = {};
+    for (const [key, nested] of Object.entries(value)) {
+      result[key] = truncateValue(nested, maxString, maxItems);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Elige el serializador del registro que corresponde al dato de entrada.
+ */
+export class DetectSerializerStep implements SerializationStep {
+  name = 'detect';
+
+  constructor(private readonly registry: SerializerRegistry) {}
+
+  async execute(state: SerializationPipelineState, context: SerializationContext): Promise<SerializationPipelineState> {
+    const serializer = this.registry.findSerializer(state.input, context.typeHint);
+    if (!serializer) {
+      throw new Error('Ningún serializador registrado reconoce el dato');
+    }
+
+    state.serializer = serializer;
+    state.complexity = serializer.getComplexity(state.input);
+    return state;
+  }
+}
+
+/**
+ * Ejecuta el serializador detectado y deja su salida en `state.data`.
+ */
+export class SerializeStep implements SerializationStep {
+  name = 'serialize';
+
+  async execute(state: SerializationPipelineState, context: SerializationContext): Promise<SerializationPipelineState> {
+    if (!state.serializer) {
+      throw new Error('No hay serializador detectado: el paso "detect" debe ejecutarse antes');
+    }
+
+    const result = await state.serializer.serialize(state.input, context);
+    if (!result.success) {
+      state.metadata.timedOut = result.metadata.timedOut;
+      throw new Error(result.error || `Error en serializador ${state.serializer.name}`);
+    }
+
+    state.data = result.data;
+    state.complexity = result.metadata.complexity;
+    return state;
+  }
+}
+
+/**
+ * Aplica `sanitize`, `sensitiveFields` y `maxDepth` al resultado. Los serializadores
+ * ya sanitizan su propia salida; este paso cubre lo que agreguen pasos personalizados.
+ */
+export class SanitizeStep implements SerializationStep {
+  name = 'sanitize';
+  private readonly sanitizer = new DataSanitizer();
+
+  async execute(state: SerializationPipelineState, context: SerializationContext): Promise<SerializationPipelineState> {
+    state.data = this.sanitizer.sanitizeSerialized(state.data, context);
+    state.metadata.sanitized = Boolean(context.sanitize);
+    return state;
+  }
+}
+
+/**
+ * Recorta el resultado hasta que su JSON entre en `context.maxSize` bytes
+ * (o en el presupuesto por defecto del paso).
+ */
+export class TruncateStep implements SerializationStep {
+  name = 'truncate';
+
+  constructor(private readonly defaultMaxSize?: number) {}
+
+  async execute(state: SerializationPipelineState, context: SerializationContext): Promise<SerializationPipelineState> {
+    const maxSize = context.maxSize ?? this.defaultMaxSize;
+    state.metadata.truncated = false;
+
+    if (maxSize === undefined || byteSize(state.data) <= maxSize) {
+      return state;
+    }
+
+    state.metadata.truncated = true;
+    for (const { maxString, maxItems } of TRUNCATION_LEVELS) {
+      const truncated = truncateValue(state.data, maxString, maxItems);
+      if (byteSize(truncated) <= maxSize) {
+        state.data = truncated;
+        return state;
+      }
+    }
+
+    // Último recurso: el prefijo más largo del JSON que, re-escapado, respeta el presupuesto
+    state.data = { preview: previewWithin(JSON.stringify(state.data), maxSize) };
+    return state;
+  }
+}
+
+/**
+ * Agrega al metadata el tipo del dato de entrada y el tamaño final del resultado.
+ */
+export class EnrichMetadataStep implements SerializationStep {
+  name = 'enrich';
+
+  async execute(state: SerializationPipelineState): Promise<SerializationPipelineState> {
+    const { input } = state;
+    state.metadata.dataType =
+      input === null ? 'null' : typeof input === 'object' ? input.constructor?.name || 'Object' : typeof input;
+    state.metadata.size = byteSize(state.data);
+    return state;
+  }
+}
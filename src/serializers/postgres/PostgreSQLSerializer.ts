@@ -1,4 +1,5 @@
 import { ISerializer, SerializationContext, SerializationResult } from '../../types';
+import { DataSanitizer } from '../../utils/DataSanitizer';
 
 export interface PostgreSQLQuery {
   text: string;
@@ -37,6 +38,7 @@ export interface PostgreSQLError {
 export class PostgreSQLSerializer implements ISerializer {
   name = 'postgresql';
   priority = 90;
+  private readonly sanitizer = new DataSanitizer();
 
   canSerialize(data: any): boolean {
     return (
@@ -67,6 +69,7 @@ export class PostgreSQLSerializer implements ISerializer {
 
   async serialize(data: any, context: SerializationContext): Promise<SerializationResult> {
     const startTime = Date.now();
+    let timedOut = false;
     
     try {
       let result: any;
@@ -83,11 +86,14 @@ export class PostgreSQLSerializer implements ISerializer {
         throw new Error('Tipo de dato PostgreSQL no reconocido');
       }
 
+      result = this.sanitizer.sanitizeSerialized(result, context, ['text', 'internalQuery', 'where'], ['values']);
+
       const duration = Date.now() - startTime;
       
       // ✅ Verificar que la serialización respeta el timeout del contexto
       const timeout = context.timeout || 50;
       if (duration > timeout) {
+        timedOut = true;
         throw new Error(`Serialización lenta: ${duration}ms (máximo ${timeout}ms)`);
       }
       
@@ -111,7 +117,8 @@ export class PostgreSQLSerializer implements ISerializer {
           serializer: this.name,
           complexity: this.getComplexity(data),
           duration,
-          timestamp: new Date().toISOString()
+          timestamp: new Date().toISOString(),
+          timedOut
         }
       };
     }
@@ -214,8 +221,8 @@ export class PostgreSQLSerializer implements ISerializer {
   private serializeQuery(query: PostgreSQLQuery): any {
     return {
       type: 'PostgreSQLQuery',
-      text: query.text, // SQL original, sin sanitizar
-      values: query.values, // Valores originales, sin sanitizar
+      text: query.text, // SQL original, se sanitiza en serialize()
+      values: query.values, // Valores originales, se sanitizan en serialize()
       name: query.name,
       rowMode: query.rowMode,
       types: query.types,
@@ -224,7 +231,7 @@ export class PostgreSQLSerializer implements ISerializer {
         port: query.config.port,
         database: query.config.database,
         user: query.config.user,
-        password: query.config.password // Contraseña original, sin sanitizar
+        password: query.config.password // Contraseña original, se sanitiza en serialize()
       } : undefined,
       complexity: this.assessQueryComplexity(query)
     };
@@ -239,8 +246,8 @@ export class PostgreSQLSerializer implements ISerializer {
       hint: error.hint,
       position: error.position,
       internalPosition: error.internalPosition,
-      internalQuery: error.internalQuery, // SQL original, sin sanitizar
-      where: error.where, // SQL original, sin sanitizar
+      internalQuery: error.internalQuery, // SQL original, se sanitiza en serialize()
+      where: error.where, // SQL original, se sanitiza en serialize()
       schema: error.schema,
       table: error.table,
       column: error.column,
@@ -262,7 +269,7 @@ export class PostgreSQLSerializer implements ISerializer {
         port: client.connectionParameters.port,
         database: client.connectionParameters.database,
         user: client.connectionParameters.user,
-        password: client.connectionParameters.password // Contraseña original, sin sanitizar
+        password: client.connectionParameters.password // Contraseña original, se sanitiza en serialize()
       } : undefined,
       hasQuery: typeof client.query === 'function',
       hasConnect: typeof client.connect === 'function',
@@ -281,7 +288,7 @@ export class PostgreSQLSerializer implements ISerializer {
         port: pool.options.port,
         database: pool.options.database,
         user: pool.options.user,
-        password: pool.options.password, // Contraseña original, sin sanitizar
+        password: pool.options.password, // Contraseña original, se sanitiza en serialize()
         max: pool.options.max,
         idleTimeoutMillis: pool.options.idleTimeoutMillis,
         connectionTimeoutMillis: pool.options.connectionTimeoutMillis
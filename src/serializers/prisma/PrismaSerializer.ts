@@ -1,4 +1,5 @@
 import { ISerializer, SerializationContext, SerializationResult } from '../../types';
+import { DataSanitizer } from '../../utils/DataSanitizer';
 
 export interface PrismaQuery {
   model: string;
@@ -19,6 +20,7 @@ export interface PrismaError {
 export class PrismaSerializer implements ISerializer {
   name = 'prisma';
   priority = 75;
+  private readonly sanitizer = new DataSanitizer();
 
   canSerialize(data: any): boolean {
     return (
@@ -45,6 +47,7 @@ export class PrismaSerializer implements ISerializer {
 
   async serialize(data: any, context: SerializationContext): Promise<SerializationResult> {
     const startTime = Date.now();
+    let timedOut = false;
     
     try {
       let result: any;
@@ -59,11 +62,14 @@ export class PrismaSerializer implements ISerializer {
         throw new Error('Tipo de dato Prisma no reconocido');
       }
 
+      result = this.sanitizer.sanitizeSerialized(result, context);
+
       const duration = Date.now() - startTime;
       
       // ✅ Verificar que la serialización respeta el timeout del contexto
       const timeout = context.timeout || 50;
       if (duration > timeout) {
+        timedOut = true;
         throw new Error(`Serialización lenta: ${duration}ms (máximo ${timeout}ms)`);
       }
       
@@ -87,7 +93,8 @@ export class PrismaSerializer implements ISerializer {
           serializer: this.name,
           complexity: this.getComplexity(data),
           duration,
-          timestamp: new Date().toISOString()
+          timestamp: new Date().toISOString(),
+          timedOut
         }
       };
     }
@@ -162,7 +169,7 @@ export class PrismaSerializer implements ISerializer {
       type: 'PrismaQuery',
       model: query.model,
       action: query.action,
-      args: query.args, // Datos originales, sin sanitizar
+      args: query.args, // Datos originales, se sanitizan en serialize()
       duration: query.duration,
       timestamp: query.timestamp,
       complexity: this.assessQueryComplexity(query)
@@ -174,7 +181,7 @@ export class PrismaSerializer implements ISerializer {
       type: 'PrismaError',
       code: error.code,
       message: error.message,
-      meta: error.meta, // Datos originales, sin sanitizar
+      meta: error.meta, // Datos originales, se sanitizan en serialize()
       clientVersion: error.clientVersion,
       stack: error.stack
     };
@@ -1,4 +1,5 @@
 import { ISerializer, SerializationContext, SerializationResult } from '../../types';
+import { DataSanitizer } from '../../utils/DataSanitizer';
 
 export interface SQLServerQuery {
   query: string;
@@ -36,6 +37,7 @@ export interface SQLServerError {
 export class SQLServerSerializer implements ISerializer {
   name = 'sqlserver';
   priority = 95;
+  private readonly sanitizer = new DataSanitizer();
 
   canSerialize(data: any): boolean {
     return (
@@ -66,6 +68,7 @@ export class SQLServerSerializer implements ISerializer {
 
   async serialize(data: any, context: SerializationContext): Promise<SerializationResult> {
     const startTime = Date.now();
+    let timedOut = false;
     
     try {
       let result: any;
@@ -82,11 +85,14 @@ export class SQLServerSerializer implements ISerializer {
         throw new Error('Tipo de dato SQL Server no reconocido');
       }
 
+      result = this.sanitizer.sanitizeSerialized(result, context, ['query', 'sql'], ['parameters']);
+
       const duration = Date.now() - startTime;
       
       // ✅ Verificar que la serialización respeta el timeout del contexto
       const timeout = context.timeout || 50;
       if (duration > timeout) {
+        timedOut = true;
         throw new Error(`Serialización lenta: ${duration}ms (máximo ${timeout}ms)`);
       }
       
@@ -110,7 +116,8 @@ export class SQLServerSerializer implements ISerializer {
           serializer: this.name,
           complexity: this.getComplexity(data),
           duration,
-          timestamp: new Date().toISOString()
+          timestamp: new Date().toISOString(),
+          timedOut
         }
       };
     }
@@ -222,14 +229,14 @@ export class SQLServerSerializer implements ISerializer {
   private serializeQuery(query: SQLServerQuery): any {
     return {
       type: 'SQLServerQuery',
-      query: query.query, // SQL original, sin sanitizar
-      parameters: query.parameters, // Parámetros originales, sin sanitizar
+      query: query.query, // SQL original, se sanitiza en serialize()
+      parameters: query.parameters, // Parámetros originales, se sanitizan en serialize()
       options: query.options,
       config: query.config ? {
         server: query.config.server,
         database: query.config.database,
         user: query.config.user,
-        password: query.config.password, // Contraseña original, sin sanitizar
+        password: query.config.password, // Contraseña original, se sanitiza en serialize()
         port: query.config.port
       } : undefined,
       complexity: this.assessQueryComplexity(query)
@@ -247,7 +254,7 @@ export class SQLServerSerializer implements ISerializer {
       serverName: error.serverName,
       procName: error.procName,
       message: error.message,
-      sql: error.sql // SQL original, sin sanitizar
+      sql: error.sql // SQL original, se sanitiza en serialize()
     };
   }
 
@@ -258,7 +265,7 @@ export class SQLServerSerializer implements ISerializer {
         server: connection.config.server,
         database: connection.config.database,
         user: connection.config.user,
-        password: connection.config.password, // Contraseña original, sin sanitizar
+        password: connection.config.password, // Contraseña original, se sanitiza en serialize()
         port: connection.config.port,
         options: connection.config.options
       } : undefined,
@@ -275,7 +282,7 @@ export class SQLServerSerializer implements ISerializer {
         server: pool.config.server,
         database: pool.config.database,
         user: pool.config.user,
-        password: pool.config.password, // Contraseña original, sin sanitizar
+        password: pool.config.password, // Contraseña original, se sanitiza en serialize()
         port: pool.config.port,
         pool: {
           max: pool.config.pool?.max,
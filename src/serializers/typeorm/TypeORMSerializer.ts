@@ -1,4 +1,5 @@
 import { ISerializer, SerializationContext, SerializationResult } from '../../types';
+import { DataSanitizer } from '../../utils/DataSanitizer';
 
 export interface TypeORMQuery {
   sql: string;
@@ -34,6 +35,7 @@ export interface TypeORMError {
 export class TypeORMSerializer implements ISerializer {
   name = 'typeorm';
   priority = 80;
+  private readonly sanitizer = new DataSanitizer();
 
   canSerialize(data: any): boolean {
     return (
@@ -68,6 +70,7 @@ export class TypeORMSerializer implements ISerializer {
 
   async serialize(data: any, context: SerializationContext): Promise<SerializationResult> {
     const startTime = Date.now();
+    let timedOut = false;
     
     try {
       let result: any;
@@ -86,11 +89,14 @@ export class TypeORMSerializer implements ISerializer {
         throw new Error('Tipo de dato TypeORM no reconocido');
       }
 
+      result = this.sanitizer.sanitizeSerialized(result, context, ['sql', 'query', 'internalQuery', 'where'], ['parameters']);
+
       const duration = Date.now() - startTime;
       
       // ✅ Verificar que la serialización respeta el timeout del contexto
       const timeout = context.timeout || 50;
       if (duration > timeout) {
+        timedOut = true;
         throw new Error(`Serialización lenta: ${duration}ms (máximo ${timeout}ms)`);
       }
       
@@ -114,7 +120,8 @@ export class TypeORMSerializer implements ISerializer {
           serializer: this.name,
           complexity: this.getComplexity(data),
           duration,
-          timestamp: new Date().toISOString()
+          timestamp: new Date().toISOString(),
+          timedOut
         }
       };
     }
@@ -207,12 +214,12 @@ export class TypeORMSerializer implements ISerializer {
     return {
       type: 'TypeORMQuery',
       queryType: query.queryType || 'UNKNOWN',
-      sql: query.sql, // SQL original, sin sanitizar
-      parameters: query.parameters, // Parámetros originales, sin sanitizar
+      sql: query.sql, // SQL original, se sanitiza en serialize()
+      parameters: query.parameters, // Parámetros originales, se sanitizan en serialize()
       table: query.table,
       alias: query.alias,
-      joins: query.joins, // Datos originales, sin sanitizar
-      where: query.where, // Datos originales, sin sanitizar
+      joins: query.joins, // Datos originales, se sanitizan en serialize()
+      where: query.where, // Datos originales, se sanitizan en serialize()
       orderBy: query.orderBy,
       limit: query.limit,
       offset: query.offset,
@@ -225,16 +232,16 @@ export class TypeORMSerializer implements ISerializer {
       type: 'TypeORMError',
       code: error.code,
       message: error.message,
-      query: error.query, // SQL original, sin sanitizar
-      parameters: error.parameters, // Parámetros originales, sin sanitizar
+      query: error.query, // SQL original, se sanitiza en serialize()
+      parameters: error.parameters, // Parámetros originales, se sanitizan en serialize()
       table: error.table,
       constraint: error.constraint,
       detail: error.detail,
       hint: error.hint,
       position: error.position,
       internalPosition: error.internalPosition,
-      internalQuery: error.internalQuery, // SQL original, sin sanitizar
-      where: error.where, // SQL original, sin sanitizar
+      internalQuery: error.internalQuery, // SQL original, se sanitiza en serialize()
+      where: error.where, // SQL original, se sanitiza en serialize()
       schema: error.schema,
       column: error.column,
       dataType: error.dataType
@@ -249,10 +256,10 @@ export class TypeORMSerializer implements ISerializer {
       fields: {}
     };
 
-    // Serializar campos del entity (datos originales, sin sanitizar)
+    // Serializar campos del entity (datos originales, se sanitizan en serialize())
     for (const [key, value] of Object.entries(entity)) {
       if (key !== 'constructor' && typeof value !== 'function') {
-        serialized.fields[key] = value; // Valor original, sin sanitizar
+        serialized.fields[key] = value; // Valor original, se sanitiza en serialize()
       }
     }
 
@@ -283,7 +290,7 @@ export class TypeORMSerializer implements ISerializer {
         host: connection.options.host,
         port: connection.options.port,
         database: connection.options.database,
-        username: connection.options.username // Usuario original, sin sanitizar
+        username: connection.options.username // Usuario original, se sanitiza en serialize()
       } : undefined
     };
   }
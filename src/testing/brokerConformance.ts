@@ -0,0 +1,262 @@
+/**
+ * @file src/testing/brokerConformance.ts
+ * @description A vitest suite that checks an IBrokerAdapter implementation
+ * against the behaviour SyntropyLog relies on. Adapter authors call
+ * `describeBrokerAdapterConformance` from their own test files.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type {
+  IBrokerAdapter,
+  BrokerMessage,
+  MessageLifecycleControls,
+} from '@syntropylog/types';
+
+export interface BrokerConformanceOptions {
+  /** Prefix of the topics used by the suite; each test gets its own topic. Defaults to `conformance`. */
+  topicPrefix?: string;
+  /** How long to wait for a delivery, in milliseconds. Defaults to 5000. */
+  deliveryTimeoutMs?: number;
+  /**
+   * How long to wait before concluding that a message is not delivered, in
+   * milliseconds. Defaults to 200.
+   */
+  quietPeriodMs?: number;
+  /**
+   * How long to wait after subscribing before publishing, for brokers that
+   * set up consumers asynchronously. Defaults to 0.
+   */
+  subscribeSettleMs?: number;
+  /** Whether `nack(true)` redelivers the message. Defaults to true. */
+  supportsRequeue?: boolean;
+  /** Whether the adapter implements `unsubscribe`. Defaults to true. */
+  supportsUnsubscribe?: boolean;
+}
+
+interface ReceivedMessage {
+  message: BrokerMessage;
+  controls: MessageLifecycleControls;
+}
+
+/**
+ * Collects the messages delivered to a handler so that tests can await them.
+ */
+class Inbox {
+  private received: ReceivedMessage[] = [];
+  private waiters: ((received: ReceivedMessage) => void)[] = [];
+
+  readonly handler = async (message: BrokerMessage, controls: MessageLifecycleControls): Promise<void> => {
+    const received = { message, controls };
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter(received);
+    } else {
+      this.received.push(received);
+    }
+  };
+
+  next(timeoutMs: number): Promise<ReceivedMessage> {
+    const received = this.received.shift();
+    if (received) {
+      return Promise.resolve(received);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = (message: ReceivedMessage) => {
+        clearTimeout(timer);
+        resolve(message);
+      };
+      const timer = setTimeout(() => {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        reject(new Error(`No message was delivered within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  async expectNothing(quietPeriodMs: number): Promise<void> {
+    await sleep(quietPeriodMs);
+    expect(this.received).toHaveLength(0);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Reads a payload or header value the way SyntropyLog does: as bytes. */
+function toBuffer(value: unknown): Buffer {
+  if (Buffer.isBuffer(value)) {
+    return value;
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value);
+  }
+  return Buffer.from(String(value));
+}
+
+/**
+ * Registers the conformance cases for a broker adapter in the current
+ * vitest file. The factory is called before every case and must return a new,
+ * not yet connected adapter pointing at a broker that is reachable from the tests.
+ * @param {string} name - Name shown in the test report.
+ * @param {() => IBrokerAdapter | Promise<IBrokerAdapter>} createAdapter - The adapter factory.
+ * @param {BrokerConformanceOptions} [options] - Timing and capability settings.
+ */
+export function describeBrokerAdapterConformance(
+  name: string,
+  createAdapter: () => IBrokerAdapter | Promise<IBrokerAdapter>,
+  options: BrokerConformanceOptions = {}
+): void {
+  const topicPrefix = options.topicPrefix ?? 'conformance';
+  const deliveryTimeoutMs = options.deliveryTimeoutMs ?? 5000;
+  const quietPeriodMs = options.quietPeriodMs ?? 200;
+  const subscribeSettleMs = options.subscribeSettleMs ?? 0;
+  const supportsRequeue = options.supportsRequeue ?? true;
+  const supportsUnsubscribe = options.supportsUnsubscribe ?? true;
+  const testTimeoutMs = deliveryTimeoutMs * 3 + quietPeriodMs + subscribeSettleMs;
+  const runId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  let topicCount = 0;
+
+  describe(`${name} (IBrokerAdapter conformance)`, () => {
+    let adapter: IBrokerAdapter;
+    let topic: string;
+
+    const subscribe = async (inbox: Inbox) => {
+      await adapter.subscribe(topic, inbox.handler);
+      if (subscribeSettleMs > 0) {
+        await sleep(subscribeSettleMs);
+      }
+    };
+
+    beforeEach(async () => {
+      adapter = await createAdapter();
+      topic = `${topicPrefix}.${runId}.${++topicCount}`;
+    });
+
+    afterEach(async () => {
+      try {
+        await adapter.disconnect();
+      } catch {
+        // The case under test may already have disconnected the adapter.
+      }
+    });
+
+    describe('connection lifecycle', () => {
+      it('should reject publish before connect', async () => {
+        await expect(adapter.publish(topic, { payload: Buffer.from('x') })).rejects.toThrow();
+      });
+
+      it('should tolerate connecting twice', async () => {
+        await adapter.connect();
+        await expect(adapter.connect()).resolves.toBeUndefined();
+      });
+
+      it('should tolerate disconnecting twice', async () => {
+        await adapter.connect();
+        await adapter.disconnect();
+        await expect(adapter.disconnect()).resolves.toBeUndefined();
+      });
+
+      it('should reject publish after disconnect', async () => {
+        await adapter.connect();
+        await adapter.disconnect();
+        await expect(adapter.publish(topic, { payload: Buffer.from('x') })).rejects.toThrow();
+      });
+    });
+
+    describe('message round-trip', () => {
+      beforeEach(async () => {
+        await adapter.connect();
+      });
+
+      it('should deliver string and binary payloads unchanged', async () => {
+        const inbox = new Inbox();
+        await subscribe(inbox);
+        const binary = Buffer.from([0, 1, 2, 254, 255]);
+
+        await adapter.publish(topic, { payload: Buffer.from('hello, syntropy') });
+        await adapter.publish(topic, { payload: binary });
+
+        const first = await inbox.next(deliveryTimeoutMs);
+        await first.controls.ack();
+        const second = await inbox.next(deliveryTimeoutMs);
+        await second.controls.ack();
+
+        expect(toBuffer(first.message.payload).toString()).toBe('hello, syntropy');
+        expect(toBuffer(second.message.payload).equals(binary)).toBe(true);
+      }, testTimeoutMs);
+
+      it('should deliver string and Buffer header values', async () => {
+        const inbox = new Inbox();
+        await subscribe(inbox);
+
+        await adapter.publish(topic, {
+          payload: Buffer.from('with headers'),
+          headers: {
+            'x-correlation-id': 'corr-123',
+            'x-trace-id': Buffer.from('trace-456'),
+          },
+        });
+
+        const { message, controls } = await inbox.next(deliveryTimeoutMs);
+        await controls.ack();
+
+        expect(message.headers).toBeDefined();
+        expect(toBuffer(message.headers!['x-correlation-id']).toString()).toBe('corr-123');
+        expect(toBuffer(message.headers!['x-trace-id']).toString()).toBe('trace-456');
+      }, testTimeoutMs);
+    });
+
+    describe('message lifecycle', () => {
+      beforeEach(async () => {
+        await adapter.connect();
+      });
+
+      it('should not redeliver an acked message', async () => {
+        const inbox = new Inbox();
+        await subscribe(inbox);
+
+        await adapter.publish(topic, { payload: Buffer.from('ack me') });
+        const { controls } = await inbox.next(deliveryTimeoutMs);
+        await controls.ack();
+
+        await inbox.expectNothing(quietPeriodMs);
+      }, testTimeoutMs);
+
+      it('should not redeliver a message nacked without requeue', async () => {
+        const inbox = new Inbox();
+        await subscribe(inbox);
+
+        await adapter.publish(topic, { payload: Buffer.from('drop me') });
+        const { controls } = await inbox.next(deliveryTimeoutMs);
+        await controls.nack(false);
+
+        await inbox.expectNothing(quietPeriodMs);
+      }, testTimeoutMs);
+
+      it.skipIf(!supportsRequeue)('should redeliver a message nacked with requeue', async () => {
+        const inbox = new Inbox();
+        await subscribe(inbox);
+
+        await adapter.publish(topic, { payload: Buffer.from('retry me') });
+        const first = await inbox.next(deliveryTimeoutMs);
+        await first.controls.nack(true);
+        const second = await inbox.next(deliveryTimeoutMs);
+        await second.controls.ack();
+
+        expect(toBuffer(second.message.payload).toString()).toBe('retry me');
+      }, testTimeoutMs);
+
+      it.skipIf(!supportsUnsubscribe)('should stop delivering after unsubscribe', async () => {
+        const inbox = new Inbox();
+        await subscribe(inbox);
+
+        await adapter.unsubscribe!(topic);
+        await adapter.publish(topic, { payload: Buffer.from('nobody listens') });
+
+        await inbox.expectNothing(quietPeriodMs);
+      }, testTimeoutMs);
+    });
+  });
+}
@@ -0,0 +1,7 @@
+/**
+ * @file src/testing/index.ts
+ * @description Test helpers for adapter authors. Requires vitest.
+ */
+
+export { describeBrokerAdapterConformance } from './brokerConformance';
+export type { BrokerConformanceOptions } from './brokerConformance';
@@ -5,6 +5,10 @@ export interface SerializationContext {
   sensitiveFields?: string[];
   maxDepth?: number;
   timeout?: number;
+  // Nombre del serializador preferido cuando varios reconocen el mismo dato
+  typeHint?: string;
+  // Tamaño máximo en bytes del resultado serializado (JSON)
+  maxSize?: number;
 }
 
 export interface SerializationResult {
@@ -16,9 +20,22 @@ export interface SerializationResult {
     complexity: 'low' | 'medium' | 'high';
     duration: number;
     timestamp: string;
+    // true si falló por superar el timeout del contexto
+    timedOut?: boolean;
+    // Campos que completa el pipeline de serialización
+    steps?: SerializationStepTiming[];
+    size?: number;
+    truncated?: boolean;
+    sanitized?: boolean;
+    dataType?: string;
   };
 }
 
+export interface SerializationStepTiming {
+  name: string;
+  duration: number;
+}
+
 export interface ISerializer {
   name: string;
   priority: number;
@@ -29,6 +46,17 @@ export interface ISerializer {
 }
 
 // Tipos para el pipeline de serialización
+
+// Estado que recorre los pasos del pipeline: cada paso recibe el estado como `data`
+// y devuelve el estado (modificado o nuevo) para el siguiente paso
+export interface SerializationPipelineState {
+  input: any;
+  data: any;
+  serializer?: ISerializer;
+  complexity?: 'low' | 'medium' | 'high';
+  metadata: Partial<SerializationResult['metadata']>;
+}
+
 export interface SerializationStep {
   name: string;
   execute(data: any, context: SerializationContext): Promise<any>;
@@ -58,4 +86,28 @@ export interface SerializationMetrics {
     averageDuration: number;
     totalDuration: number;
   }>;
-} 
\ No newline at end of file
+}
+
+// Resumen de latencias en milisegundos; `buckets` es acumulativo (estilo Prometheus)
+export interface LatencyHistogram {
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+  buckets: Array<{ le: number; count: number }>;
+}
+
+export interface SerializerMetricsSnapshot {
+  count: number;
+  failures: number;
+  averageDuration: number;
+  totalDuration: number;
+  latency: LatencyHistogram;
+}
+
+export interface SerializationMetricsSnapshot extends SerializationMetrics {
+  // Fallos causados por superar el timeout del contexto (`metadata.timedOut`)
+  timedOutSerializations: number;
+  latency: LatencyHistogram;
+  serializerStats: Record<string, SerializerMetricsSnapshot>;
+}
@@ -0,0 +1,234 @@
+/**
+ * @file src/utils/CircuitBreaker.ts
+ * @description A keyed circuit breaker shared by the HTTP and broker
+ * decorators. Each key (a host, a topic) gets its own circuit, so one
+ * degraded dependency does not block calls to the healthy ones.
+ */
+
+import { EventEmitter } from 'events';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Failure rate (0-1) over the rolling window that opens the circuit. Defaults to 0.5. */
+  failureRateThreshold?: number;
+  /** Calls needed in the window before the failure rate is evaluated. Defaults to 10. */
+  minimumCalls?: number;
+  /** Length of the rolling window, in milliseconds. Defaults to 60000. */
+  windowMs?: number;
+  /** Number of buckets the window is split into. Defaults to 10. */
+  windowBuckets?: number;
+  /** How long an open circuit rejects calls before letting a trial through. Defaults to 30000. */
+  cooldownMs?: number;
+  /** Trial calls allowed while half-open; all must succeed to close the circuit. Defaults to 1. */
+  halfOpenMaxCalls?: number;
+  /** Decides whether an error counts against the circuit. Defaults to every error. */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * Payload of the `stateChange` event, which is also emitted under the name
+ * of the new state (`open`, `half-open` or `closed`).
+ */
+export interface CircuitStateChangeEvent {
+  key: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Failure rate of the window when the circuit opened from `closed`. */
+  failureRate?: number;
+}
+
+/**
+ * Thrown instead of calling the protected operation while a circuit is open.
+ */
+export class CircuitOpenError extends Error {
+  readonly key: string;
+  /** Milliseconds until the circuit lets a trial call through. */
+  readonly retryAfterMs: number;
+
+  constructor(key: string, retryAfterMs: number) {
+    super(`Circuit for "${key}" is open`);
+    this.name = 'CircuitOpenError';
+    this.key = key;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+interface WindowBucket {
+  start: number;
+  calls: number;
+  failures: number;
+}
+
+interface Circuit {
+  state: CircuitState;
+  buckets: WindowBucket[];
+  openedAt: number;
+  /** Incremented on every transition, to recognize calls admitted in an earlier state. */
+  generation: number;
+  halfOpenCalls: number;
+  halfOpenSuccesses: number;
+}
+
+export class CircuitBreaker extends EventEmitter {
+  private readonly failureRateThreshold: number;
+  private readonly minimumCalls: number;
+  private readonly windowMs: number;
+  private readonly bucketMs: number;
+  private readonly cooldownMs: number;
+  private readonly halfOpenMaxCalls: number;
+  private readonly isFailure: (error: unknown) => boolean;
+  private circuits: Map<string, Circuit> = new Map();
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    super();
+    this.failureRateThreshold = options.failureRateThreshold ?? 0.5;
+    this.minimumCalls = options.minimumCalls ?? 10;
+    this.windowMs = options.windowMs ?? 60000;
+    this.bucketMs = this.windowMs / (options.windowBuckets ?? 10);
+    this.cooldownMs = options.cooldownMs ?? 30000;
+    this.halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1;
+    this.isFailure = options.isFailure ?? (() => true);
+  }
+
+  /**
+   * Runs the operation through the circuit of the given key.
+   * @throws {CircuitOpenError} When the circuit is open, without calling the operation.
+   */
+  async execute<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const circuit = this.getCircuit(key);
+    const generation = this.acquire(key, circuit);
+
+    let result: T;
+    try {
+      result = await operation();
+    } catch (error) {
+      this.onResult(key, circuit, generation, this.isFailure(error));
+      throw error;
+    }
+    this.onResult(key, circuit, generation, false);
+    return result;
+  }
+
+  getState(key: string): CircuitState {
+    const circuit = this.circuits.get(key);
+    if (!circuit) {
+      return 'closed';
+    }
+    // Report a cooled-down circuit as half-open even before the next call.
+    if (circuit.state === 'open' && Date.now() - circuit.openedAt >= this.cooldownMs) {
+      return 'half-open';
+    }
+    return circuit.state;
+  }
+
+  /**
+   * Closes the circuit of a key, or of every key, and forgets its history.
+   */
+  reset(key?: string): void {
+    const keys = key === undefined ? [...this.circuits.keys()] : [key];
+    for (const circuitKey of keys) {
+      const circuit = this.circuits.get(circuitKey);
+      if (circuit) {
+        this.transition(circuitKey, circuit, 'closed');
+        this.circuits.delete(circuitKey);
+      }
+    }
+  }
+
+  private getCircuit(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', buckets: [], openedAt: 0, generation: 0, halfOpenCalls: 0, halfOpenSuccesses: 0 };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  /** Admits a call or throws, returning the generation the call was admitted in. */
+  private acquire(key: string, circuit: Circuit): number {
+    if (circuit.state === 'open') {
+      const elapsed = Date.now() - circuit.openedAt;
+      if (elapsed < this.cooldownMs) {
+        throw new CircuitOpenError(key, this.cooldownMs - elapsed);
+      }
+      this.transition(key, circuit, 'half-open');
+    }
+
+    if (circuit.state === 'half-open') {
+      if (circuit.halfOpenCalls >= this.halfOpenMaxCalls) {
+        throw new CircuitOpenError(key, 0);
+      }
+      circuit.halfOpenCalls++;
+    }
+    return circuit.generation;
+  }
+
+  private onResult(key: string, circuit: Circuit, generation: number, failed: boolean): void {
+    // Calls that were in flight when the state changed say nothing about the new state.
+    if (circuit.generation !== generation) {
+      return;
+    }
+
+    if (circuit.state === 'half-open') {
+      if (failed) {
+        this.transition(key, circuit, 'open');
+      } else if (++circuit.halfOpenSuccesses >= this.halfOpenMaxCalls) {
+        this.transition(key, circuit, 'closed');
+      }
+      return;
+    }
+
+    const bucket = this.currentBucket(circuit);
+    bucket.calls++;
+    if (failed) {
+      bucket.failures++;
+    }
+
+    let calls = 0;
+    let failures = 0;
+    for (const { calls: bucketCalls, failures: bucketFailures } of circuit.buckets) {
+      calls += bucketCalls;
+      failures += bucketFailures;
+    }
+    const failureRate = failures / calls;
+    if (failed && calls >= this.minimumCalls && failureRate >= this.failureRateThreshold) {
+      this.transition(key, circuit, 'open', failureRate);
+    }
+  }
+
+  /** Returns the bucket for the current time, dropping buckets that left the window. */
+  private currentBucket(circuit: Circuit): WindowBucket {
+    const now = Date.now();
+    const start = now - (now % this.bucketMs);
+    circuit.buckets = circuit.buckets.filter(bucket => bucket.start > now - this.windowMs);
+
+    let bucket = circuit.buckets[circuit.buckets.length - 1];
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, calls: 0, failures: 0 };
+      circuit.buckets.push(bucket);
+    }
+    return bucket;
+  }
+
+  private transition(key: string, circuit: Circuit, to: CircuitState, failureRate?: number): void {
+    const from = circuit.state;
+    if (from === to) {
+      return;
+    }
+
+    circuit.state = to;
+    circuit.generation++;
+    circuit.halfOpenCalls = 0;
+    circuit.halfOpenSuccesses = 0;
+    if (to === 'open') {
+      circuit.openedAt = Date.now();
+    } else if (to === 'closed') {
+      circuit.buckets = [];
+    }
+
+    const event: CircuitStateChangeEvent = { key, from, to, failureRate };
+    this.emit('stateChange', event);
+    this.emit(to, event);
+  }
+}
@@ -1,3 +1,5 @@
+import { SerializationContext } from '../types';
+
 export interface SanitizationContext {
   sensitiveFields?: string[];
   redactPatterns?: RegExp[];
@@ -66,12 +68,7 @@ export class DataSanitizer {
     const result: any = {};
     
     for (const [key, value] of Object.entries(obj)) {
-      const lowerKey = key.toLowerCase();
-      const isSensitive = config.sensitiveFields.some(field => 
-        lowerKey.includes(field)
-      );
-      
-      if (isSensitive) {
+      if (this.isSensitiveName(key, config.sensitiveFields)) {
         result[key] = '[REDACTED]';
       } else if (typeof value === 'object' && value !== null) {
         result[key] = config.enableDeepSanitization 
@@ -134,6 +131,128 @@ export class DataSanitizer {
     return this.sanitizeString(sanitized, config);
   }
 
+  /**
+   * Aplica las opciones de un SerializationContext a un resultado ya serializado:
+   * redacta datos sensibles si `sanitize` está activo y corta el anidamiento en `maxDepth`.
+   * Los campos de primer nivel listados en `sqlFields` se tratan como SQL, y los de
+   * `bindFields` como los valores ligados al primero de esos SQL presente en el resultado.
+   */
+  sanitizeSerialized(data: any, context: SerializationContext, sqlFields: string[] = [], bindFields: string[] = []): any {
+    let result = data;
+
+    if (context.sanitize) {
+      const sanitizationContext: SanitizationContext = {
+        // Los campos del contexto se suman a los por defecto, nunca los reemplazan
+        sensitiveFields: [
+          ...this.defaultSensitiveFields,
+          ...(context.sensitiveFields || []).map(field => field.toLowerCase())
+        ],
+        // Sanitizar no debe truncar: el SQL y los valores largos se conservan
+        maxStringLength: Number.POSITIVE_INFINITY
+      };
+
+      result = this.sanitize(result, sanitizationContext);
+
+      if (typeof result === 'object' && result !== null) {
+        for (const field of sqlFields) {
+          if (typeof data[field] === 'string') {
+            result[field] = this.sanitizeSQL(data[field], sanitizationContext);
+          }
+        }
+
+        const sql = sqlFields.map(field => data[field]).find(value => typeof value === 'string');
+        for (const field of bindFields) {
+          if (Array.isArray(result[field])) {
+            result[field] = this.redactBindValues(sql, result[field], sanitizationContext.sensitiveFields!);
+          }
+        }
+      }
+    }
+
+    if (context.maxDepth !== undefined) {
+      result = this.limitDepth(result, context.maxDepth);
+    }
+
+    return result;
+  }
+
+  /**
+   * Redacta los valores ligados cuyo parámetro o columna es sensible. Los valores
+   * `{ name, value }` (Oracle, SQL Server) se juzgan por su nombre; los posicionales
+   * (`$1`, `:1`, `?`) por la columna con la que el SQL los compara o inserta.
+   */
+  redactBindValues(sql: string | undefined, values: any[], sensitiveFields: string[]): any[] {
+    const names = sql ? this.bindColumnNames(sql) : new Map<number, string>();
+
+    return values.map((value, index) => {
+      if (typeof value === 'object' && value !== null && typeof value.name === 'string' && 'value' in value) {
+        return this.isSensitiveName(value.name, sensitiveFields) ? { ...value, value: '[REDACTED]' } : value;
+      }
+      const name = names.get(index);
+      return name !== undefined && this.isSensitiveName(name, sensitiveFields) ? '[REDACTED]' : value;
+    });
+  }
+
+  /**
+   * Asocia cada posición de valor ligado con la columna que le corresponde en el SQL:
+   * `columna = $n` (y demás comparaciones) o la lista de columnas de un INSERT.
+   */
+  private bindColumnNames(sql: string): Map<number, string> {
+    // Normalizar los marcadores a \u0000<posición>\u0000; `?` se numera por orden de aparición
+    let next = 0;
+    const marked = sql.replace(/\$(\d+)|:(\d+)|\?/g, (_match, dollar, colon) => {
+      const position = dollar ?? colon;
+      const index = position !== undefined ? Number(position) - 1 : next++;
+      return `\u0000${index}\u0000`;
+    });
+
+    const names = new Map<number, string>();
+    const columnName = (column: string) => column.trim().split('.').pop()!.replace(/["`\[\]]/g, '');
+
+    const comparison = /([\w."`\[\]]+)\s*(?:=|<>|!=|<=|>=|<|>|\s(?:i?like|in)\s)\s*\(?\s*\u0000(\d+)\u0000/gi;
+    for (const [, column, index] of marked.matchAll(comparison)) {
+      names.set(Number(index), columnName(column));
+    }
+
+    const insert = /\(([^()]*)\)\s*values\s*\(([^()]*)\)/gi;
+    for (const [, columns, placeholders] of marked.matchAll(insert)) {
+      const columnList = columns.split(',');
+      placeholders.split(',').forEach((placeholder, position) => {
+        const marker = placeholder.match(/\u0000(\d+)\u0000/);
+        if (marker && columnList[position] !== undefined) {
+          names.set(Number(marker[1]), columnName(columnList[position]));
+        }
+      });
+    }
+
+    return names;
+  }
+
+  private isSensitiveName(name: string, sensitiveFields: string[]): boolean {
+    const lowerName = name.toLowerCase();
+    return sensitiveFields.some(field => lowerName.includes(field));
+  }
+
+  limitDepth(data: any, maxDepth: number, depth = 0): any {
+    if (typeof data !== 'object' || data === null || data instanceof Date || Buffer.isBuffer(data)) {
+      return data;
+    }
+
+    if (depth >= maxDepth) {
+      return '[MAX_DEPTH_REACHED]';
+    }
+
+    if (Array.isArray(data)) {
+      return data.map(item => this.limitDepth(item, maxDepth, depth + 1));
+    }
+
+    const result: any = {};
+    for (const [key, value] of Object.entries(data)) {
+      result[key] = this.limitDepth(value, maxDepth, depth + 1);
+    }
+    return result;
+  }
+
   private mergeConfig(context: SanitizationContext): Required<SanitizationContext> {
     return {
       sensitiveFields: context.sensitiveFields || this.defaultSensitiveFields,
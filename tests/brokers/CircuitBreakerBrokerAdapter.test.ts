@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CircuitBreakerBrokerAdapter } from '../../src/brokers/CircuitBreakerBrokerAdapter';
+import { CircuitOpenError } from '../../src/utils/CircuitBreaker';
+
+describe('CircuitBreakerBrokerAdapter', () => {
+  let inner: any;
+  let adapter: CircuitBreakerBrokerAdapter;
+
+  beforeEach(() => {
+    inner = {
+      connect: vi.fn().mockResolvedValue(undefined),
+      disconnect: vi.fn().mockResolvedValue(undefined),
+      publish: vi.fn().mockResolvedValue(undefined),
+      subscribe: vi.fn().mockResolvedValue(undefined),
+      unsubscribe: vi.fn().mockResolvedValue(undefined)
+    };
+    adapter = new CircuitBreakerBrokerAdapter(inner, { minimumCalls: 2 });
+  });
+
+  it('should open the circuit per topic when publishing fails', async () => {
+    const opened = vi.fn();
+    adapter.breaker.on('open', opened);
+    inner.publish.mockImplementation(async (topic: string) => {
+      if (topic === 'payments') throw new Error('Broker not available');
+    });
+
+    await expect(adapter.publish('payments', { payload: 'a' })).rejects.toThrow('Broker not available');
+    await expect(adapter.publish('payments', { payload: 'b' })).rejects.toThrow('Broker not available');
+    await expect(adapter.publish('payments', { payload: 'c' })).rejects.toBeInstanceOf(CircuitOpenError);
+    await adapter.publish('audit', { payload: 'd' });
+
+    expect(opened).toHaveBeenCalledWith(expect.objectContaining({ key: 'payments', to: 'open' }));
+    expect(inner.publish).toHaveBeenCalledTimes(3);
+  });
+
+  it('should delegate the rest of the adapter contract', async () => {
+    const handler = vi.fn();
+
+    await adapter.connect();
+    await adapter.subscribe('orders', handler);
+    await adapter.unsubscribe('orders');
+    await adapter.disconnect();
+
+    expect(inner.connect).toHaveBeenCalled();
+    expect(inner.subscribe).toHaveBeenCalledWith('orders', handler);
+    expect(inner.unsubscribe).toHaveBeenCalledWith('orders');
+    expect(inner.disconnect).toHaveBeenCalled();
+  });
+});
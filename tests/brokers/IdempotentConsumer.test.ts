@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { createIdempotentHandler, InMemoryIdempotencyStore } from '../../src/brokers/IdempotentConsumer';
+import { InMemoryBrokerAdapter } from '../../src/brokers/InMemoryBrokerAdapter';
+
+const controls = () => ({ ack: vi.fn().mockResolvedValue(undefined), nack: vi.fn().mockResolvedValue(undefined) });
+
+describe('InMemoryIdempotencyStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should lease an id once until the lease expires', async () => {
+    vi.useFakeTimers();
+    const store = new InMemoryIdempotencyStore();
+
+    expect(await store.claim('a', 1000)).toBe('claimed');
+    expect(await store.claim('a', 1000)).toBe('processing');
+
+    vi.advanceTimersByTime(1000);
+    expect(await store.claim('a', 1000)).toBe('claimed');
+  });
+
+  it('should keep completed ids for their TTL', async () => {
+    vi.useFakeTimers();
+    const store = new InMemoryIdempotencyStore();
+    await store.claim('a', 1000);
+
+    await store.complete('a', 60000);
+    vi.advanceTimersByTime(1000);
+
+    expect(await store.claim('a', 1000)).toBe('done');
+    vi.advanceTimersByTime(59000);
+    expect(await store.claim('a', 1000)).toBe('claimed');
+  });
+
+  it('should evict the least recently seen ids beyond maxEntries', async () => {
+    const store = new InMemoryIdempotencyStore({ maxEntries: 2 });
+
+    await store.claim('a', 60000);
+    await store.claim('b', 60000);
+    await store.claim('a', 60000);
+    await store.claim('c', 60000);
+
+    expect(store.size).toBe(2);
+    expect(await store.claim('a', 60000)).toBe('processing');
+    expect(await store.claim('b', 60000)).toBe('claimed');
+  });
+
+  it('should forget released ids', async () => {
+    const store = new InMemoryIdempotencyStore();
+    await store.claim('a', 60000);
+
+    await store.release('a');
+
+    expect(await store.claim('a', 60000)).toBe('claimed');
+  });
+});
+
+describe('createIdempotentHandler', () => {
+  let handler: any;
+
+  beforeEach(() => {
+    handler = vi.fn().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should process a message id once and ack duplicates', async () => {
+    const onDuplicate = vi.fn();
+    const idempotent = createIdempotentHandler(handler, { onDuplicate });
+    const message = { payload: 'charge', headers: { 'x-message-id': 'payment-1' } };
+    const duplicate = controls();
+
+    await idempotent(message, controls());
+    await idempotent(message, duplicate);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(duplicate.ack).toHaveBeenCalled();
+    expect(onDuplicate).toHaveBeenCalledWith({ id: 'payment-1', message });
+  });
+
+  it('should read the id from the configured headers in order', async () => {
+    const store = { claim: vi.fn().mockResolvedValue('claimed'), complete: vi.fn(), release: vi.fn() };
+    const idempotent = createIdempotentHandler(handler, { store, idHeaders: ['x-event-id', 'x-dedup-key'] });
+
+    await idempotent({ payload: 'x', headers: { 'x-dedup-key': 'dedup-1', 'x-event-id': Buffer.from('event-1') } }, controls());
+    await idempotent({ payload: 'x', headers: { 'x-dedup-key': 'dedup-2' } }, controls());
+
+    expect(store.claim.mock.calls.map(([id]) => id)).toEqual(['event-1', 'dedup-2']);
+  });
+
+  it('should hash the payload when the message has no id', async () => {
+    const store = { claim: vi.fn().mockResolvedValue('claimed'), complete: vi.fn(), release: vi.fn() };
+    const idempotent = createIdempotentHandler(handler, { store, namespace: 'payments', ttlMs: 5000 });
+
+    await idempotent({ payload: Buffer.from('charge') }, controls());
+
+    const hash = createHash('sha256').update(Buffer.from('charge')).digest('hex');
+    expect(store.claim).toHaveBeenCalledWith(`payments:sha256:${hash}`, 60 * 1000);
+    expect(store.complete).toHaveBeenCalledWith(`payments:sha256:${hash}`, 5000);
+  });
+
+  it('should use a custom messageId and skip deduplication without an id when hashing is off', async () => {
+    const store = { claim: vi.fn().mockResolvedValue('claimed'), complete: vi.fn(), release: vi.fn() };
+    const idempotent = createIdempotentHandler(handler, {
+      store,
+      hashPayload: false,
+      messageId: message => (message.payload as any).id
+    });
+
+    await idempotent({ payload: { id: 'order-1' } }, controls());
+    await idempotent({ payload: {} }, controls());
+
+    expect(store.claim).toHaveBeenCalledTimes(1);
+    expect(store.claim).toHaveBeenCalledWith('order-1', 60 * 1000);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should lease the id while the handler runs and record it as done on ack', async () => {
+    vi.useFakeTimers();
+    const store = new InMemoryIdempotencyStore();
+    let finish!: () => void;
+    handler.mockImplementation(async (_message: any, { ack }: any) => {
+      await new Promise<void>(resolve => { finish = resolve; });
+      await ack();
+    });
+    const idempotent = createIdempotentHandler(handler, { store, leaseMs: 1000, ttlMs: 60000 });
+    const message = { payload: 'charge', headers: { 'x-message-id': 'payment-1' } };
+    const first = controls();
+
+    const processing = idempotent(message, first);
+    expect(await store.claim('payment-1', 1000)).toBe('processing');
+    finish();
+    await processing;
+    vi.advanceTimersByTime(1000);
+
+    expect(first.ack).toHaveBeenCalled();
+    expect(await store.claim('payment-1', 1000)).toBe('done');
+  });
+
+  it('should requeue a duplicate while another delivery holds the lease', async () => {
+    const store = { claim: vi.fn().mockResolvedValue('processing'), complete: vi.fn(), release: vi.fn() };
+    const onDuplicate = vi.fn();
+    const idempotent = createIdempotentHandler(handler, { store, onDuplicate });
+    const duplicate = controls();
+
+    await idempotent({ payload: 'charge', headers: { 'x-message-id': 'payment-1' } }, duplicate);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(duplicate.nack).toHaveBeenCalledWith(true);
+    expect(duplicate.ack).not.toHaveBeenCalled();
+    expect(onDuplicate).not.toHaveBeenCalled();
+    expect(store.release).not.toHaveBeenCalled();
+  });
+
+  it('should release the id when the handler throws so that a redelivery is processed', async () => {
+    handler.mockRejectedValueOnce(new Error('handler failed'));
+    const idempotent = createIdempotentHandler(handler);
+    const message = { payload: 'charge', headers: { 'x-message-id': 'payment-1' } };
+
+    await expect(idempotent(message, controls())).rejects.toThrow('handler failed');
+    await idempotent(message, controls());
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should release the id on nack and keep the adapter-specific controls', async () => {
+    const store = new InMemoryIdempotencyStore();
+    const original = { ...controls(), redeliveryCount: 3 };
+    handler.mockImplementation(async (_message: any, wrapped: any) => {
+      expect(wrapped.redeliveryCount).toBe(3);
+      await wrapped.nack(true, new Error('try later'));
+    });
+    const idempotent = createIdempotentHandler(handler, { store });
+
+    await idempotent({ payload: 'x', headers: { 'x-message-id': 'm-1' } }, original);
+
+    expect(original.nack).toHaveBeenCalledWith(true, new Error('try later'));
+    expect(store.size).toBe(0);
+  });
+
+  it('should deduplicate redeliveries through a broker adapter', async () => {
+    const broker = new InMemoryBrokerAdapter();
+    await broker.connect();
+    const processed: string[] = [];
+    await broker.subscribe('payments', createIdempotentHandler(async (message, { ack }) => {
+      processed.push(message.payload.toString());
+      await ack();
+    }));
+
+    await broker.publish('payments', { payload: 'charge-1', headers: { 'x-message-id': 'p-1' } });
+    await broker.publish('payments', { payload: 'charge-1', headers: { 'x-message-id': 'p-1' } });
+    await broker.publish('payments', { payload: 'charge-2', headers: { 'x-message-id': 'p-2' } });
+    await broker.flush();
+
+    expect(processed).toEqual(['charge-1', 'charge-2']);
+    expect(broker.getMessages().map(record => record.deliveries[0].status)).toEqual(['acked', 'acked', 'acked']);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { InMemoryBrokerAdapter } from '../../src/brokers/InMemoryBrokerAdapter';
+import { utf8Codec } from '../../src/brokers/codecs';
+
+describe('InMemoryBrokerAdapter', () => {
+  let adapter: InMemoryBrokerAdapter;
+
+  beforeEach(async () => {
+    adapter = new InMemoryBrokerAdapter();
+    await adapter.connect();
+  });
+
+  describe('publish', () => {
+    it('should throw if not connected', async () => {
+      await expect(new InMemoryBrokerAdapter().publish('orders', { payload: 'x' }))
+        .rejects.toThrow('In-memory broker is not connected. Please connect first.');
+    });
+
+    it('should record every message in the log', async () => {
+      await adapter.publish('orders.created', { payload: 'a', headers: { 'x-id': '1' } });
+      await adapter.publish('orders.cancelled', { payload: { id: 2 } });
+
+      const log = adapter.getMessages();
+      expect(log.map(record => [record.id, record.topic])).toEqual([[1, 'orders.created'], [2, 'orders.cancelled']]);
+      expect(log[0].message.headers).toEqual({ 'x-id': '1' });
+      expect(log[1].message.payload.toString()).toBe('{"id":2}');
+      expect(adapter.getMessages('orders.cancelled')).toHaveLength(1);
+
+      adapter.clear();
+      expect(adapter.getMessages()).toEqual([]);
+    });
+
+    it('should log encoded payloads and deliver decoded ones with a codec', async () => {
+      const coded = new InMemoryBrokerAdapter({ codec: utf8Codec });
+      await coded.connect();
+      const received: unknown[] = [];
+      await coded.subscribe('logs.#', async (message, controls) => {
+        received.push(message.payload);
+        await controls.ack();
+      });
+
+      await coded.publish('logs.app', { payload: 'started' });
+      await coded.publish('logs.app', { payload: { level: 'info' }, headers: { 'content-type': 'application/json' } });
+      await coded.flush();
+
+      expect(coded.getMessages().map(record => record.message.headers?.['content-type']))
+        .toEqual(['text/plain; charset=utf-8', 'application/json']);
+      expect(coded.getMessages()[1].message.payload).toEqual(Buffer.from('{"level":"info"}'));
+      expect(received).toEqual(['started', { level: 'info' }]);
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should deliver payloads as Buffers and keep headers', async () => {
+      const handler = vi.fn(async (_message, controls) => controls.ack());
+      await adapter.subscribe('orders.created', handler);
+
+      await adapter.publish('orders.created', { payload: 'hello', headers: { trace: Buffer.from('abc') } });
+      await adapter.flush();
+
+      const [message] = handler.mock.calls[0];
+      expect(Buffer.isBuffer(message.payload)).toBe(true);
+      expect(message.payload.toString()).toBe('hello');
+      expect(message.headers).toEqual({ trace: Buffer.from('abc') });
+      expect(adapter.getMessages()[0].deliveries).toEqual([
+        { pattern: 'orders.created', status: 'acked', redeliveryCount: 0 }
+      ]);
+    });
+
+    it.each([
+      ['orders.*', 'orders.created', true],
+      ['orders.*', 'orders.eu.created', false],
+      ['orders.#', 'orders', true],
+      ['orders.#', 'orders.eu.created', true],
+      ['#.created', 'orders.eu.created', true],
+      ['#', 'anything.at.all', true],
+      ['orders.>', 'orders.eu.created', true],
+      ['orders.>', 'orders', false],
+      ['*.eu.*', 'orders.eu.created', true],
+      ['orders.created', 'orders.cancelled', false]
+    ])('should match %s against %s: %s', async (pattern, topic, expected) => {
+      const handler = vi.fn();
+      await adapter.subscribe(pattern, handler);
+
+      await adapter.publish(topic, { payload: 'x' });
+      await adapter.flush();
+
+      expect(handler).toHaveBeenCalledTimes(expected ? 1 : 0);
+    });
+
+    it('should redeliver requeued messages with a redelivery count', async () => {
+      const counts: number[] = [];
+      await adapter.subscribe('jobs', async (_message, controls: any) => {
+        counts.push(controls.redeliveryCount);
+        if (controls.redeliveryCount < 2) {
+          await controls.nack(true);
+        } else {
+          await controls.ack();
+        }
+      });
+
+      await adapter.publish('jobs', { payload: 'work' });
+      await adapter.flush();
+
+      expect(counts).toEqual([0, 1, 2]);
+      expect(adapter.getMessages()[0].deliveries[0]).toMatchObject({ status: 'acked', redeliveryCount: 2 });
+    });
+
+    it('should drop nacked messages and stop requeueing after maxRedeliveries', async () => {
+      const limited = new InMemoryBrokerAdapter({ maxRedeliveries: 1 });
+      await limited.connect();
+      const handler = vi.fn(async (_message, controls) => controls.nack(true));
+      await limited.subscribe('jobs', handler);
+
+      await limited.publish('jobs', { payload: 'work' });
+      await limited.flush();
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(limited.getMessages()[0].deliveries[0]).toMatchObject({ status: 'nacked', redeliveryCount: 1 });
+    });
+
+    it('should mark messages whose handler throws as failed', async () => {
+      const error = new Error('handler failed');
+      await adapter.subscribe('jobs', async () => { throw error; });
+
+      await adapter.publish('jobs', { payload: 'work' });
+      await adapter.flush();
+
+      expect(adapter.getMessages()[0].deliveries[0]).toMatchObject({ status: 'failed', error });
+    });
+
+    it('should requeue failed messages when requeueOnError is set', async () => {
+      const retrying = new InMemoryBrokerAdapter({ requeueOnError: true, maxRedeliveries: 2 });
+      await retrying.connect();
+      const handler = vi.fn(async () => { throw new Error('handler failed'); });
+      await retrying.subscribe('jobs', handler);
+
+      await retrying.publish('jobs', { payload: 'work' });
+      await retrying.flush();
+
+      expect(handler).toHaveBeenCalledTimes(3);
+      expect(retrying.getMessages()[0].deliveries[0]).toMatchObject({ status: 'failed', redeliveryCount: 2 });
+    });
+
+    it('should leave unsettled messages as delivered', async () => {
+      await adapter.subscribe('jobs', vi.fn());
+
+      await adapter.publish('jobs', { payload: 'work' });
+      await adapter.flush();
+
+      expect(adapter.getMessages()[0].deliveries[0].status).toBe('delivered');
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it('should stop delivering to the subscription', async () => {
+      const handler = vi.fn();
+      await adapter.subscribe('orders.*', handler);
+
+      await adapter.unsubscribe('orders.*');
+      await adapter.publish('orders.created', { payload: 'x' });
+      await adapter.flush();
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(adapter.getMessages()[0].deliveries).toEqual([]);
+    });
+  });
+});
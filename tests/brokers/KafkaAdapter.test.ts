@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { KafkaAdapter } from '../../src/brokers/KafkaAdapter';
+import { cborCodec, jsonCodec, msgpackCodec } from '../../src/brokers/codecs';
 
 describe('KafkaAdapter', () => {
   let adapter: KafkaAdapter;
@@ -12,14 +13,20 @@ describe('KafkaAdapter', () => {
     mockProducer = {
       connect: vi.fn().mockResolvedValue(undefined),
       disconnect: vi.fn().mockResolvedValue(undefined),
-      send: vi.fn().mockResolvedValue([{ topicName: 'test-topic', partition: 0, baseOffset: '1' }])
+      send: vi.fn().mockResolvedValue([{ topicName: 'test-topic', partition: 0, baseOffset: '1' }]),
+      sendBatch: vi.fn().mockResolvedValue([])
     };
 
     mockConsumer = {
       connect: vi.fn().mockResolvedValue(undefined),
       disconnect: vi.fn().mockResolvedValue(undefined),
       subscribe: vi.fn().mockResolvedValue(undefined),
-      run: vi.fn().mockResolvedValue(undefined)
+      run: vi.fn().mockResolvedValue(undefined),
+      stop: vi.fn().mockResolvedValue(undefined),
+      pause: vi.fn(),
+      resume: vi.fn(),
+      seek: vi.fn(),
+      commitOffsets: vi.fn().mockResolvedValue(undefined)
     };
 
     mockKafka = {
@@ -143,6 +150,294 @@ describe('KafkaAdapter', () => {
     });
   });
 
+  describe('keys, partitions and timestamps', () => {
+    it('should pass key, partition and timestamp to Kafka', async () => {
+      await adapter.publish('orders', {
+        payload: 'created',
+        key: 'order-42',
+        partition: 3,
+        timestamp: new Date(1700000000000)
+      });
+
+      expect(mockProducer.send).toHaveBeenCalledWith({
+        topic: 'orders',
+        messages: [{
+          value: 'created',
+          headers: undefined,
+          key: 'order-42',
+          partition: 3,
+          timestamp: '1700000000000'
+        }]
+      });
+    });
+
+    it('should derive the key with messageKey when the message has none', async () => {
+      const keyed = new KafkaAdapter(mockKafka, 'test-group', {
+        messageKey: (_topic, message) => message.headers?.['x-order-id'] as string
+      });
+
+      await keyed.publish('orders', { payload: 'created', headers: { 'x-order-id': 'order-7' } });
+      await keyed.publish('orders', { payload: 'created', key: null, headers: { 'x-order-id': 'order-8' } });
+
+      expect(mockProducer.send.mock.calls[0][0].messages[0].key).toBe('order-7');
+      expect(mockProducer.send.mock.calls[1][0].messages[0].key).toBeNull();
+    });
+  });
+
+  describe('codecs', () => {
+    it('should encode per topic, record the content type and keep tombstones null', async () => {
+      const coded = new KafkaAdapter(mockKafka, 'test-group', {
+        codec: { default: jsonCodec, topics: { metrics: msgpackCodec } }
+      });
+
+      await coded.publish('orders', { payload: { id: 1 }, key: 'order-1' });
+      await coded.publish('metrics', { payload: [1, 2, 3] });
+      await coded.publish('orders', { payload: null, key: 'order-1' });
+
+      const [orders, metrics, tombstone] = mockProducer.send.mock.calls.map(([record]: any) => record.messages[0]);
+      expect(orders).toEqual({ value: Buffer.from('{"id":1}'), headers: { 'content-type': 'application/json' }, key: 'order-1' });
+      expect(metrics.headers).toEqual({ 'content-type': 'application/msgpack' });
+      expect(msgpackCodec.decode(metrics.value)).toEqual([1, 2, 3]);
+      expect(tombstone).toEqual({ value: null, headers: undefined, key: 'order-1' });
+    });
+
+    it('should hand decoded payloads to handlers, including regex subscriptions', async () => {
+      const coded = new KafkaAdapter(mockKafka, 'test-group', { codec: cborCodec });
+      const handler = vi.fn();
+      await coded.connect();
+      await coded.subscribe(/^sensors\./, handler);
+
+      const { eachMessage } = mockConsumer.run.mock.calls.at(-1)[0];
+      await eachMessage({
+        topic: 'sensors.eu',
+        partition: 0,
+        message: { offset: '1', value: cborCodec.encode({ temperature: 21 }), headers: {} },
+        heartbeat: vi.fn()
+      });
+      await eachMessage({
+        topic: 'sensors.us',
+        partition: 0,
+        message: { offset: '2', value: Buffer.from('"hot"'), headers: { 'content-type': Buffer.from('application/json') } },
+        heartbeat: vi.fn()
+      });
+
+      expect(handler.mock.calls.map(([message]) => message.payload)).toEqual([{ temperature: 21 }, 'hot']);
+    });
+  });
+
+  describe('publishBatch', () => {
+    it('should send all messages in one sendBatch grouped by topic', async () => {
+      await adapter.publishBatch([
+        { topic: 'orders', message: { payload: 'a', key: 'order-1' } },
+        { topic: 'payments', message: { payload: 'b' } },
+        { topic: 'orders', message: { payload: 'c', key: 'order-1' } }
+      ]);
+
+      expect(mockProducer.sendBatch).toHaveBeenCalledTimes(1);
+      expect(mockProducer.sendBatch).toHaveBeenCalledWith({
+        topicMessages: [
+          {
+            topic: 'orders',
+            messages: [
+              { value: 'a', headers: undefined, key: 'order-1' },
+              { value: 'c', headers: undefined, key: 'order-1' }
+            ]
+          },
+          { topic: 'payments', messages: [{ value: 'b', headers: undefined }] }
+        ]
+      });
+    });
+
+    it('should not call Kafka for an empty batch', async () => {
+      await adapter.publishBatch([]);
+
+      expect(mockProducer.sendBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('batching', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should buffer publishes until the linger time elapses', async () => {
+      vi.useFakeTimers();
+      const batching = new KafkaAdapter(mockKafka, 'test-group', { batching: { lingerMs: 20 } });
+
+      const first = batching.publish('orders', { payload: 'a' });
+      const second = batching.publish('payments', { payload: 'b' });
+      expect(mockProducer.sendBatch).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(20);
+      await Promise.all([first, second]);
+
+      expect(mockProducer.send).not.toHaveBeenCalled();
+      expect(mockProducer.sendBatch).toHaveBeenCalledWith({
+        topicMessages: [
+          { topic: 'orders', messages: [{ value: 'a', headers: undefined }] },
+          { topic: 'payments', messages: [{ value: 'b', headers: undefined }] }
+        ]
+      });
+    });
+
+    it('should send as soon as maxBatchSize messages are buffered', async () => {
+      const batching = new KafkaAdapter(mockKafka, 'test-group', { batching: { lingerMs: 60000, maxBatchSize: 2 } });
+
+      await Promise.all([
+        batching.publish('orders', { payload: 'a' }),
+        batching.publish('orders', { payload: 'b' })
+      ]);
+
+      expect(mockProducer.sendBatch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject every buffered publish when the batch fails', async () => {
+      mockProducer.sendBatch.mockRejectedValue(new Error('Batch failed'));
+      const batching = new KafkaAdapter(mockKafka, 'test-group', { batching: { maxBatchSize: 2 } });
+
+      const results = await Promise.allSettled([
+        batching.publish('orders', { payload: 'a' }),
+        batching.publish('orders', { payload: 'b' })
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    });
+
+    it('should flush buffered messages on disconnect', async () => {
+      const batching = new KafkaAdapter(mockKafka, 'test-group', { batching: { lingerMs: 60000 } });
+
+      const pending = batching.publish('orders', { payload: 'a' });
+      await batching.disconnect();
+      await pending;
+
+      expect(mockProducer.sendBatch).toHaveBeenCalledTimes(1);
+      expect(mockProducer.sendBatch.mock.invocationCallOrder[0])
+        .toBeLessThan(mockProducer.disconnect.mock.invocationCallOrder[0]);
+    });
+  });
+
+  describe('transactions', () => {
+    let mockTransaction: any;
+
+    beforeEach(() => {
+      mockTransaction = {
+        send: vi.fn().mockResolvedValue([]),
+        sendBatch: vi.fn().mockResolvedValue([]),
+        sendOffsets: vi.fn().mockResolvedValue(undefined),
+        commit: vi.fn().mockResolvedValue(undefined),
+        abort: vi.fn().mockResolvedValue(undefined)
+      };
+      mockProducer.transaction = vi.fn().mockResolvedValue(mockTransaction);
+    });
+
+    it('should create an idempotent producer with one request in flight for a transactionalId', () => {
+      new KafkaAdapter(mockKafka, 'test-group', { producer: { transactionalId: 'enricher-1' } });
+      new KafkaAdapter(mockKafka, 'test-group', { producer: { idempotent: true } });
+
+      expect(mockKafka.producer).toHaveBeenLastCalledWith({ idempotent: true });
+      expect(mockKafka.producer.mock.calls.at(-2)[0]).toEqual({
+        idempotent: true,
+        maxInFlightRequests: 1,
+        transactionalId: 'enricher-1'
+      });
+    });
+
+    it('should reject transactions without a transactionalId', async () => {
+      await expect(adapter.transaction(async () => undefined))
+        .rejects.toThrow('Kafka transactions require a transactionalId in the producer options.');
+    });
+
+    it('should publish and commit offsets in one transaction', async () => {
+      const transactional = new KafkaAdapter(mockKafka, 'enrichers', { producer: { transactionalId: 'enricher-1' } });
+
+      const result = await transactional.transaction(async tx => {
+        await tx.publish('orders.enriched', { payload: 'a', key: 'order-1' });
+        await tx.publishBatch([{ topic: 'audit', message: { payload: 'b' } }]);
+        await tx.commitOffsets([
+          { topic: 'orders', partition: 0, offset: '6' },
+          { topic: 'orders', partition: 1, offset: '3' }
+        ]);
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(mockTransaction.send).toHaveBeenCalledWith({
+        topic: 'orders.enriched',
+        messages: [{ value: 'a', headers: undefined, key: 'order-1' }]
+      });
+      expect(mockTransaction.sendBatch).toHaveBeenCalledWith({
+        topicMessages: [{ topic: 'audit', messages: [{ value: 'b', headers: undefined }] }]
+      });
+      expect(mockTransaction.sendOffsets).toHaveBeenCalledWith({
+        consumerGroupId: 'enrichers',
+        topics: [{ topic: 'orders', partitions: [{ partition: 0, offset: '6' }, { partition: 1, offset: '3' }] }]
+      });
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(mockTransaction.abort).not.toHaveBeenCalled();
+      expect(mockProducer.send).not.toHaveBeenCalled();
+    });
+
+    it('should abort the transaction and rethrow when the work fails', async () => {
+      const transactional = new KafkaAdapter(mockKafka, 'enrichers', { producer: { transactionalId: 'enricher-1' } });
+
+      await expect(transactional.transaction(async tx => {
+        await tx.publish('orders.enriched', { payload: 'a' });
+        throw new Error('enrichment failed');
+      })).rejects.toThrow('enrichment failed');
+
+      expect(mockTransaction.abort).toHaveBeenCalled();
+      expect(mockTransaction.commit).not.toHaveBeenCalled();
+    });
+
+    it('should run overlapping transactions one after another', async () => {
+      const transactional = new KafkaAdapter(mockKafka, 'enrichers', { producer: { transactionalId: 'enricher-1' } });
+      const events: string[] = [];
+      let releaseFirst!: () => void;
+      const firstBlocked = new Promise<void>(resolve => { releaseFirst = resolve; });
+      mockProducer.transaction = vi.fn().mockImplementation(async () => {
+        events.push('begin');
+        return {
+          ...mockTransaction,
+          commit: vi.fn(async () => { events.push('commit'); }),
+          abort: vi.fn(async () => { events.push('abort'); })
+        };
+      });
+
+      const first = transactional.transaction(async () => {
+        events.push('first');
+        await firstBlocked;
+        throw new Error('first failed');
+      });
+      const second = transactional.transaction(async () => {
+        events.push('second');
+        return 'second done';
+      });
+      await new Promise(resolve => setImmediate(resolve));
+      expect(events).toEqual(['begin', 'first']);
+
+      releaseFirst();
+
+      await expect(first).rejects.toThrow('first failed');
+      await expect(second).resolves.toBe('second done');
+      expect(events).toEqual(['begin', 'first', 'abort', 'begin', 'second', 'commit']);
+    });
+
+    it('should expose the offset to commit on the message controls', async () => {
+      const transactional = new KafkaAdapter(mockKafka, 'enrichers', { producer: { transactionalId: 'enricher-1' } });
+      await transactional.subscribe('orders', async (_message, controls: any) => {
+        await transactional.transaction(tx => tx.commitOffsets([controls.offset]));
+      });
+
+      const { eachMessage } = mockConsumer.run.mock.calls[0][0];
+      await eachMessage({ topic: 'orders', partition: 2, message: { offset: '5', value: Buffer.from('x') }, heartbeat: vi.fn() });
+
+      expect(mockTransaction.sendOffsets).toHaveBeenCalledWith({
+        consumerGroupId: 'enrichers',
+        topics: [{ topic: 'orders', partitions: [{ partition: 2, offset: '6' }] }]
+      });
+    });
+  });
+
   describe('subscribe', () => {
     beforeEach(async () => {
       await adapter.connect();
@@ -188,6 +483,281 @@ describe('KafkaAdapter', () => {
     });
   });
 
+  describe('consumer options', () => {
+    const deliver = (topic: string, offset = '5') => {
+      const { eachMessage } = mockConsumer.run.mock.calls.at(-1)[0];
+      return eachMessage({ topic, partition: 0, message: { offset, value: Buffer.from(topic) }, heartbeat: vi.fn() });
+    };
+
+    beforeEach(async () => {
+      await adapter.connect();
+    });
+
+    it('should run in manual-commit mode with one partition at a time by default', async () => {
+      await adapter.subscribe('orders', vi.fn());
+
+      expect(mockConsumer.run).toHaveBeenCalledWith(expect.objectContaining({
+        autoCommit: false,
+        partitionsConsumedConcurrently: 1
+      }));
+    });
+
+    it('should pass fromBeginning, concurrency and auto-commit from the options', async () => {
+      const configured = new KafkaAdapter(mockKafka, 'test-group', {
+        consumer: { fromBeginning: false, partitionsConsumedConcurrently: 4, commitMode: 'auto' }
+      });
+
+      await configured.subscribe('orders', vi.fn());
+      await configured.subscribe('replays', vi.fn(), { fromBeginning: true });
+
+      expect(mockConsumer.subscribe).toHaveBeenNthCalledWith(1, { topic: 'orders', fromBeginning: false });
+      expect(mockConsumer.subscribe).toHaveBeenNthCalledWith(2, { topic: 'replays', fromBeginning: true });
+      expect(mockConsumer.run).toHaveBeenLastCalledWith(expect.objectContaining({
+        autoCommit: true,
+        partitionsConsumedConcurrently: 4
+      }));
+    });
+
+    it('should not commit on ack in auto-commit mode', async () => {
+      const autoCommit = new KafkaAdapter(mockKafka, 'test-group', { consumer: { commitMode: 'auto' } });
+      await autoCommit.subscribe('orders', async (_message, controls) => controls.ack());
+
+      await deliver('orders');
+
+      expect(mockConsumer.commitOffsets).not.toHaveBeenCalled();
+    });
+
+    it('should restart one run loop to add topics and dispatch by topic', async () => {
+      const orders = vi.fn();
+      const payments = vi.fn();
+
+      await adapter.subscribe('orders', orders);
+      await adapter.subscribe('payments', payments);
+
+      expect(mockConsumer.stop).toHaveBeenCalledTimes(1);
+      expect(mockConsumer.run).toHaveBeenCalledTimes(2);
+
+      await deliver('orders');
+      await deliver('payments');
+
+      expect(orders).toHaveBeenCalledTimes(1);
+      expect(payments).toHaveBeenCalledTimes(1);
+      expect(payments.mock.calls[0][0].payload.toString()).toBe('payments');
+    });
+
+    it('should dispatch messages of topics matching a regex subscription', async () => {
+      const handler = vi.fn();
+      const exact = vi.fn();
+      await adapter.subscribe(/^orders\..+/, handler);
+      await adapter.subscribe('orders.audit', exact);
+
+      await deliver('orders.eu');
+      await deliver('orders.audit');
+      await deliver('payments');
+
+      expect(mockConsumer.subscribe).toHaveBeenCalledWith({ topic: /^orders\..+/, fromBeginning: true });
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(exact).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pause and resume a topic', async () => {
+      await adapter.subscribe('orders', vi.fn());
+
+      adapter.pause('orders', [1]);
+      adapter.resume('orders');
+
+      expect(mockConsumer.pause).toHaveBeenCalledWith([{ topic: 'orders', partitions: [1] }]);
+      expect(mockConsumer.resume).toHaveBeenCalledWith([{ topic: 'orders', partitions: undefined }]);
+    });
+  });
+
+  describe('unsubscribe', () => {
+    let logSpy: any;
+
+    beforeEach(async () => {
+      await adapter.connect();
+      logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      logSpy.mockRestore();
+    });
+
+    it('should recreate the consumer with the remaining subscriptions', async () => {
+      const payments = vi.fn();
+      await adapter.subscribe('orders', vi.fn());
+      await adapter.subscribe('payments', payments, { fromBeginning: false });
+      mockConsumer.subscribe.mockClear();
+      mockConsumer.run.mockClear();
+
+      await adapter.unsubscribe('orders');
+
+      expect(mockConsumer.disconnect).toHaveBeenCalled();
+      expect(mockKafka.consumer).toHaveBeenCalledTimes(2);
+      expect(mockConsumer.subscribe).toHaveBeenCalledTimes(1);
+      expect(mockConsumer.subscribe).toHaveBeenCalledWith({ topic: 'payments', fromBeginning: false });
+      expect(mockConsumer.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not restart the consumer when nothing is left', async () => {
+      await adapter.subscribe('orders', vi.fn());
+      mockConsumer.run.mockClear();
+
+      await adapter.unsubscribe('orders');
+
+      expect(mockConsumer.run).not.toHaveBeenCalled();
+    });
+
+    it('should warn about unknown subscriptions', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await adapter.unsubscribe('orders');
+
+      expect(warnSpy).toHaveBeenCalledWith('No active subscription found for topic: orders');
+      expect(mockConsumer.disconnect).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('nack with dead-letter options', () => {
+    const runEachMessage = async (
+      target: KafkaAdapter,
+      handler: any,
+      message: any = { offset: '5', key: null, value: Buffer.from('payload'), headers: {} }
+    ) => {
+      await target.subscribe('orders', handler);
+      const { eachMessage } = mockConsumer.run.mock.calls[0][0];
+      await eachMessage({ topic: 'orders', partition: 2, message, heartbeat: vi.fn() });
+    };
+
+    beforeEach(() => {
+      mockConsumer.commitOffsets = vi.fn().mockResolvedValue(undefined);
+    });
+
+    it('should only log when no dead-letter options are configured', async () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await runEachMessage(adapter, async (_msg: any, controls: any) => controls.nack());
+
+      expect(logSpy).toHaveBeenCalledWith('NACK received for message on topic orders.');
+      expect(mockProducer.send).not.toHaveBeenCalled();
+      expect(mockConsumer.commitOffsets).not.toHaveBeenCalled();
+      logSpy.mockRestore();
+    });
+
+    it('should move the message to the default dead-letter topic and commit it', async () => {
+      const dlqAdapter = new KafkaAdapter(mockKafka, 'test-group', { deadLetter: {} });
+
+      await runEachMessage(dlqAdapter, async (_msg: any, controls: any) =>
+        controls.nack(false, new Error('boom'))
+      );
+
+      expect(mockProducer.send).toHaveBeenCalledWith({
+        topic: 'orders.dlq',
+        messages: [{
+          key: null,
+          value: Buffer.from('payload'),
+          headers: {
+            'x-original-topic': 'orders',
+            'x-original-partition': '2',
+            'x-original-offset': '5',
+            'x-error-message': 'boom'
+          }
+        }]
+      });
+      expect(mockConsumer.commitOffsets).toHaveBeenCalledWith([
+        { topic: 'orders', partition: 2, offset: '6' }
+      ]);
+    });
+
+    it('should send to the retry topic with backoff while retries remain', async () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1000);
+      const retryAdapter = new KafkaAdapter(mockKafka, 'test-group', {
+        deadLetter: { retry: { maxRetries: 2, backoff: [100, 500], retryTopic: 'orders.retry' } }
+      });
+
+      await runEachMessage(retryAdapter, async (_msg: any, controls: any) => controls.nack(true));
+
+      const sent = mockProducer.send.mock.calls[0][0];
+      expect(sent.topic).toBe('orders.retry');
+      expect(sent.messages[0].headers).toMatchObject({
+        'x-retry-count': '1',
+        'x-retry-not-before': '1100',
+        'x-original-topic': 'orders'
+      });
+      vi.restoreAllMocks();
+    });
+
+    it('should pause the partition instead of waiting while a redelivery is not due', async () => {
+      vi.useFakeTimers();
+      const handler = vi.fn();
+      const resume = vi.fn();
+      const pause = vi.fn().mockReturnValue(resume);
+      const retryAdapter = new KafkaAdapter(mockKafka, 'test-group', { deadLetter: { retry: { maxRetries: 3 } } });
+      await retryAdapter.subscribe('orders', handler);
+      const { eachMessage } = mockConsumer.run.mock.calls[0][0];
+      const message = {
+        offset: '7',
+        value: Buffer.from('payload'),
+        headers: { 'x-retry-not-before': Buffer.from(String(Date.now() + 5000)) }
+      };
+
+      await eachMessage({ topic: 'orders', partition: 2, message, heartbeat: vi.fn(), pause });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(pause).toHaveBeenCalled();
+      expect(mockConsumer.seek).toHaveBeenCalledWith({ topic: 'orders', partition: 2, offset: '7' });
+      vi.advanceTimersByTime(4999);
+      expect(resume).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1);
+      expect(resume).toHaveBeenCalled();
+
+      // Once due, the re-fetched message is handled.
+      await eachMessage({ topic: 'orders', partition: 2, message, heartbeat: vi.fn(), pause });
+      expect(handler).toHaveBeenCalledTimes(1);
+      vi.useRealTimers();
+    });
+
+    it('should dead-letter once retries are exhausted', async () => {
+      const retryAdapter = new KafkaAdapter(mockKafka, 'test-group', {
+        deadLetter: { deadLetterTopic: (topic) => `dead.${topic}`, retry: { maxRetries: 1 } }
+      });
+      const message = {
+        offset: '9',
+        key: null,
+        value: Buffer.from('payload'),
+        headers: {
+          'x-original-topic': Buffer.from('orders'),
+          'x-original-partition': Buffer.from('0'),
+          'x-original-offset': Buffer.from('3'),
+          'x-retry-count': Buffer.from('1')
+        }
+      };
+
+      await runEachMessage(retryAdapter, async (_msg: any, controls: any) => controls.nack(true), message);
+
+      const sent = mockProducer.send.mock.calls[0][0];
+      expect(sent.topic).toBe('dead.orders');
+      expect(sent.messages[0].headers['x-original-offset']).toBe('3');
+      expect(sent.messages[0].headers['x-original-partition']).toBe('0');
+    });
+
+    it('should retry when the handler throws', async () => {
+      const retryAdapter = new KafkaAdapter(mockKafka, 'test-group', {
+        deadLetter: { retry: { maxRetries: 3 } }
+      });
+
+      await runEachMessage(retryAdapter, async () => {
+        throw new Error('handler failed');
+      });
+
+      const sent = mockProducer.send.mock.calls[0][0];
+      expect(sent.topic).toBe('orders');
+      expect(sent.messages[0].headers['x-error-message']).toBe('handler failed');
+      expect(mockConsumer.commitOffsets).toHaveBeenCalled();
+    });
+  });
+
   describe('error handling', () => {
     it('should handle connect errors gracefully', async () => {
       const error = new Error('Connection failed');
@@ -0,0 +1,298 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+
+const mqttMocks = vi.hoisted(() => ({
+  connectAsync: vi.fn()
+}));
+
+vi.mock('mqtt', () => ({ connectAsync: mqttMocks.connectAsync }));
+
+import { MqttAdapter } from '../../src/brokers/MqttAdapter';
+
+describe('MqttAdapter', () => {
+  let mockClient: any;
+
+  // Resolves with what the adapter passes to the client's callback once it lets the client read on.
+  const deliver = (packet: Record<string, unknown>) =>
+    new Promise<Error | undefined>(resolve => {
+      mockClient.handleMessage({ cmd: 'publish', qos: 1, messageId: 7, ...packet }, resolve);
+    });
+  const puback = { cmd: 'puback', messageId: 7 };
+
+  beforeEach(() => {
+    mockClient = Object.assign(new EventEmitter(), {
+      publishAsync: vi.fn().mockResolvedValue(undefined),
+      subscribeAsync: vi.fn().mockImplementation(async (topic: string, { qos }: any) => [{ topic, qos }]),
+      unsubscribeAsync: vi.fn().mockResolvedValue(undefined),
+      endAsync: vi.fn().mockResolvedValue(undefined),
+      _sendPacket: vi.fn(),
+      connected: true,
+      stream: {}
+    });
+    mqttMocks.connectAsync.mockReset();
+    mqttMocks.connectAsync.mockResolvedValue(mockClient);
+  });
+
+  describe('connect', () => {
+    it('should connect with MQTT 5 by default', async () => {
+      const adapter = new MqttAdapter('mqtt://broker:1883', { clientOptions: { clientId: 'gateway-1' } });
+
+      await adapter.connect();
+      await adapter.connect();
+
+      expect(mqttMocks.connectAsync).toHaveBeenCalledTimes(1);
+      expect(mqttMocks.connectAsync).toHaveBeenCalledWith('mqtt://broker:1883', {
+        protocolVersion: 5,
+        clientId: 'gateway-1'
+      });
+    });
+
+    it('should relay the client reconnect cycle as events', async () => {
+      const adapter = new MqttAdapter();
+      await adapter.connect();
+      const events: string[] = [];
+      for (const name of ['disconnected', 'reconnecting', 'reconnected']) {
+        adapter.on(name, () => events.push(name));
+      }
+
+      mockClient.emit('close');
+      mockClient.emit('reconnect');
+      mockClient.emit('close');
+      mockClient.emit('reconnect');
+      mockClient.emit('connect');
+
+      expect(events).toEqual(['disconnected', 'reconnecting', 'reconnecting', 'reconnected']);
+    });
+  });
+
+  describe('publish', () => {
+    it('should throw if not connected', async () => {
+      await expect(new MqttAdapter().publish('devices/1/logs', { payload: 'x' }))
+        .rejects.toThrow('MQTT client is not available. Please connect first.');
+    });
+
+    it('should send headers as MQTT 5 user properties with the default QoS', async () => {
+      const adapter = new MqttAdapter();
+      await adapter.connect();
+
+      await adapter.publish('devices/1/logs', {
+        payload: Buffer.from('hello'),
+        headers: { 'x-correlation-id': 'corr-1', 'x-trace-id': Buffer.from('trace-1') }
+      });
+
+      expect(mockClient.publishAsync).toHaveBeenCalledWith('devices/1/logs', Buffer.from('hello'), {
+        qos: 1,
+        retain: false,
+        properties: { userProperties: { 'x-correlation-id': 'corr-1', 'x-trace-id': 'trace-1' } }
+      });
+    });
+
+    it('should let the message override QoS and retain', async () => {
+      const adapter = new MqttAdapter('mqtt://localhost:1883', { qos: 0 });
+      await adapter.connect();
+
+      await adapter.publish('devices/1/state', { payload: { online: true }, qos: 2, retain: true });
+
+      expect(mockClient.publishAsync).toHaveBeenCalledWith('devices/1/state', '{"online":true}', {
+        qos: 2,
+        retain: true
+      });
+    });
+
+    it('should wrap payload and headers in an envelope for MQTT 3.1.1', async () => {
+      const adapter = new MqttAdapter('mqtt://localhost:1883', { clientOptions: { protocolVersion: 4 } });
+      await adapter.connect();
+
+      await adapter.publish('devices/1/logs', { payload: 'hello', headers: { 'x-correlation-id': 'corr-1' } });
+
+      const [, payload, options] = mockClient.publishAsync.mock.calls[0];
+      expect(options).toEqual({ qos: 1, retain: false });
+      expect(JSON.parse(payload)).toEqual({
+        syntropylog: 1,
+        headers: { 'x-correlation-id': 'corr-1' },
+        payload: Buffer.from('hello').toString('base64')
+      });
+    });
+  });
+
+  describe('subscribe', () => {
+    let adapter: MqttAdapter;
+
+    beforeEach(async () => {
+      adapter = new MqttAdapter();
+      await adapter.connect();
+    });
+
+    it('should subscribe with the requested QoS', async () => {
+      await adapter.subscribe('devices/+/logs', vi.fn(), { qos: 2 });
+
+      expect(mockClient.subscribeAsync).toHaveBeenCalledWith('devices/+/logs', { qos: 2 });
+    });
+
+    it('should throw when the broker rejects the subscription', async () => {
+      mockClient.subscribeAsync.mockResolvedValue([{ topic: 'devices/#', qos: 128 }]);
+
+      await expect(adapter.subscribe('devices/#', vi.fn()))
+        .rejects.toThrow('MQTT broker rejected the subscription to devices/#.');
+    });
+
+    it.each([
+      ['devices/+/logs', 'devices/1/logs', true],
+      ['devices/+/logs', 'devices/1/2/logs', false],
+      ['devices/#', 'devices', true],
+      ['devices/#', 'devices/1/logs', true],
+      ['#', 'anything/at/all', true],
+      ['$share/gateways/devices/+', 'devices/1', true],
+      ['devices/1', 'devices/2', false]
+    ])('should match %s against %s: %s', async (filter, topic, expected) => {
+      const handler = vi.fn();
+      await adapter.subscribe(filter, handler);
+
+      await deliver({ topic, payload: Buffer.from('x') });
+
+      expect(handler).toHaveBeenCalledTimes(expected ? 1 : 0);
+    });
+
+    it('should read headers from MQTT 5 user properties', async () => {
+      const handler = vi.fn();
+      await adapter.subscribe('devices/+/logs', handler);
+
+      await deliver({
+        topic: 'devices/1/logs',
+        payload: Buffer.from('hello'),
+        properties: { userProperties: { 'x-correlation-id': 'corr-1', tag: ['a', 'b'] } }
+      });
+
+      const [message] = handler.mock.calls[0];
+      expect(message.payload.toString()).toBe('hello');
+      expect(message.headers).toEqual({ 'x-correlation-id': 'corr-1', tag: 'a' });
+    });
+
+    it('should unwrap MQTT 3.1.1 envelopes and pass other payloads through', async () => {
+      const legacy = new MqttAdapter('mqtt://localhost:1883', { clientOptions: { protocolVersion: 4 } });
+      await legacy.connect();
+      const handler = vi.fn();
+      await legacy.subscribe('devices/#', handler);
+
+      const envelope = { syntropylog: 1, headers: { 'x-correlation-id': 'corr-1' }, payload: Buffer.from('hi').toString('base64') };
+      await deliver({ topic: 'devices/1', payload: Buffer.from(JSON.stringify(envelope)) });
+      await deliver({ topic: 'devices/2', payload: Buffer.from('raw reading') });
+
+      expect(handler.mock.calls[0][0].payload.toString()).toBe('hi');
+      expect(handler.mock.calls[0][0].headers).toEqual({ 'x-correlation-id': 'corr-1' });
+      expect(handler.mock.calls[1][0].payload.toString()).toBe('raw reading');
+      expect(handler.mock.calls[1][0].headers).toBeUndefined();
+    });
+
+    it('should let the client read on and send the PUBACK itself once the handler acks', async () => {
+      let finishHandler!: () => void;
+      await adapter.subscribe('devices/+/logs', async (_message, controls) => {
+        await controls.ack();
+        await new Promise<void>(resolve => { finishHandler = resolve; });
+      });
+
+      const skipped = await deliver({ topic: 'devices/1/logs', payload: Buffer.from('x') });
+
+      expect(skipped).toBeInstanceOf(Error);
+      await vi.waitFor(() => expect(mockClient._sendPacket).toHaveBeenCalledWith(puback));
+      finishHandler();
+    });
+
+    it('should let a handler publish with QoS 1 before it acks', async () => {
+      // The PUBACK of the handler's own publish is only read once the client reads on.
+      let readOn!: () => void;
+      const nextPacketRead = new Promise<void>(resolve => { readOn = resolve; });
+      mockClient.publishAsync.mockImplementation(() => nextPacketRead);
+      await adapter.subscribe('devices/+/commands', async (_message, controls) => {
+        await adapter.publish('devices/1/replies', { payload: 'done', qos: 1 });
+        await controls.ack();
+      });
+
+      mockClient.handleMessage(
+        { cmd: 'publish', qos: 1, messageId: 7, topic: 'devices/1/commands', payload: Buffer.from('x') },
+        () => readOn()
+      );
+
+      await vi.waitFor(() => expect(mockClient._sendPacket).toHaveBeenCalledWith(puback));
+    });
+
+    it('should leave QoS 0 and QoS 2 deliveries to the client', async () => {
+      await adapter.subscribe('devices/#', () => new Promise(() => undefined));
+
+      await expect(deliver({ topic: 'devices/1', qos: 0, payload: Buffer.from('x') })).resolves.toBeUndefined();
+      await expect(deliver({ topic: 'devices/1', qos: 2, payload: Buffer.from('x') })).resolves.toBeUndefined();
+      expect(mockClient._sendPacket).not.toHaveBeenCalled();
+    });
+
+    it('should not send the PUBACK on a connection opened after the delivery', async () => {
+      let ack!: () => Promise<void>;
+      await adapter.subscribe('devices/#', (_message, controls) => {
+        ack = controls.ack;
+        return new Promise(() => undefined);
+      });
+
+      await deliver({ topic: 'devices/1', payload: Buffer.from('x') });
+      mockClient.stream = {};
+      await ack();
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(mockClient._sendPacket).not.toHaveBeenCalled();
+    });
+
+    it('should hold the PUBACK until every matching handler has settled', async () => {
+      let ackSecond!: () => Promise<void>;
+      await adapter.subscribe('devices/#', async (_message, controls) => controls.ack());
+      await adapter.subscribe('devices/+/logs', (_message, controls) => {
+        ackSecond = controls.ack;
+        return new Promise(() => undefined);
+      });
+
+      await deliver({ topic: 'devices/1/logs', payload: Buffer.from('x') });
+      await new Promise(resolve => setImmediate(resolve));
+      expect(mockClient._sendPacket).not.toHaveBeenCalled();
+
+      await ackSecond();
+      await vi.waitFor(() => expect(mockClient._sendPacket).toHaveBeenCalledWith(puback));
+    });
+
+    it('should acknowledge messages whose handler throws', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      await adapter.subscribe('devices/+/logs', async () => { throw new Error('handler failed'); });
+
+      await deliver({ topic: 'devices/1/logs', payload: Buffer.from('x') });
+
+      await vi.waitFor(() => expect(mockClient._sendPacket).toHaveBeenCalledWith(puback));
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it('should unsubscribe and stop dispatching', async () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const adapter = new MqttAdapter();
+      await adapter.connect();
+      const handler = vi.fn();
+      await adapter.subscribe('devices/#', handler);
+
+      await adapter.unsubscribe('devices/#');
+      await deliver({ topic: 'devices/1', payload: Buffer.from('x') });
+
+      expect(mockClient.unsubscribeAsync).toHaveBeenCalledWith('devices/#');
+      expect(handler).not.toHaveBeenCalled();
+      logSpy.mockRestore();
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should end the client once', async () => {
+      const adapter = new MqttAdapter();
+      await adapter.connect();
+
+      await adapter.disconnect();
+      await adapter.disconnect();
+
+      expect(mockClient.endAsync).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,348 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const natsMocks = vi.hoisted(() => ({
+  connect: vi.fn()
+}));
+
+vi.mock('nats', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('nats')>();
+  return { ...actual, connect: natsMocks.connect };
+});
+
+import { NatsAdapter } from '../../src/brokers/NatsAdapter';
+import { msgpackCodec } from '../../src/brokers/codecs';
+
+describe('NatsAdapter', () => {
+  let mockConnection: any;
+  let mockJetStream: any;
+  let mockManager: any;
+  let mockMessages: any;
+
+  const createMockConnection = () => {
+    let close!: (error?: Error) => void;
+    const closed = new Promise<void | Error>(resolve => { close = resolve; });
+    return {
+      publish: vi.fn(),
+      subscribe: vi.fn().mockReturnValue({ unsubscribe: vi.fn(), [Symbol.asyncIterator]: async function* () {} }),
+      drain: vi.fn().mockResolvedValue(undefined),
+      close: vi.fn().mockResolvedValue(undefined),
+      jetstream: vi.fn().mockReturnValue(mockJetStream),
+      jetstreamManager: vi.fn().mockResolvedValue(mockManager),
+      status: vi.fn().mockReturnValue({ [Symbol.asyncIterator]: async function* () {} }),
+      closed: vi.fn().mockReturnValue(closed),
+      // Simulates the client giving up after its own reconnect attempts.
+      giveUp: (error?: Error) => close(error)
+    };
+  };
+
+  beforeEach(() => {
+    mockMessages = {
+      stop: vi.fn(),
+      [Symbol.asyncIterator]: async function* () {}
+    };
+
+    mockJetStream = {
+      publish: vi.fn().mockResolvedValue({ seq: 1, duplicate: false }),
+      consumers: {
+        get: vi.fn().mockResolvedValue({ consume: vi.fn().mockResolvedValue(mockMessages) })
+      }
+    };
+
+    mockManager = {
+      streams: {
+        info: vi.fn().mockRejectedValue(new Error('stream not found')),
+        add: vi.fn().mockResolvedValue({})
+      },
+      consumers: {
+        add: vi.fn().mockResolvedValue({})
+      }
+    };
+
+    mockConnection = createMockConnection();
+
+    natsMocks.connect.mockReset();
+    natsMocks.connect.mockResolvedValue(mockConnection);
+  });
+
+  describe('core mode', () => {
+    it('should publish with core NATS by default', async () => {
+      const adapter = new NatsAdapter();
+      await adapter.connect();
+
+      await adapter.publish('orders.created', { payload: 'hello' });
+
+      expect(mockConnection.jetstream).not.toHaveBeenCalled();
+      expect(mockConnection.publish).toHaveBeenCalledWith(
+        'orders.created',
+        Buffer.from('hello'),
+        { headers: undefined }
+      );
+    });
+    it('should keep binary payloads intact in both directions', async () => {
+      const bytes = Buffer.from([0xff, 0x00, 0xc3, 0x28]);
+      mockConnection.subscribe.mockReturnValue({
+        unsubscribe: vi.fn(),
+        [Symbol.asyncIterator]: async function* () {
+          yield { data: new Uint8Array(bytes), headers: undefined };
+        }
+      });
+      const adapter = new NatsAdapter();
+      await adapter.connect();
+
+      await adapter.publish('images', { payload: bytes });
+      const received = new Promise<any>(resolve => adapter.subscribe('images', async message => resolve(message)));
+
+      expect(mockConnection.publish.mock.calls[0][1]).toEqual(bytes);
+      expect((await received).payload).toEqual(bytes);
+    });
+
+    it('should encode with the codec and decode by content type', async () => {
+      const adapter = new NatsAdapter(undefined, { codec: msgpackCodec });
+      await adapter.connect();
+
+      await adapter.publish('orders.created', { payload: { id: 7 } });
+      const [, data, { headers }] = mockConnection.publish.mock.calls[0];
+      mockConnection.subscribe.mockReturnValue({
+        unsubscribe: vi.fn(),
+        [Symbol.asyncIterator]: async function* () {
+          yield { data, headers };
+        }
+      });
+      const received = new Promise<any>(resolve => adapter.subscribe('orders.created', async message => resolve(message)));
+
+      expect(headers.get('content-type')).toBe('application/msgpack');
+      expect((await received).payload).toEqual({ id: 7 });
+    });
+  });
+
+  describe('JetStream mode', () => {
+    it('should create the stream on connect when subjects are given', async () => {
+      const adapter = new NatsAdapter(undefined, {
+        jetstream: { stream: 'ORDERS', subjects: ['orders.>'] }
+      });
+
+      await adapter.connect();
+
+      expect(mockManager.streams.add).toHaveBeenCalledWith({ name: 'ORDERS', subjects: ['orders.>'] });
+    });
+
+    it('should publish through JetStream with a dedup message id', async () => {
+      const adapter = new NatsAdapter(undefined, {
+        jetstream: { stream: 'ORDERS', msgIdHeader: 'x-message-id' }
+      });
+      await adapter.connect();
+
+      await adapter.publish('orders.created', {
+        payload: 'hello',
+        headers: { 'x-message-id': 'order-42' }
+      });
+
+      const [subject, , options] = mockJetStream.publish.mock.calls[0];
+      expect(subject).toBe('orders.created');
+      expect(options.msgID).toBe('order-42');
+      expect(mockConnection.publish).not.toHaveBeenCalled();
+    });
+
+    it('should not invent a message id when the message has none', async () => {
+      const adapter = new NatsAdapter(undefined, { jetstream: { stream: 'ORDERS', msgIdHeader: 'x-message-id' } });
+      await adapter.connect();
+
+      await adapter.publish('orders.created', { payload: 'hello' });
+
+      expect(mockJetStream.publish.mock.calls[0][2]).not.toHaveProperty('msgID');
+    });
+
+    it('should create a durable consumer per topic', async () => {
+      const adapter = new NatsAdapter(undefined, {
+        jetstream: { stream: 'ORDERS', durable: 'billing', ackWaitMs: 30000, maxDeliver: 5 }
+      });
+      await adapter.connect();
+
+      await adapter.subscribe('orders.*', vi.fn());
+
+      expect(mockManager.consumers.add).toHaveBeenCalledWith('ORDERS', expect.objectContaining({
+        durable_name: 'billing_orders__',
+        filter_subject: 'orders.*',
+        ack_wait: 30000 * 1_000_000,
+        max_deliver: 5
+      }));
+      expect(mockJetStream.consumers.get).toHaveBeenCalledWith('ORDERS', 'billing_orders__');
+    });
+
+    it('should map ack, nack and term to the JetStream message', async () => {
+      const jsMsg = {
+        data: new TextEncoder().encode('hello'),
+        headers: undefined,
+        ack: vi.fn(),
+        nak: vi.fn(),
+        term: vi.fn()
+      };
+      mockMessages[Symbol.asyncIterator] = async function* () {
+        yield jsMsg;
+      };
+
+      const adapter = new NatsAdapter(undefined, { jetstream: { stream: 'ORDERS', nakDelayMs: 2000 } });
+      await adapter.connect();
+
+      const handled = new Promise<void>((resolve) => {
+        adapter.subscribe('orders.created', async (message, controls: any) => {
+          expect(message.payload.toString()).toBe('hello');
+          await controls.ack();
+          await controls.nack(true);
+          await controls.nack();
+          await controls.term();
+          resolve();
+        });
+      });
+      await handled;
+
+      expect(jsMsg.ack).toHaveBeenCalled();
+      expect(jsMsg.nak).toHaveBeenCalledWith(2000);
+      expect(jsMsg.term).toHaveBeenCalledTimes(2);
+    });
+
+    it('should nak a message whose handler throws and keep consuming', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const createMsg = (text: string) => ({
+        data: new TextEncoder().encode(text),
+        headers: undefined,
+        ack: vi.fn(),
+        nak: vi.fn(),
+        term: vi.fn()
+      });
+      const failing = createMsg('bad');
+      const next = createMsg('good');
+      mockMessages[Symbol.asyncIterator] = async function* () {
+        yield failing;
+        yield next;
+      };
+
+      const adapter = new NatsAdapter(undefined, { jetstream: { stream: 'ORDERS', nakDelayMs: 500 } });
+      await adapter.connect();
+
+      const handled = new Promise<void>((resolve) => {
+        adapter.subscribe('orders.created', async (message, controls) => {
+          if (message.payload.toString() === 'bad') {
+            throw new Error('handler failed');
+          }
+          await controls.ack();
+          resolve();
+        });
+      });
+      await handled;
+
+      expect(failing.nak).toHaveBeenCalledWith(500);
+      expect(next.ack).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should stop the consumer on unsubscribe', async () => {
+      const adapter = new NatsAdapter(undefined, { jetstream: { stream: 'ORDERS' } });
+      await adapter.connect();
+      await adapter.subscribe('orders.created', vi.fn());
+
+      await adapter.unsubscribe('orders.created');
+
+      expect(mockMessages.stop).toHaveBeenCalled();
+    });
+  });
+
+  describe('reconnect', () => {
+    it('should relay the client reconnect cycle as adapter events', async () => {
+      mockConnection.status.mockReturnValue((async function* () {
+        yield { type: 'disconnect', data: 'nats://localhost:4222' };
+        yield { type: 'reconnecting', data: 'nats://localhost:4222' };
+        yield { type: 'reconnecting', data: 'nats://localhost:4222' };
+        yield { type: 'reconnect', data: 'nats://localhost:4222' };
+      })());
+      const adapter = new NatsAdapter();
+      const events: [string, unknown][] = [];
+      for (const name of ['disconnected', 'reconnecting', 'reconnected']) {
+        adapter.on(name, (event) => events.push([name, event]));
+      }
+
+      const reconnected = new Promise(resolve => adapter.once('reconnected', resolve));
+      await adapter.connect();
+      await reconnected;
+
+      expect(events).toEqual([
+        ['disconnected', {}],
+        ['reconnecting', { attempt: 1 }],
+        ['reconnecting', { attempt: 2 }],
+        ['reconnected', { attempts: 2 }]
+      ]);
+    });
+
+    it('should open a new connection and resubscribe once the client gives up', async () => {
+      const adapter = new NatsAdapter(undefined, { reconnect: { initialDelayMs: 1 } });
+      await adapter.connect();
+      await adapter.subscribe('orders.created', vi.fn());
+      const next = createMockConnection();
+      natsMocks.connect.mockResolvedValueOnce(next);
+
+      const disconnected = vi.fn();
+      adapter.on('disconnected', disconnected);
+      const reconnected = new Promise(resolve => adapter.once('reconnected', resolve));
+      mockConnection.giveUp(new Error('connection refused'));
+
+      await expect(reconnected).resolves.toEqual({ attempts: 1 });
+      expect(disconnected).toHaveBeenCalledWith({ error: new Error('connection refused') });
+      expect(next.subscribe).toHaveBeenCalledWith('orders.created');
+
+      await adapter.publish('orders.created', { payload: 'hello' });
+      expect(next.publish).toHaveBeenCalled();
+    });
+
+    it('should close the new connection and retry when resubscribing fails', async () => {
+      const adapter = new NatsAdapter(undefined, { reconnect: { initialDelayMs: 1 } });
+      await adapter.connect();
+      await adapter.subscribe('orders.created', vi.fn());
+      const failing = createMockConnection();
+      failing.subscribe.mockImplementation(() => { throw new Error('permissions violation'); });
+      const next = createMockConnection();
+      natsMocks.connect.mockResolvedValueOnce(failing).mockResolvedValueOnce(next);
+
+      const reconnected = new Promise(resolve => adapter.once('reconnected', resolve));
+      mockConnection.giveUp(new Error('connection refused'));
+
+      await expect(reconnected).resolves.toEqual({ attempts: 2 });
+      expect(failing.close).toHaveBeenCalled();
+      expect(next.subscribe).toHaveBeenCalledWith('orders.created');
+      await adapter.publish('orders.created', { payload: 'hello' });
+      expect(failing.publish).not.toHaveBeenCalled();
+      expect(next.publish).toHaveBeenCalled();
+    });
+
+    it('should close a connection opened while disconnecting', async () => {
+      const adapter = new NatsAdapter(undefined, { reconnect: { initialDelayMs: 1 } });
+      await adapter.connect();
+      let open!: (connection: any) => void;
+      const next = createMockConnection();
+      natsMocks.connect.mockReturnValueOnce(new Promise(resolve => { open = resolve; }));
+
+      const reconnecting = new Promise(resolve => adapter.once('reconnecting', resolve));
+      mockConnection.giveUp(new Error('connection refused'));
+      await reconnecting;
+      await vi.waitFor(() => expect(natsMocks.connect).toHaveBeenCalledTimes(2));
+      await adapter.disconnect();
+      open(next);
+      await vi.waitFor(() => expect(next.close).toHaveBeenCalled());
+
+      await expect(adapter.publish('orders.created', { payload: 'hello' })).rejects.toThrow();
+    });
+
+    it('should not reconnect after disconnect', async () => {
+      const adapter = new NatsAdapter(undefined, { reconnect: { initialDelayMs: 1 } });
+      const reconnecting = vi.fn();
+      adapter.on('reconnecting', reconnecting);
+      await adapter.connect();
+
+      await adapter.disconnect();
+      mockConnection.giveUp();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(reconnecting).not.toHaveBeenCalled();
+      expect(natsMocks.connect).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OutboxRelay } from '../../src/brokers/OutboxRelay';
+
+const row = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  topic: 'orders',
+  headers: { 'x-correlation-id': `corr-${id}` },
+  payload: Buffer.from(`payload-${id}`),
+  ordering_key: null,
+  dedup_key: null,
+  attempts: 0,
+  ...overrides
+});
+
+describe('OutboxRelay', () => {
+  let client: any;
+  let pool: any;
+  let adapter: any;
+  let pending: any[];
+  let locked: boolean;
+
+  const statements = () => client.query.mock.calls.map(([sql]: [string]) => sql.trim().split(/\s+/)[0]);
+  const updates = () => client.query.mock.calls.filter(([sql]: [string]) => sql.startsWith('UPDATE'));
+
+  beforeEach(() => {
+    pending = [];
+    locked = true;
+    client = {
+      query: vi.fn().mockImplementation(async (sql: string) => {
+        if (sql.includes('pg_try_advisory_xact_lock')) {
+          return { rows: [{ locked }] };
+        }
+        if (sql.startsWith('SELECT')) {
+          return { rows: pending };
+        }
+        return { rows: [], rowCount: 2 };
+      }),
+      release: vi.fn()
+    };
+    pool = { connect: vi.fn().mockResolvedValue(client) };
+    adapter = {
+      connect: vi.fn(),
+      disconnect: vi.fn(),
+      publish: vi.fn().mockResolvedValue(undefined),
+      subscribe: vi.fn()
+    };
+  });
+
+  describe('runOnce', () => {
+    it('should publish pending messages in a transaction and mark them published', async () => {
+      pending = [row('1', { dedup_key: 'order-1' }), row('2')];
+      const relay = new OutboxRelay(pool, adapter);
+      const published = vi.fn();
+      relay.on('published', published);
+
+      await expect(relay.runOnce()).resolves.toBe(2);
+
+      expect(adapter.publish).toHaveBeenNthCalledWith(1, 'orders', {
+        payload: Buffer.from('payload-1'),
+        headers: { 'x-correlation-id': 'corr-1', 'x-dedup-key': 'order-1' }
+      });
+      expect(adapter.publish).toHaveBeenNthCalledWith(2, 'orders', {
+        payload: Buffer.from('payload-2'),
+        headers: { 'x-correlation-id': 'corr-2' }
+      });
+      expect(statements()).toEqual(['BEGIN', 'SELECT', 'SELECT', 'UPDATE', 'COMMIT']);
+      expect(updates()[0][1]).toEqual([['1', '2']]);
+      expect(published).toHaveBeenCalledWith({ id: '1', topic: 'orders' });
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should do nothing while another relay holds the lock', async () => {
+      locked = false;
+      pending = [row('1')];
+
+      await expect(new OutboxRelay(pool, adapter).runOnce()).resolves.toBe(0);
+
+      expect(adapter.publish).not.toHaveBeenCalled();
+      expect(statements()).toEqual(['BEGIN', 'SELECT', 'COMMIT']);
+    });
+
+    it('should schedule a retry with backoff and hold back the same ordering key', async () => {
+      pending = [
+        row('1', { ordering_key: 'order-1', attempts: 1 }),
+        row('2', { ordering_key: 'order-1' }),
+        row('3', { ordering_key: 'order-2' })
+      ];
+      adapter.publish.mockRejectedValueOnce(new Error('broker down'));
+      const relay = new OutboxRelay(pool, adapter, { retry: { initialDelayMs: 500, factor: 3 } });
+      const retry = vi.fn();
+      relay.on('retry', retry);
+
+      await expect(relay.runOnce()).resolves.toBe(1);
+
+      expect(adapter.publish).toHaveBeenCalledTimes(2);
+      expect(adapter.publish.mock.calls[1][1].payload.toString()).toBe('payload-3');
+      expect(updates()[0][1]).toEqual(['1', 2, 'broker down', 1.5]);
+      expect(updates()[1][1]).toEqual([['3']]);
+      expect(retry).toHaveBeenCalledWith(expect.objectContaining({ id: '1', attempts: 2, delayMs: 1500 }));
+    });
+
+    it('should only read messages that are due and not held back by their ordering key', async () => {
+      await new OutboxRelay(pool, adapter, { batchSize: 50 }).runOnce();
+
+      const [sql, params] = client.query.mock.calls.find(([query]: [string]) => query.includes('LIMIT'));
+      // Waiting messages are left out in SQL so that they cannot fill the batch.
+      expect(sql).toContain('next_attempt_at <= now()');
+      expect(sql).toMatch(/NOT EXISTS \(\s*SELECT 1 FROM "syntropylog_outbox" AS earlier/);
+      expect(sql).toContain('earlier.ordering_key = message.ordering_key');
+      expect(sql).toContain('earlier.id < message.id');
+      expect(sql).toContain('earlier.failed_at IS NOT NULL OR earlier.next_attempt_at > now()');
+      expect(params).toEqual([50]);
+    });
+
+    it('should mark a message as failed once its attempts are exhausted and hold back its ordering key', async () => {
+      pending = [row('1', { ordering_key: 'order-1', attempts: 2 }), row('2', { ordering_key: 'order-1' })];
+      adapter.publish.mockRejectedValueOnce(new Error('rejected'));
+      const relay = new OutboxRelay(pool, adapter, { retry: { maxAttempts: 3 } });
+      const failed = vi.fn();
+      relay.on('failed', failed);
+
+      await relay.runOnce();
+
+      expect(updates()[0][0]).toContain('failed_at = now()');
+      expect(updates()[0][1]).toEqual(['1', 3, 'rejected']);
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({ id: '1', attempts: 3 }));
+      // The next message of the key waits until the failed one is resolved.
+      expect(adapter.publish).toHaveBeenCalledTimes(1);
+      expect(updates()).toHaveLength(1);
+    });
+
+    it('should roll back and not report published messages when the commit fails', async () => {
+      pending = [row('1')];
+      const query = client.query.getMockImplementation();
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql === 'COMMIT') {
+          throw new Error('commit failed');
+        }
+        return query(sql);
+      });
+      const relay = new OutboxRelay(pool, adapter);
+      const published = vi.fn();
+      relay.on('published', published);
+
+      await expect(relay.runOnce()).rejects.toThrow('commit failed');
+
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(published).not.toHaveBeenCalled();
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should emit retry and failed events only after the commit', async () => {
+      pending = [row('1'), row('2', { attempts: 9 })];
+      adapter.publish.mockRejectedValue(new Error('broker down'));
+      const relay = new OutboxRelay(pool, adapter);
+      const emitted: string[] = [];
+      relay.on('retry', () => emitted.push(`retry after ${statements().at(-1)}`));
+      relay.on('failed', () => emitted.push(`failed after ${statements().at(-1)}`));
+
+      await relay.runOnce();
+
+      expect(emitted).toEqual(['retry after COMMIT', 'failed after COMMIT']);
+    });
+
+    it('should not emit retry events when the commit fails', async () => {
+      pending = [row('1')];
+      adapter.publish.mockRejectedValueOnce(new Error('broker down'));
+      const query = client.query.getMockImplementation();
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql === 'COMMIT') {
+          throw new Error('commit failed');
+        }
+        return query(sql);
+      });
+      const relay = new OutboxRelay(pool, adapter);
+      const retry = vi.fn();
+      relay.on('retry', retry);
+
+      await expect(relay.runOnce()).rejects.toThrow('commit failed');
+
+      expect(retry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retryFailed/discardFailed', () => {
+    it('should reset a failed message for publishing', async () => {
+      const relay = new OutboxRelay(pool, adapter);
+
+      await expect(relay.retryFailed('1')).resolves.toBe(true);
+
+      const [[sql, params]] = updates();
+      expect(sql).toContain('SET failed_at = NULL, attempts = 0, next_attempt_at = now()');
+      expect(sql).toContain('failed_at IS NOT NULL');
+      expect(params).toEqual(['1']);
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should delete a failed message and report unknown ids', async () => {
+      client.query.mockResolvedValueOnce({ rows: [], rowCount: 0 });
+      const relay = new OutboxRelay(pool, adapter);
+
+      await expect(relay.discardFailed('404')).resolves.toBe(false);
+
+      expect(client.query).toHaveBeenCalledWith(
+        'DELETE FROM "syntropylog_outbox" WHERE id = $1 AND failed_at IS NOT NULL',
+        ['404']
+      );
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('start/stop', () => {
+    it('should poll until stopped', async () => {
+      pending = [row('1')];
+      const relay = new OutboxRelay(pool, adapter, { pollIntervalMs: 5 });
+      const published = new Promise(resolve => relay.once('published', resolve));
+
+      relay.start();
+      relay.start();
+      await published;
+      pending = [];
+      await relay.stop();
+
+      expect(pool.connect).toHaveBeenCalled();
+      expect(adapter.publish).toHaveBeenCalled();
+    });
+  });
+
+  describe('prune', () => {
+    it('should delete published messages older than the given age', async () => {
+      await expect(new OutboxRelay(pool, adapter, { table: 'messaging.outbox' }).prune(3600000)).resolves.toBe(2);
+
+      expect(client.query).toHaveBeenCalledWith(
+        'DELETE FROM "messaging"."outbox" WHERE published_at < now() - make_interval(secs => $1)',
+        [3600]
+      );
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const pgMocks = vi.hoisted(() => ({
+  clients: [] as any[],
+  onCreate: undefined as ((client: any) => void) | undefined
+}));
+
+vi.mock('pg', async () => {
+  const { EventEmitter } = await import('events');
+  class Client extends EventEmitter {
+    config: unknown;
+    connect = vi.fn().mockResolvedValue(undefined);
+    end = vi.fn().mockImplementation(async () => {
+      this.emit('end');
+    });
+    query = vi.fn().mockResolvedValue({ rows: [], rowCount: 0 });
+    escapeIdentifier = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+    constructor(config: unknown) {
+      super();
+      this.config = config;
+      pgMocks.clients.push(this);
+      pgMocks.onCreate?.(this);
+    }
+  }
+  return { Client };
+});
+
+import { PostgresNotifyAdapter } from '../../src/brokers/PostgresNotifyAdapter';
+
+describe('PostgresNotifyAdapter', () => {
+  let adapter: PostgresNotifyAdapter;
+  const client = () => pgMocks.clients[pgMocks.clients.length - 1];
+  const notifyCalls = () => client().query.mock.calls.filter(([sql]: [string]) => sql === 'SELECT pg_notify($1, $2)');
+  const notify = async (channel: string, payload: string) => {
+    client().emit('notification', { processId: 1, channel, payload });
+    await new Promise(resolve => setImmediate(resolve));
+  };
+
+  beforeEach(async () => {
+    pgMocks.clients.length = 0;
+    pgMocks.onCreate = undefined;
+    adapter = new PostgresNotifyAdapter('postgres://localhost/app', { reconnect: false });
+    await adapter.connect();
+  });
+
+  describe('connect', () => {
+    it('should connect once and create the outbox table', async () => {
+      await adapter.connect();
+
+      expect(pgMocks.clients).toHaveLength(1);
+      expect(client().config).toBe('postgres://localhost/app');
+      expect(client().query.mock.calls[0][0]).toContain('CREATE TABLE IF NOT EXISTS "syntropylog_notify_outbox"');
+    });
+
+    it('should quote schema-qualified outbox tables and allow skipping creation', async () => {
+      const custom = new PostgresNotifyAdapter('postgres://localhost/app', {
+        outboxTable: 'messaging.outbox',
+        createOutboxTable: false
+      });
+      await custom.connect();
+
+      expect(client().query).not.toHaveBeenCalled();
+
+      const qualified = new PostgresNotifyAdapter('postgres://localhost/app', { outboxTable: 'messaging.outbox' });
+      await qualified.connect();
+      expect(client().query.mock.calls[0][0]).toContain('"messaging"."outbox"');
+    });
+  });
+
+  describe('publish', () => {
+    it('should throw if not connected', async () => {
+      await expect(new PostgresNotifyAdapter('postgres://localhost/app').publish('orders', { payload: 'x' }))
+        .rejects.toThrow('Postgres connection is not available. Please connect first.');
+    });
+
+    it('should encode payload and headers into the notification', async () => {
+      await adapter.publish('orders.created', {
+        payload: Buffer.from('hello'),
+        headers: { 'x-correlation-id': 'corr-1', 'x-trace-id': Buffer.from('trace-1') }
+      });
+
+      const [[, [channel, payload]]] = notifyCalls();
+      expect(channel).toBe('orders.created');
+      expect(JSON.parse(payload)).toEqual({
+        headers: { 'x-correlation-id': 'corr-1', 'x-trace-id': 'trace-1' },
+        payload: Buffer.from('hello').toString('base64')
+      });
+    });
+
+    it('should map channel names with a prefix, a custom mapper or a hash when too long', async () => {
+      const prefixed = new PostgresNotifyAdapter('postgres://localhost/app', { channelPrefix: 'billing_' });
+      await prefixed.connect();
+      await prefixed.publish('invoice', { payload: 'x' });
+      await prefixed.publish('a'.repeat(100), { payload: 'x' });
+      const [[, [short]], [, [long]]] = notifyCalls();
+
+      const mapped = new PostgresNotifyAdapter('postgres://localhost/app', { channelFor: topic => topic.replace(/\./g, '_') });
+      await mapped.connect();
+      await mapped.publish('orders.created', { payload: 'x' });
+
+      expect(short).toBe('billing_invoice');
+      expect(long).toHaveLength(63);
+      expect(long).toMatch(/^billing_a+_[0-9a-f]{8}$/);
+      expect(notifyCalls()[0][1][0]).toBe('orders_created');
+    });
+
+    it('should store large messages in the outbox and notify the row id', async () => {
+      client().query.mockImplementation(async (sql: string) =>
+        sql.startsWith('INSERT') ? { rows: [{ id: '42' }] } : { rows: [] }
+      );
+      const payload = Buffer.alloc(8000, 1);
+
+      await adapter.publish('reports', { payload, headers: { 'x-correlation-id': 'corr-1' } });
+
+      const insert = client().query.mock.calls.find(([sql]: [string]) => sql.startsWith('INSERT'));
+      expect(insert[0]).toContain('INSERT INTO "syntropylog_notify_outbox" (channel, headers, payload)');
+      expect(insert[1]).toEqual(['reports', '{"x-correlation-id":"corr-1"}', payload]);
+      expect(notifyCalls()[0][1]).toEqual(['reports', '{"outboxId":"42"}']);
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should LISTEN on the quoted channel and deliver decoded messages', async () => {
+      const handler = vi.fn();
+      await adapter.subscribe('orders.created', handler);
+
+      const payload = JSON.stringify({ headers: { 'x-correlation-id': 'corr-1' }, payload: Buffer.from('hi').toString('base64') });
+      await notify('orders.created', payload);
+      await notify('other', payload);
+
+      expect(client().query).toHaveBeenCalledWith('LISTEN "orders.created"');
+      expect(handler).toHaveBeenCalledTimes(1);
+      const [message, controls] = handler.mock.calls[0];
+      expect(message.payload.toString()).toBe('hi');
+      expect(message.headers).toEqual({ 'x-correlation-id': 'corr-1' });
+      await expect(controls.ack()).resolves.toBeUndefined();
+    });
+
+    it('should read outbox rows referenced by a notification', async () => {
+      const handler = vi.fn();
+      await adapter.subscribe('reports', handler);
+      client().query.mockResolvedValue({ rows: [{ headers: { 'x-correlation-id': 'corr-1' }, payload: Buffer.from('big') }] });
+
+      await notify('reports', '{"outboxId":"42"}');
+
+      expect(client().query).toHaveBeenLastCalledWith(
+        'SELECT headers, payload FROM "syntropylog_notify_outbox" WHERE id = $1',
+        ['42']
+      );
+      expect(handler.mock.calls[0][0]).toEqual({ payload: Buffer.from('big'), headers: { 'x-correlation-id': 'corr-1' } });
+    });
+
+    it('should ignore notifications that are not envelopes', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const handler = vi.fn();
+      await adapter.subscribe('orders', handler);
+
+      await notify('orders', 'plain text');
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it('should UNLISTEN on unsubscribe', async () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const handler = vi.fn();
+      await adapter.subscribe('orders', handler);
+
+      await adapter.unsubscribe('orders');
+      await notify('orders', JSON.stringify({ headers: {}, payload: '' }));
+
+      expect(client().query).toHaveBeenCalledWith('UNLISTEN "orders"');
+      expect(handler).not.toHaveBeenCalled();
+      logSpy.mockRestore();
+    });
+  });
+
+  describe('pruneOutbox', () => {
+    it('should delete rows older than the given age', async () => {
+      client().query.mockResolvedValue({ rows: [], rowCount: 3 });
+
+      await expect(adapter.pruneOutbox(60000)).resolves.toBe(3);
+      expect(client().query).toHaveBeenLastCalledWith(
+        'DELETE FROM "syntropylog_notify_outbox" WHERE created_at < now() - make_interval(secs => $1)',
+        [60]
+      );
+    });
+  });
+
+  describe('reconnect', () => {
+    it('should reconnect and LISTEN again after the connection ends', async () => {
+      const reconnecting = new PostgresNotifyAdapter('postgres://localhost/app', { reconnect: { initialDelayMs: 1 } });
+      await reconnecting.connect();
+      await reconnecting.subscribe('orders', vi.fn());
+      const first = client();
+      const reconnected = new Promise(resolve => reconnecting.once('reconnected', resolve));
+      const disconnected = vi.fn();
+      reconnecting.on('disconnected', disconnected);
+
+      first.emit('end');
+      await reconnected;
+
+      expect(disconnected).toHaveBeenCalled();
+      expect(client()).not.toBe(first);
+      expect(client().query).toHaveBeenCalledWith('LISTEN "orders"');
+      await reconnecting.disconnect();
+    });
+
+    it('should end the new connection and retry when LISTEN fails', async () => {
+      const reconnecting = new PostgresNotifyAdapter('postgres://localhost/app', { reconnect: { initialDelayMs: 1 } });
+      await reconnecting.connect();
+      await reconnecting.subscribe('orders', vi.fn());
+      const first = client();
+      const reconnected = new Promise(resolve => reconnecting.once('reconnected', resolve));
+      // Fails the LISTEN of the connection opened by the first attempt.
+      pgMocks.onCreate = (created) => {
+        pgMocks.onCreate = undefined;
+        created.query.mockImplementation(async (sql: string) => {
+          if (sql.startsWith('LISTEN')) {
+            throw new Error('permission denied');
+          }
+          return { rows: [], rowCount: 0 };
+        });
+      };
+
+      first.emit('end');
+
+      await expect(reconnected).resolves.toEqual({ attempts: 2 });
+      const failed = pgMocks.clients[pgMocks.clients.length - 2];
+      expect(failed).not.toBe(first);
+      expect(failed.end).toHaveBeenCalled();
+      expect(client().query).toHaveBeenCalledWith('LISTEN "orders"');
+      await reconnecting.publish('orders', { payload: 'x' });
+      expect(failed.query).not.toHaveBeenCalledWith('SELECT pg_notify($1, $2)', expect.anything());
+      await reconnecting.disconnect();
+    });
+
+    it('should end a connection opened while disconnecting', async () => {
+      const reconnecting = new PostgresNotifyAdapter('postgres://localhost/app', { reconnect: { initialDelayMs: 1 } });
+      await reconnecting.connect();
+      let open!: () => void;
+      pgMocks.onCreate = (created) => {
+        pgMocks.onCreate = undefined;
+        created.connect.mockReturnValue(new Promise<void>(resolve => { open = resolve; }));
+      };
+
+      client().emit('end');
+      await vi.waitFor(() => expect(pgMocks.clients).toHaveLength(3));
+      await reconnecting.disconnect();
+      open();
+
+      await vi.waitFor(() => expect(client().end).toHaveBeenCalled());
+      await expect(reconnecting.publish('orders', { payload: 'x' })).rejects.toThrow();
+    });
+
+    it('should not reconnect after disconnect', async () => {
+      const disconnected = vi.fn();
+      adapter.on('disconnected', disconnected);
+
+      await adapter.disconnect();
+      await adapter.disconnect();
+
+      expect(disconnected).not.toHaveBeenCalled();
+      expect(pgMocks.clients).toHaveLength(1);
+      expect(client().end).toHaveBeenCalledTimes(1);
+    });
+  });
+});
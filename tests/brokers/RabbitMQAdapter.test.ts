@@ -0,0 +1,399 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+
+const amqpMocks = vi.hoisted(() => ({
+  connect: vi.fn()
+}));
+
+vi.mock('amqplib', () => ({ connect: amqpMocks.connect }));
+
+import { RabbitMQAdapter, RabbitMQReturnedMessageError } from '../../src/brokers/RabbitMQAdapter';
+import { cborCodec, jsonCodec } from '../../src/brokers/codecs';
+
+describe('RabbitMQAdapter', () => {
+  let mockConnection: any;
+  let mockChannel: any;
+
+  beforeEach(() => {
+    mockChannel = Object.assign(new EventEmitter(), {
+      assertExchange: vi.fn().mockResolvedValue({}),
+      assertQueue: vi.fn().mockImplementation(async (name: string) => ({ queue: name || 'amq.gen-1' })),
+      bindQueue: vi.fn().mockResolvedValue({}),
+      prefetch: vi.fn().mockResolvedValue({}),
+      consume: vi.fn().mockResolvedValue({ consumerTag: 'ctag-1' }),
+      publish: vi.fn().mockReturnValue(true),
+      ack: vi.fn(),
+      nack: vi.fn(),
+      cancel: vi.fn().mockResolvedValue({}),
+      close: vi.fn().mockResolvedValue(undefined)
+    });
+    mockConnection = Object.assign(new EventEmitter(), {
+      createChannel: vi.fn().mockResolvedValue(mockChannel),
+      createConfirmChannel: vi.fn().mockResolvedValue(mockChannel),
+      close: vi.fn().mockResolvedValue(undefined)
+    });
+    amqpMocks.connect.mockReset();
+    amqpMocks.connect.mockResolvedValue(mockConnection);
+  });
+
+  describe('connect', () => {
+    it('should assert a durable topic exchange by default', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost');
+
+      await adapter.connect();
+
+      expect(mockChannel.assertExchange).toHaveBeenCalledWith('topic_logs', 'topic', { durable: true });
+    });
+
+    it('should assert the configured exchange type', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost', 'events', { exchangeType: 'fanout' });
+
+      await adapter.connect();
+
+      expect(mockChannel.assertExchange).toHaveBeenCalledWith('events', 'fanout', { durable: true });
+    });
+  });
+
+  describe('publish', () => {
+    it('should throw if not connected', async () => {
+      await expect(new RabbitMQAdapter('amqp://localhost').publish('orders', { payload: Buffer.from('x') }))
+        .rejects.toThrow('RabbitMQ channel is not available. Please connect first.');
+    });
+
+    it('should wait for drain when the write buffer is full', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost');
+      await adapter.connect();
+      mockChannel.publish.mockReturnValueOnce(false);
+
+      let resolved = false;
+      const publishing = adapter.publish('orders', { payload: Buffer.from('x') }).then(() => { resolved = true; });
+      await new Promise(resolve => setImmediate(resolve));
+      expect(resolved).toBe(false);
+
+      mockChannel.emit('drain');
+      await publishing;
+      expect(resolved).toBe(true);
+    });
+
+    it('should await the broker confirm on a confirm channel', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost', 'topic_logs', { confirm: true });
+      await adapter.connect();
+      mockChannel.publish.mockImplementation((_ex: string, _rk: string, _content: Buffer, _options: any, cb: any) => {
+        setImmediate(() => cb(null));
+        return true;
+      });
+
+      await adapter.publish('orders', { payload: Buffer.from('x') });
+
+      expect(mockConnection.createConfirmChannel).toHaveBeenCalled();
+      expect(mockConnection.createChannel).not.toHaveBeenCalled();
+    });
+
+    it('should not leave the confirm unhandled when the channel closes during a drain', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost', 'topic_logs', { confirm: true });
+      await adapter.connect();
+      let confirm: any;
+      mockChannel.publish.mockImplementation((_ex: string, _rk: string, _content: Buffer, _options: any, cb: any) => {
+        confirm = cb;
+        return false;
+      });
+      const unhandled = vi.fn();
+      process.on('unhandledRejection', unhandled);
+
+      const publishing = adapter.publish('orders', { payload: Buffer.from('x') });
+      mockChannel.emit('close');
+      confirm(new Error('channel closed'));
+
+      await expect(publishing).rejects.toThrow('RabbitMQ channel closed while waiting for the write buffer to drain.');
+      await new Promise(resolve => setTimeout(resolve, 10));
+      process.off('unhandledRejection', unhandled);
+      expect(unhandled).not.toHaveBeenCalled();
+    });
+
+    it('should reject when the broker nacks the message', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost', 'topic_logs', { confirm: true });
+      await adapter.connect();
+      mockChannel.publish.mockImplementation((_ex: string, _rk: string, _content: Buffer, _options: any, cb: any) => {
+        setImmediate(() => cb(new Error('message nacked')));
+        return true;
+      });
+
+      await expect(adapter.publish('orders', { payload: Buffer.from('x') })).rejects.toThrow('message nacked');
+    });
+
+    it('should reject unroutable mandatory messages with the returned error', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost', 'topic_logs', { confirm: true, mandatory: true });
+      await adapter.connect();
+      mockChannel.publish.mockImplementation((_ex: string, routingKey: string, content: Buffer, options: any, cb: any) => {
+        setImmediate(() => {
+          mockChannel.emit('return', {
+            content,
+            fields: { exchange: 'topic_logs', routingKey, replyCode: 312, replyText: 'NO_ROUTE' },
+            properties: { messageId: options.messageId }
+          });
+          cb(null);
+        });
+        return true;
+      });
+
+      const error = await adapter.publish('nowhere', { payload: Buffer.from('x') }).catch(e => e);
+
+      expect(mockChannel.publish.mock.calls[0][3]).toMatchObject({ mandatory: true, messageId: expect.any(String) });
+      expect(error).toBeInstanceOf(RabbitMQReturnedMessageError);
+      expect(error).toMatchObject({ routingKey: 'nowhere', replyCode: 312, replyText: 'NO_ROUTE' });
+    });
+
+    it('should hand returns to onReturn without a confirm channel', async () => {
+      const onReturn = vi.fn();
+      const adapter = new RabbitMQAdapter('amqp://localhost', 'topic_logs', { mandatory: true, onReturn });
+      await adapter.connect();
+
+      await adapter.publish('nowhere', { payload: Buffer.from('x') });
+      mockChannel.emit('return', {
+        content: Buffer.from('x'),
+        fields: { exchange: 'topic_logs', routingKey: 'nowhere', replyCode: 312, replyText: 'NO_ROUTE' },
+        properties: { messageId: mockChannel.publish.mock.calls[0][3].messageId }
+      });
+
+      expect(onReturn).toHaveBeenCalledWith(expect.any(RabbitMQReturnedMessageError));
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should use an anonymous exclusive queue by default', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost');
+      await adapter.connect();
+
+      await adapter.subscribe('orders.*', vi.fn());
+
+      expect(mockChannel.assertQueue).toHaveBeenCalledWith('', { exclusive: true });
+      expect(mockChannel.bindQueue).toHaveBeenCalledWith('amq.gen-1', 'topic_logs', 'orders.*', undefined);
+      expect(mockChannel.prefetch).not.toHaveBeenCalled();
+    });
+
+    it('should share a named durable queue with queue arguments and prefetch', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost', 'topic_logs', {
+        subscription: { prefetch: 5 }
+      });
+      await adapter.connect();
+
+      await adapter.subscribe('orders.created', vi.fn(), {
+        queue: 'billing.orders',
+        messageTtl: 60000,
+        maxLength: 1000,
+        deadLetterExchange: 'dlx',
+        deadLetterRoutingKey: 'orders.dead'
+      });
+
+      expect(mockChannel.assertQueue).toHaveBeenCalledWith('billing.orders', {
+        durable: true,
+        autoDelete: false,
+        arguments: {
+          'x-message-ttl': 60000,
+          'x-max-length': 1000,
+          'x-dead-letter-exchange': 'dlx',
+          'x-dead-letter-routing-key': 'orders.dead'
+        }
+      });
+      expect(mockChannel.bindQueue).toHaveBeenCalledWith('billing.orders', 'topic_logs', 'orders.created', undefined);
+      expect(mockChannel.prefetch).toHaveBeenCalledWith(5, false);
+      expect(mockChannel.prefetch.mock.invocationCallOrder[0])
+        .toBeLessThan(mockChannel.consume.mock.invocationCallOrder[0]);
+    });
+
+    it('should scope prefetch to each consumer and reset it for consumers without one', async () => {
+      const calls: string[] = [];
+      mockChannel.prefetch.mockImplementation(async (count: number, global: boolean) => {
+        calls.push(`prefetch ${count},${global}`);
+      });
+      mockChannel.consume.mockImplementation(async (queue: string) => {
+        calls.push(`consume ${queue}`);
+        return { consumerTag: `ctag-${queue}` };
+      });
+      const adapter = new RabbitMQAdapter('amqp://localhost');
+      await adapter.connect();
+
+      await Promise.all([
+        adapter.subscribe('orders.created', vi.fn(), { queue: 'billing.orders', prefetch: 5 }),
+        adapter.subscribe('orders.paid', vi.fn(), { queue: 'billing.payments', prefetch: 5 }),
+        adapter.subscribe('audit.#', vi.fn())
+      ]);
+
+      expect(calls).toEqual([
+        'prefetch 5,false', 'consume billing.orders',
+        'consume billing.payments',
+        'prefetch 0,false', 'consume amq.gen-1'
+      ]);
+    });
+
+    it('should pass binding arguments for headers exchanges', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost', 'by_headers', { exchangeType: 'headers' });
+      await adapter.connect();
+
+      await adapter.subscribe('', vi.fn(), { queue: 'eu-orders', bindingArguments: { 'x-match': 'all', region: 'eu' } });
+
+      expect(mockChannel.bindQueue).toHaveBeenCalledWith('eu-orders', 'by_headers', '', { 'x-match': 'all', region: 'eu' });
+    });
+
+    it('should map ack and nack to the channel', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost');
+      await adapter.connect();
+      const handler = vi.fn(async (_message, controls) => {
+        await controls.ack();
+        await controls.nack(true);
+      });
+
+      await adapter.subscribe('orders.*', handler);
+      const onMessage = mockChannel.consume.mock.calls[0][1];
+      const msg = { content: Buffer.from('hello'), properties: { headers: { 'x-id': '1' } } };
+      await onMessage(msg);
+
+      expect(handler.mock.calls[0][0]).toEqual({ payload: Buffer.from('hello'), headers: { 'x-id': '1' } });
+      expect(mockChannel.ack).toHaveBeenCalledWith(msg);
+      expect(mockChannel.nack).toHaveBeenCalledWith(msg, false, true);
+    });
+
+    it('should encode and decode payloads with the codec of the routing key', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost', 'topic_logs', {
+        codec: { topics: { 'sensors.raw': cborCodec } }
+      });
+      await adapter.connect();
+      const handler = vi.fn();
+
+      await adapter.publish('sensors.raw', { payload: { temperature: 21.5 } });
+      await adapter.subscribe('sensors.raw', handler);
+      const [, , content, { headers }] = mockChannel.publish.mock.calls[0];
+      await mockChannel.consume.mock.calls[0][1]({ content, properties: { headers } });
+
+      expect(headers['content-type']).toBe('application/cbor');
+      expect(handler.mock.calls[0][0].payload).toEqual({ temperature: 21.5 });
+    });
+
+    it('should nack the delivery without calling the handler when the payload cannot be decoded', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const adapter = new RabbitMQAdapter('amqp://localhost', 'topic_logs', { codec: jsonCodec });
+      await adapter.connect();
+      const handler = vi.fn();
+
+      await adapter.subscribe('orders.*', handler);
+      const onMessage = mockChannel.consume.mock.calls[0][1];
+      const msg = { content: Buffer.from('{'), fields: { redelivered: false }, properties: { headers: {} } };
+
+      await expect(onMessage(msg)).resolves.toBeUndefined();
+      expect(handler).not.toHaveBeenCalled();
+      expect(mockChannel.nack).toHaveBeenCalledWith(msg, false, true);
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('orders.*'), expect.any(SyntaxError));
+      errorSpy.mockRestore();
+    });
+
+    it('should requeue a message whose handler throws once, then dead-letter it', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const adapter = new RabbitMQAdapter('amqp://localhost');
+      await adapter.connect();
+      await adapter.subscribe('orders.*', async () => { throw new Error('handler failed'); });
+      const onMessage = mockChannel.consume.mock.calls[0][1];
+      const first = { content: Buffer.from('x'), fields: { redelivered: false }, properties: { headers: {} } };
+      const redelivered = { ...first, fields: { redelivered: true } };
+
+      await expect(onMessage(first)).resolves.toBeUndefined();
+      await expect(onMessage(redelivered)).resolves.toBeUndefined();
+
+      expect(mockChannel.nack).toHaveBeenNthCalledWith(1, first, false, true);
+      expect(mockChannel.nack).toHaveBeenNthCalledWith(2, redelivered, false, false);
+      expect(errorSpy).toHaveBeenCalledTimes(2);
+      errorSpy.mockRestore();
+    });
+
+    it('should not settle a message again when its handler throws after acking', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const adapter = new RabbitMQAdapter('amqp://localhost');
+      await adapter.connect();
+      await adapter.subscribe('orders.*', async (_message, controls) => {
+        await controls.ack();
+        throw new Error('handler failed');
+      });
+      const onMessage = mockChannel.consume.mock.calls[0][1];
+      const msg = { content: Buffer.from('x'), fields: { redelivered: false }, properties: { headers: {} } };
+
+      await onMessage(msg);
+
+      expect(mockChannel.ack).toHaveBeenCalledWith(msg);
+      expect(mockChannel.nack).not.toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('reconnect', () => {
+    const nextConnection = () => {
+      const channel = Object.assign(new EventEmitter(), {
+        assertExchange: vi.fn().mockResolvedValue({}),
+        assertQueue: vi.fn().mockResolvedValue({ queue: 'billing.orders' }),
+        bindQueue: vi.fn().mockResolvedValue({}),
+        prefetch: vi.fn().mockResolvedValue({}),
+        consume: vi.fn().mockResolvedValue({ consumerTag: 'ctag-2' }),
+        publish: vi.fn().mockReturnValue(true),
+        close: vi.fn().mockResolvedValue(undefined)
+      });
+      const connection = Object.assign(new EventEmitter(), {
+        createChannel: vi.fn().mockResolvedValue(channel),
+        close: vi.fn().mockResolvedValue(undefined)
+      });
+      return { connection, channel };
+    };
+
+    it('should reconnect and replay subscriptions after the connection closes', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost', 'topic_logs', { reconnect: { initialDelayMs: 1 } });
+      const events: string[] = [];
+      for (const name of ['disconnected', 'reconnecting', 'reconnected']) {
+        adapter.on(name, () => events.push(name));
+      }
+      await adapter.connect();
+      await adapter.subscribe('orders.created', vi.fn(), { queue: 'billing.orders' });
+      const next = nextConnection();
+      amqpMocks.connect.mockResolvedValueOnce(next.connection);
+
+      const reconnected = new Promise(resolve => adapter.once('reconnected', resolve));
+      mockConnection.emit('close', new Error('CONNECTION_FORCED'));
+      await reconnected;
+
+      expect(events).toEqual(['disconnected', 'reconnecting', 'reconnected']);
+      expect(next.channel.assertExchange).toHaveBeenCalledWith('topic_logs', 'topic', { durable: true });
+      expect(next.channel.assertQueue).toHaveBeenCalledWith('billing.orders', expect.objectContaining({ durable: true }));
+      expect(next.channel.consume).toHaveBeenCalled();
+      await adapter.publish('orders.created', { payload: Buffer.from('x') });
+      expect(next.channel.publish).toHaveBeenCalled();
+    });
+
+    it('should retry with backoff until the broker is back', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost', 'topic_logs', { reconnect: { initialDelayMs: 1 } });
+      const attempts: number[] = [];
+      adapter.on('reconnecting', ({ attempt }) => attempts.push(attempt));
+      await adapter.connect();
+      amqpMocks.connect.mockRejectedValueOnce(new Error('ECONNREFUSED')).mockResolvedValueOnce(nextConnection().connection);
+
+      const reconnected = new Promise(resolve => adapter.once('reconnected', resolve));
+      mockChannel.emit('close');
+
+      await expect(reconnected).resolves.toEqual({ attempts: 2 });
+      expect(attempts).toEqual([1, 2]);
+    });
+
+    it('should not reconnect after disconnect or when disabled', async () => {
+      const adapter = new RabbitMQAdapter('amqp://localhost');
+      const disabled = new RabbitMQAdapter('amqp://localhost', 'topic_logs', { reconnect: false });
+      const reconnecting = vi.fn();
+      adapter.on('reconnecting', reconnecting);
+      disabled.on('reconnecting', reconnecting);
+
+      await adapter.connect();
+      await adapter.disconnect();
+      mockConnection.emit('close');
+      await disabled.connect();
+      mockConnection.emit('close');
+
+      expect(reconnecting).not.toHaveBeenCalled();
+      await expect(disabled.publish('orders', { payload: Buffer.from('x') }))
+        .rejects.toThrow('RabbitMQ channel is not available. Please connect first.');
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RedisStreamsAdapter } from '../../src/brokers/RedisStreamsAdapter';
+
+describe('RedisStreamsAdapter', () => {
+  let adapter: RedisStreamsAdapter;
+  let mockRedis: any;
+  let mockReader: any;
+
+  beforeEach(() => {
+    mockReader = {
+      callBuffer: vi.fn(),
+      disconnect: vi.fn()
+    };
+
+    mockRedis = {
+      status: 'ready',
+      connect: vi.fn().mockResolvedValue(undefined),
+      quit: vi.fn().mockResolvedValue('OK'),
+      xadd: vi.fn().mockResolvedValue('1-0'),
+      xack: vi.fn().mockResolvedValue(1),
+      xgroup: vi.fn().mockResolvedValue('OK'),
+      duplicate: vi.fn().mockReturnValue(mockReader)
+    };
+
+    adapter = new RedisStreamsAdapter(mockRedis, { groupName: 'workers', consumerName: 'worker-1' });
+  });
+
+  describe('connect', () => {
+    it('should connect lazily created clients', async () => {
+      mockRedis.status = 'wait';
+
+      await adapter.connect();
+
+      expect(mockRedis.connect).toHaveBeenCalled();
+    });
+  });
+
+  describe('publish', () => {
+    it('should throw if not connected', async () => {
+      await expect(adapter.publish('orders', { payload: Buffer.from('x') }))
+        .rejects.toThrow('Redis connection is not available. Please connect first.');
+    });
+
+    it('should XADD the payload and prefixed headers', async () => {
+      await adapter.connect();
+
+      await adapter.publish('orders', {
+        payload: Buffer.from('hello'),
+        headers: { 'x-correlation-id': 'abc' }
+      });
+
+      expect(mockRedis.xadd).toHaveBeenCalledWith(
+        'orders', '*', 'payload', Buffer.from('hello'), 'header:x-correlation-id', 'abc'
+      );
+    });
+
+    it('should trim the stream when maxLen is set', async () => {
+      const trimmed = new RedisStreamsAdapter(mockRedis, { groupName: 'workers', maxLen: 1000 });
+      await trimmed.connect();
+
+      await trimmed.publish('orders', { payload: 'hello' });
+
+      expect(mockRedis.xadd).toHaveBeenCalledWith(
+        'orders', 'MAXLEN', '~', 1000, '*', 'payload', Buffer.from('hello')
+      );
+    });
+  });
+
+  describe('subscribe', () => {
+    beforeEach(async () => {
+      await adapter.connect();
+    });
+
+    it('should ignore BUSYGROUP errors when the group already exists', async () => {
+      mockRedis.xgroup.mockRejectedValue(new Error('BUSYGROUP Consumer Group name already exists'));
+      mockReader.callBuffer.mockResolvedValue(null);
+
+      await expect(adapter.subscribe('orders', vi.fn())).resolves.toBeUndefined();
+      await adapter.disconnect();
+    });
+
+    it('should deliver entries and XACK on ack', async () => {
+      const entry = [
+        Buffer.from('1-0'),
+        [Buffer.from('payload'), Buffer.from('hello'), Buffer.from('header:x-correlation-id'), Buffer.from('abc')]
+      ];
+      mockReader.callBuffer
+        .mockResolvedValueOnce([[Buffer.from('orders'), [entry]]])
+        .mockResolvedValue(null);
+
+      const received = new Promise<any>((resolve) => {
+        adapter.subscribe('orders', async (message, controls) => {
+          await controls.ack();
+          resolve(message);
+        });
+      });
+      const message = await received;
+
+      expect(mockRedis.xgroup).toHaveBeenCalledWith('CREATE', 'orders', 'workers', '$', 'MKSTREAM');
+      expect(message.payload.toString()).toBe('hello');
+      expect(message.headers).toEqual({ 'x-correlation-id': 'abc' });
+      expect(mockRedis.xack).toHaveBeenCalledWith('orders', 'workers', '1-0');
+      await adapter.disconnect();
+    });
+
+    it('should claim requeued entries back with XCLAIM', async () => {
+      const entry = [Buffer.from('7-0'), [Buffer.from('payload'), Buffer.from('hello')]];
+      mockReader.callBuffer
+        .mockResolvedValueOnce([[Buffer.from('orders'), [entry]]])
+        .mockResolvedValueOnce([entry])
+        .mockResolvedValue(null);
+
+      let deliveries = 0;
+      const redelivered = new Promise<void>((resolve) => {
+        adapter.subscribe('orders', async (_message, controls) => {
+          deliveries++;
+          if (deliveries === 1) {
+            await controls.nack(true);
+          } else {
+            resolve();
+          }
+        });
+      });
+      await redelivered;
+
+      expect(mockReader.callBuffer).toHaveBeenNthCalledWith(2, 'XCLAIM', 'orders', 'workers', 'worker-1', 0, '7-0');
+      await adapter.disconnect();
+    });
+
+    it('should keep reading after a handler throws and leave the entry pending', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const first = [Buffer.from('1-0'), [Buffer.from('payload'), Buffer.from('bad')]];
+      const second = [Buffer.from('2-0'), [Buffer.from('payload'), Buffer.from('good')]];
+      mockReader.callBuffer
+        .mockResolvedValueOnce([[Buffer.from('orders'), [first]]])
+        .mockResolvedValueOnce([[Buffer.from('orders'), [second]]])
+        .mockResolvedValue(null);
+
+      const delivered = new Promise<void>((resolve) => {
+        adapter.subscribe('orders', async (message, controls) => {
+          if (message.payload.toString() === 'bad') {
+            throw new Error('handler failed');
+          }
+          await controls.ack();
+          resolve();
+        });
+      });
+      await delivered;
+
+      expect(mockRedis.xack).toHaveBeenCalledTimes(1);
+      expect(mockRedis.xack).toHaveBeenCalledWith('orders', 'workers', '2-0');
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('1-0'), expect.any(Error));
+      await adapter.disconnect();
+      consoleSpy.mockRestore();
+    });
+
+    it('should close the previous reader when subscribing to the same topic again', async () => {
+      const previousReader = { callBuffer: vi.fn().mockResolvedValue(null), disconnect: vi.fn() };
+      mockRedis.duplicate.mockReturnValueOnce(previousReader);
+      mockReader.callBuffer.mockResolvedValue(null);
+
+      await adapter.subscribe('orders', vi.fn());
+      await adapter.subscribe('orders', vi.fn());
+
+      expect(previousReader.disconnect).toHaveBeenCalled();
+      expect(mockReader.disconnect).not.toHaveBeenCalled();
+      await adapter.disconnect();
+    });
+    it('should read its own pending entries before new ones', async () => {
+      const pending = [Buffer.from('3-0'), [Buffer.from('payload'), Buffer.from('left over')]];
+      const fresh = [Buffer.from('9-0'), [Buffer.from('payload'), Buffer.from('new')]];
+      mockReader.callBuffer
+        .mockResolvedValueOnce([[Buffer.from('orders'), [pending]]])
+        .mockResolvedValueOnce([[Buffer.from('orders'), []]])
+        .mockResolvedValueOnce([[Buffer.from('orders'), [fresh]]])
+        .mockResolvedValue(null);
+
+      const payloads: string[] = [];
+      const delivered = new Promise<void>((resolve) => {
+        adapter.subscribe('orders', async (message) => {
+          payloads.push(message.payload.toString());
+          if (payloads.length === 2) {
+            resolve();
+          }
+        });
+      });
+      await delivered;
+
+      expect(payloads).toEqual(['left over', 'new']);
+      expect(mockReader.callBuffer).toHaveBeenNthCalledWith(
+        1, 'XREADGROUP', 'GROUP', 'workers', 'worker-1', 'COUNT', 10, 'STREAMS', 'orders', '0'
+      );
+      expect(mockReader.callBuffer).toHaveBeenNthCalledWith(
+        2, 'XREADGROUP', 'GROUP', 'workers', 'worker-1', 'COUNT', 10, 'STREAMS', 'orders', '3-0'
+      );
+      expect(mockReader.callBuffer).toHaveBeenNthCalledWith(
+        3, 'XREADGROUP', 'GROUP', 'workers', 'worker-1', 'COUNT', 10, 'BLOCK', 5000, 'STREAMS', 'orders', '>'
+      );
+      await adapter.disconnect();
+    });
+
+    it('should keep consuming after a failed read', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const retrying = new RedisStreamsAdapter(mockRedis, {
+        groupName: 'workers',
+        consumerName: 'worker-1',
+        readRetry: { initialDelayMs: 1 }
+      });
+      await retrying.connect();
+      const entry = [Buffer.from('1-0'), [Buffer.from('payload'), Buffer.from('hello')]];
+      mockReader.callBuffer
+        .mockRejectedValueOnce(new Error('Connection is closed.'))
+        .mockResolvedValueOnce([[Buffer.from('orders'), [entry]]])
+        .mockResolvedValue(null);
+
+      const delivered = new Promise<string>((resolve) => {
+        retrying.subscribe('orders', async (message) => resolve(message.payload.toString()));
+      });
+
+      expect(await delivered).toBe('hello');
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('retrying in 1ms'), expect.any(Error));
+      await retrying.disconnect();
+      consoleSpy.mockRestore();
+    });
+
+    it('should not wait for the retry backoff when cancelled', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockReader.callBuffer.mockRejectedValue(new Error('Connection is closed.'));
+
+      await adapter.subscribe('orders', vi.fn());
+      await vi.waitFor(() => expect(consoleSpy).toHaveBeenCalled());
+      await adapter.disconnect();
+
+      expect(mockReader.callBuffer).toHaveBeenCalledTimes(1);
+      consoleSpy.mockRestore();
+    });
+
+    it('should default the consumer name to the host name', async () => {
+      const { hostname } = await import('os');
+      const unnamed = new RedisStreamsAdapter(mockRedis, { groupName: 'workers' });
+      await unnamed.connect();
+      mockReader.callBuffer.mockResolvedValue(null);
+
+      await unnamed.subscribe('orders', vi.fn());
+      await unnamed.disconnect();
+
+      expect(mockReader.callBuffer).toHaveBeenCalledWith(
+        'XREADGROUP', 'GROUP', 'workers', hostname(), 'COUNT', 10, 'STREAMS', 'orders', '0'
+      );
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should close readers and quit the client', async () => {
+      await adapter.connect();
+      mockReader.callBuffer.mockResolvedValue(null);
+      await adapter.subscribe('orders', vi.fn());
+
+      await adapter.disconnect();
+
+      expect(mockReader.disconnect).toHaveBeenCalled();
+      expect(mockRedis.quit).toHaveBeenCalled();
+    });
+  });
+});
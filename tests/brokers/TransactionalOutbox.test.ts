@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TransactionalOutbox } from '../../src/brokers/TransactionalOutbox';
+
+describe('TransactionalOutbox', () => {
+  let db: any;
+
+  beforeEach(() => {
+    db = { query: vi.fn().mockResolvedValue({ rows: [{ id: '1' }] }) };
+  });
+
+  describe('createTable', () => {
+    it('should create the table and the pending indexes', async () => {
+      await new TransactionalOutbox().createTable(db);
+
+      expect(db.query.mock.calls[0][0]).toContain('CREATE TABLE IF NOT EXISTS "syntropylog_outbox"');
+      expect(db.query.mock.calls[0][0]).toContain('dedup_key TEXT UNIQUE');
+      expect(db.query.mock.calls[1][0]).toContain('CREATE INDEX IF NOT EXISTS "syntropylog_outbox_pending_idx"');
+      expect(db.query.mock.calls[2][0])
+        .toContain('CREATE INDEX IF NOT EXISTS "syntropylog_outbox_pending_ordering_idx"');
+      expect(db.query.mock.calls[2][0]).toContain('(ordering_key, id)');
+    });
+
+    it('should quote schema-qualified table names', async () => {
+      await new TransactionalOutbox({ table: 'messaging.outbox' }).createTable(db);
+
+      expect(db.query.mock.calls[0][0]).toContain('"messaging"."outbox"');
+      expect(db.query.mock.calls[1][0]).toContain('"outbox_pending_idx"');
+      expect(db.query.mock.calls[1][0]).toContain('ON "messaging"."outbox"');
+    });
+  });
+
+  describe('add', () => {
+    it('should insert the message with the given client', async () => {
+      const added = await new TransactionalOutbox().add(
+        db,
+        'orders.created',
+        { payload: { id: 7 }, headers: { 'x-correlation-id': 'corr-1', 'x-trace-id': Buffer.from('trace-1') } },
+        { orderingKey: 'order-7', dedupKey: 'order-created-7' }
+      );
+
+      expect(added).toBe(true);
+      const [sql, values] = db.query.mock.calls[0];
+      expect(sql).toContain('INSERT INTO "syntropylog_outbox"');
+      expect(sql).toContain('ON CONFLICT (dedup_key) DO NOTHING');
+      expect(values).toEqual([
+        'orders.created',
+        '{"x-correlation-id":"corr-1","x-trace-id":"trace-1"}',
+        Buffer.from('{"id":7}'),
+        'order-7',
+        'order-created-7'
+      ]);
+    });
+
+    it('should store nulls without ordering or dedup keys', async () => {
+      await new TransactionalOutbox().add(db, 'orders.created', { payload: 'x' });
+
+      expect(db.query.mock.calls[0][1].slice(3)).toEqual([null, null]);
+    });
+
+    it('should return false for a duplicate dedup key', async () => {
+      db.query.mockResolvedValue({ rows: [] });
+
+      await expect(new TransactionalOutbox().add(db, 'orders.created', { payload: 'x' }, { dedupKey: 'k' }))
+        .resolves.toBe(false);
+    });
+  });
+});
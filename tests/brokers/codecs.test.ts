@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PayloadCodecs,
+  PayloadCodec,
+  jsonCodec,
+  rawCodec,
+  utf8Codec,
+  msgpackCodec,
+  cborCodec
+} from '../../src/brokers/codecs';
+
+describe('built-in codecs', () => {
+  it.each([
+    ['json', jsonCodec, { id: 7, tags: ['a', 'b'] }],
+    ['msgpack', msgpackCodec, { id: 7, tags: ['a', 'b'] }],
+    ['cbor', cborCodec, { id: 7, tags: ['a', 'b'] }],
+    ['utf-8', utf8Codec, 'héllo ✓'],
+    ['raw', rawCodec, Buffer.from([0, 255, 128, 10])]
+  ])('should round-trip with the %s codec', (_name, codec, payload) => {
+    const encoded = codec.encode(payload);
+
+    expect(Buffer.isBuffer(encoded)).toBe(true);
+    expect(codec.decode(encoded)).toEqual(payload);
+  });
+
+  it('should keep binary values inside CBOR and MessagePack payloads', () => {
+    const payload = { image: Buffer.from([1, 2, 3]) };
+
+    expect(cborCodec.decode(cborCodec.encode(payload))).toEqual(payload);
+    expect(Buffer.from((msgpackCodec.decode(msgpackCodec.encode(payload)) as any).image)).toEqual(payload.image);
+  });
+
+  it('should reject payloads the raw and UTF-8 codecs cannot send as is', () => {
+    expect(() => rawCodec.encode('text')).toThrow('The raw codec only encodes Buffer or Uint8Array payloads.');
+    expect(() => utf8Codec.encode({ id: 1 })).toThrow('The UTF-8 codec only encodes string payloads.');
+    expect(rawCodec.encode(new Uint8Array([1, 2]))).toEqual(Buffer.from([1, 2]));
+  });
+});
+
+describe('PayloadCodecs', () => {
+  it('should encode with the default codec and record its content type', () => {
+    const codecs = new PayloadCodecs(msgpackCodec);
+
+    const encoded = codecs.encode('orders', { payload: { id: 1 }, headers: { 'x-id': '1' } });
+
+    expect(encoded.headers).toEqual({ 'x-id': '1', 'content-type': 'application/msgpack' });
+    expect(msgpackCodec.decode(encoded.payload)).toEqual({ id: 1 });
+  });
+
+  it('should pick the codec of the topic and fall back to JSON', () => {
+    const codecs = new PayloadCodecs({ topics: { 'images.raw': rawCodec } });
+
+    expect(codecs.encode('images.raw', { payload: Buffer.from([1]) }).headers)
+      .toEqual({ 'content-type': 'application/octet-stream' });
+    expect(codecs.encode('orders', { payload: { id: 1 } }).headers).toEqual({ 'content-type': 'application/json' });
+  });
+
+  it('should use the codec named by a content-type header on the message', () => {
+    const codecs = new PayloadCodecs(jsonCodec);
+
+    const encoded = codecs.encode('orders', { payload: 'hello', headers: { 'content-type': 'text/plain' } });
+
+    expect(encoded.payload).toEqual(Buffer.from('hello'));
+    expect(encoded.headers).toEqual({ 'content-type': 'text/plain' });
+    expect(() => codecs.encode('orders', { payload: {}, headers: { 'content-type': 'application/xml' } }))
+      .toThrow('No payload codec is registered for content type "application/xml".');
+  });
+
+  it('should not encode a Buffer that already has a content type again', () => {
+    const codecs = new PayloadCodecs(jsonCodec);
+    const message = { payload: Buffer.from('{"id":1}'), headers: { 'content-type': 'application/json' } };
+
+    expect(codecs.encode('orders', message)).toEqual(message);
+  });
+
+  it('should decode with the content-type header, whatever the topic codec', () => {
+    const codecs = new PayloadCodecs({ default: jsonCodec, topics: { metrics: msgpackCodec } });
+
+    expect(codecs.decode('orders', {
+      payload: cborCodec.encode({ id: 1 }),
+      headers: { 'content-type': Buffer.from('Application/CBOR') }
+    }).payload).toEqual({ id: 1 });
+    expect(codecs.decode('metrics', { payload: msgpackCodec.encode([1, 2]) }).payload).toEqual([1, 2]);
+  });
+
+  it('should decode with registered custom codecs and leave unknown content types raw', () => {
+    const upper: PayloadCodec = {
+      contentType: 'text/x-upper',
+      encode: payload => Buffer.from(String(payload).toUpperCase()),
+      decode: data => data.toString().toLowerCase()
+    };
+    const codecs = new PayloadCodecs({ decoders: [upper] });
+
+    expect(codecs.decode('t', { payload: Buffer.from('HI'), headers: { 'content-type': 'text/x-upper' } }).payload)
+      .toBe('hi');
+    expect(codecs.decode('t', { payload: Buffer.from('<a/>'), headers: { 'content-type': 'application/xml' } }).payload)
+      .toEqual(Buffer.from('<a/>'));
+  });
+
+  it('should surface decoding failures as handler errors', async () => {
+    const handler = vi.fn();
+    const decoding = new PayloadCodecs(jsonCodec).decoding('orders', handler);
+    const controls = { ack: vi.fn(), nack: vi.fn() };
+
+    await decoding({ payload: Buffer.from('{"id":1}') }, controls);
+    await expect(decoding({ payload: Buffer.from('not json') }, controls)).rejects.toThrow(SyntaxError);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ payload: { id: 1 } }, controls);
+  });
+});
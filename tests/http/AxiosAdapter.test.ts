@@ -120,6 +120,29 @@ describe('AxiosAdapter', () => {
       await expect(adapter.request(request)).rejects.toThrow('Network Error');
     });
 
+    it('should pass the timeout and abort signal to axios', async () => {
+      mockAxios.request.mockResolvedValue({ status: 200, data: {}, headers: {} });
+      const controller = new AbortController();
+      const timedAdapter = new AxiosAdapter(mockAxios, { timeout: 5000 });
+
+      await timedAdapter.request({ url: 'https://api.example.com', method: 'GET', headers: {} } as any);
+      await timedAdapter.request({
+        url: 'https://api.example.com', method: 'GET', headers: {}, timeout: 100, signal: controller.signal
+      } as any);
+
+      expect(mockAxios.request.mock.calls[0][0].timeout).toBe(5000);
+      expect(mockAxios.request.mock.calls[1][0]).toMatchObject({ timeout: 100, signal: controller.signal });
+    });
+
+    it('should flag timeouts and aborted requests', async () => {
+      mockAxios.request.mockRejectedValueOnce({ isAxiosError: true, message: 'timeout of 100ms exceeded', code: 'ECONNABORTED' });
+      mockAxios.request.mockRejectedValueOnce({ isAxiosError: true, message: 'canceled', code: 'ERR_CANCELED' });
+      const request = { url: 'https://api.example.com', method: 'GET', headers: {} } as any;
+
+      await expect(adapter.request(request)).rejects.toMatchObject({ isTimeout: true, isAborted: false });
+      await expect(adapter.request(request)).rejects.toMatchObject({ isTimeout: false, isAborted: true });
+    });
+
     it('should handle request without query params', async () => {
       const mockResponse = {
         status: 200,
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CircuitBreakerHttpAdapter } from '../../src/http/CircuitBreakerHttpAdapter';
+import { CircuitOpenError } from '../../src/utils/CircuitBreaker';
+
+const httpError = (statusCode?: number, extra: Record<string, unknown> = {}) => ({
+  name: 'AdapterHttpError',
+  message: 'failed',
+  isAdapterError: true,
+  request: {},
+  response: statusCode ? { statusCode, data: {}, headers: {} } : undefined,
+  ...extra
+});
+
+const get = (url: string) => ({ url, method: 'GET' as const, headers: {} });
+
+describe('CircuitBreakerHttpAdapter', () => {
+  let inner: any;
+  let adapter: CircuitBreakerHttpAdapter;
+
+  beforeEach(() => {
+    inner = { request: vi.fn() };
+    adapter = new CircuitBreakerHttpAdapter(inner, { minimumCalls: 2, failureRateThreshold: 0.5 });
+  });
+
+  it('should open the circuit of a failing host and fail fast', async () => {
+    inner.request.mockRejectedValue(httpError(503));
+
+    await expect(adapter.request(get('https://payments.example.com/charge'))).rejects.toMatchObject({ isAdapterError: true });
+    await expect(adapter.request(get('https://payments.example.com/refund'))).rejects.toMatchObject({ isAdapterError: true });
+    await expect(adapter.request(get('https://payments.example.com/charge'))).rejects.toBeInstanceOf(CircuitOpenError);
+
+    expect(inner.request).toHaveBeenCalledTimes(2);
+    expect(adapter.breaker.getState('payments.example.com')).toBe('open');
+  });
+
+  it('should keep other hosts flowing', async () => {
+    inner.request.mockRejectedValueOnce(httpError()).mockRejectedValueOnce(httpError()).mockResolvedValue({ statusCode: 200, data: {}, headers: {} });
+
+    await expect(adapter.request(get('https://payments.example.com'))).rejects.toBeDefined();
+    await expect(adapter.request(get('https://payments.example.com'))).rejects.toBeDefined();
+
+    await expect(adapter.request(get('https://inventory.example.com'))).resolves.toMatchObject({ statusCode: 200 });
+  });
+
+  it('should not count client errors or aborted requests as failures', async () => {
+    inner.request
+      .mockRejectedValueOnce(httpError(404))
+      .mockRejectedValueOnce(httpError(400))
+      .mockRejectedValueOnce(httpError(undefined, { isAborted: true }));
+
+    for (let i = 0; i < 3; i++) {
+      await expect(adapter.request(get('https://api.example.com'))).rejects.toBeDefined();
+    }
+
+    expect(adapter.breaker.getState('api.example.com')).toBe('closed');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FetchAdapter } from '../../src/http/FetchAdapter';
+
+describe('FetchAdapter', () => {
+  let adapter: FetchAdapter;
+  let mockFetch: any;
+
+  beforeEach(() => {
+    mockFetch = vi.fn();
+    adapter = new FetchAdapter(mockFetch);
+  });
+
+  describe('request', () => {
+    it('should build the query string and filter headers like AxiosAdapter', async () => {
+      mockFetch.mockResolvedValue(
+        new Response('{"message":"success"}', { status: 200, headers: { 'content-type': 'application/json' } })
+      );
+
+      const result = await adapter.request({
+        url: 'https://api.example.com/users?active=true',
+        method: 'GET',
+        headers: { 'Authorization': 'Bearer token', 'x-retries': 2, 'Connection': 'keep-alive' },
+        body: null,
+        queryParams: { page: 1, tags: ['a', 'b'] }
+      } as any);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/users?active=true&page=1&tags=a&tags=b',
+        { method: 'GET', headers: { 'Authorization': 'Bearer token' }, body: undefined, signal: expect.any(AbortSignal) }
+      );
+      expect(result.statusCode).toBe(200);
+      expect(result.data).toEqual({ message: 'success' });
+      expect(result.headers['content-type']).toBe('application/json');
+    });
+
+    it('should send objects as JSON and pass strings through', async () => {
+      mockFetch.mockImplementation(async () => new Response(null, { status: 204 }));
+
+      await adapter.request({ url: 'https://api.example.com', method: 'POST', headers: {}, body: { name: 'John' } } as any);
+      await adapter.request({ url: 'https://api.example.com', method: 'POST', headers: { 'content-type': 'text/csv' }, body: 'a,b' } as any);
+
+      expect(mockFetch.mock.calls[0][1]).toEqual({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"name":"John"}',
+        signal: expect.any(AbortSignal)
+      });
+      expect(mockFetch.mock.calls[1][1]).toEqual({
+        method: 'POST',
+        headers: { 'content-type': 'text/csv' },
+        body: 'a,b',
+        signal: expect.any(AbortSignal)
+      });
+    });
+
+    it('should decode text, form and binary responses', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('plain text', { headers: { 'content-type': 'text/plain' } }))
+        .mockResolvedValueOnce(new Response('a=1&b=2', { headers: { 'content-type': 'application/x-www-form-urlencoded' } }))
+        .mockResolvedValueOnce(new Response(new Uint8Array([1, 2, 3]), { headers: { 'content-type': 'application/octet-stream' } }))
+        .mockResolvedValueOnce(new Response('not json'));
+
+      const request = { url: 'https://api.example.com', method: 'GET', headers: {} } as any;
+
+      expect((await adapter.request(request)).data).toBe('plain text');
+      expect((await adapter.request(request)).data).toEqual({ a: '1', b: '2' });
+      expect((await adapter.request(request)).data).toEqual(Buffer.from([1, 2, 3]));
+      expect((await adapter.request(request)).data).toBe('not json');
+    });
+
+    it('should throw a normalized error for 4xx/5xx responses', async () => {
+      mockFetch.mockResolvedValue(
+        new Response('{"error":"Not found"}', { status: 404, headers: { 'content-type': 'application/json' } })
+      );
+      const request = { url: 'https://api.example.com/users/999', method: 'GET', headers: {} } as any;
+
+      await expect(adapter.request(request)).rejects.toMatchObject({
+        name: 'AdapterHttpError',
+        message: 'Request failed with status code 404',
+        isAdapterError: true,
+        request,
+        response: { statusCode: 404, data: { error: 'Not found' } }
+      });
+    });
+
+    it('should throw a normalized error for network failures', async () => {
+      const cause = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:443'), { code: 'ECONNREFUSED' });
+      mockFetch.mockRejectedValue(new TypeError('fetch failed', { cause }));
+      const request = { url: 'https://api.example.com', method: 'GET', headers: {} } as any;
+
+      await expect(adapter.request(request)).rejects.toMatchObject({
+        message: 'fetch failed',
+        code: 'ECONNREFUSED',
+        isAdapterError: true,
+        request,
+        response: undefined
+      });
+    });
+
+    it('should abort the request when the timeout elapses', async () => {
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      }));
+      const timedAdapter = new FetchAdapter(mockFetch, { timeout: 1000 });
+
+      await expect(
+        timedAdapter.request({ url: 'https://api.example.com', method: 'GET', headers: {}, timeout: 10 } as any)
+      ).rejects.toMatchObject({
+        message: 'Request timed out after 10ms',
+        isTimeout: true,
+        isAborted: false
+      });
+    });
+
+    it('should abort the request when the caller signal fires', async () => {
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      }));
+      const controller = new AbortController();
+
+      const pending = adapter.request({
+        url: 'https://api.example.com', method: 'GET', headers: {}, signal: controller.signal
+      } as any);
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({
+        message: 'Request aborted',
+        isTimeout: false,
+        isAborted: true
+      });
+    });
+
+    it('should default to the global fetch', async () => {
+      const globalFetch = vi.fn().mockResolvedValue(new Response('{}'));
+      vi.stubGlobal('fetch', globalFetch);
+
+      await new FetchAdapter().request({ url: 'https://api.example.com', method: 'GET', headers: {} } as any);
+
+      expect(globalFetch).toHaveBeenCalled();
+      vi.unstubAllGlobals();
+    });
+  });
+});
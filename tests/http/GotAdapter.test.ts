@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { HTTPError, RequestError, TimeoutError } from 'got';
+import { GotAdapter } from '../../src/http/GotAdapter';
+
+const gotResponse = (statusCode: number, body: string, headers: Record<string, string> = {}) => ({
+  statusCode,
+  body,
+  headers
+});
+
+describe('GotAdapter', () => {
+  let adapter: GotAdapter;
+  let mockGot: any;
+
+  beforeEach(() => {
+    mockGot = vi.fn();
+    mockGot.extend = vi.fn();
+    adapter = new GotAdapter(mockGot);
+  });
+
+  describe('request', () => {
+    it('should make successful request and parse JSON responses', async () => {
+      mockGot.mockResolvedValue(
+        gotResponse(200, '{"message":"success"}', { 'content-type': 'application/json' })
+      );
+
+      const result = await adapter.request({
+        url: 'https://api.example.com/users',
+        method: 'GET',
+        headers: { 'Authorization': 'Bearer token', 'x-retry': 3 as any, 'Host': 'evil' },
+        body: null,
+        queryParams: { page: 1, tags: ['a', 'b'], skip: undefined }
+      } as any);
+
+      const [url, options] = mockGot.mock.calls[0];
+      expect(url).toBe('https://api.example.com/users');
+      expect(options.method).toBe('GET');
+      expect(options.headers).toEqual({ 'Authorization': 'Bearer token' });
+      expect(options.searchParams.toString()).toBe('page=1&tags=a&tags=b');
+      expect(options.responseType).toBe('text');
+      expect(options.json).toBeUndefined();
+      expect(options.body).toBeUndefined();
+
+      expect(result).toEqual({
+        statusCode: 200,
+        data: { message: 'success' },
+        headers: { 'content-type': 'application/json' }
+      });
+    });
+
+    it('should send object bodies as json and strings as raw body', async () => {
+      mockGot.mockResolvedValue(gotResponse(201, 'created', { 'content-type': 'text/plain' }));
+
+      const jsonResult = await adapter.request({
+        url: 'https://api.example.com/users',
+        method: 'POST',
+        headers: {},
+        body: { name: 'John' }
+      } as any);
+      await adapter.request({
+        url: 'https://api.example.com/users',
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: 'raw'
+      } as any);
+
+      expect(mockGot.mock.calls[0][1].json).toEqual({ name: 'John' });
+      expect(mockGot.mock.calls[1][1].body).toBe('raw');
+      expect(jsonResult.data).toBe('created');
+    });
+
+    it('should load got and extend it from options on the first request', async () => {
+      const handler = vi.fn(async () => gotResponse(200, 'ok'));
+      const gotAdapter = new GotAdapter({ prefixUrl: 'https://api.example.com', handlers: [handler as any] });
+
+      expect(handler).not.toHaveBeenCalled();
+      const result = await gotAdapter.request({ url: 'users', method: 'GET', headers: {} });
+
+      expect(result).toEqual({ statusCode: 200, data: 'ok', headers: {} });
+      expect((handler.mock.calls[0] as any)[0].url.href).toBe('https://api.example.com/users');
+    });
+
+    it('should normalize HTTP errors with the response attached', async () => {
+      const response: any = gotResponse(404, '{"error":"Not found"}', { 'content-type': 'application/json' });
+      response.statusMessage = 'Not Found';
+      response.request = { _onResponse: true, options: {}, response };
+      mockGot.mockRejectedValue(new HTTPError(response));
+
+      const request = { url: 'https://api.example.com/users/999', method: 'GET', headers: {} } as any;
+
+      await expect(adapter.request(request)).rejects.toMatchObject({
+        name: 'AdapterHttpError',
+        isAdapterError: true,
+        code: 'ERR_NON_2XX_3XX_RESPONSE',
+        request,
+        response: { statusCode: 404, data: { error: 'Not found' } }
+      });
+    });
+
+    it('should normalize network and timeout errors without a response', async () => {
+      mockGot.mockRejectedValueOnce(new RequestError('connect ECONNREFUSED', { code: 'ECONNREFUSED' } as any, {} as any));
+      mockGot.mockRejectedValueOnce(new TimeoutError(Object.assign(new Error('Timeout awaiting request'), { event: 'request', code: 'ETIMEDOUT' }) as any, {} as any, {} as any));
+
+      const request = { url: 'https://api.example.com/users', method: 'GET', headers: {} } as any;
+
+      await expect(adapter.request(request)).rejects.toMatchObject({
+        isAdapterError: true,
+        code: 'ECONNREFUSED',
+        response: undefined
+      });
+      await expect(adapter.request(request)).rejects.toMatchObject({
+        isAdapterError: true,
+        code: 'ETIMEDOUT'
+      });
+    });
+
+    it('should pass the timeout and abort signal to got', async () => {
+      mockGot.mockResolvedValue(gotResponse(200, ''));
+      const controller = new AbortController();
+      const timedAdapter = new GotAdapter(mockGot, { timeout: 5000 });
+
+      await timedAdapter.request({ url: 'https://api.example.com', method: 'GET', headers: {} } as any);
+      await timedAdapter.request({
+        url: 'https://api.example.com', method: 'GET', headers: {}, timeout: 100, signal: controller.signal
+      } as any);
+
+      expect(mockGot.mock.calls[0][1].timeout).toEqual({ request: 5000 });
+      expect(mockGot.mock.calls[1][1]).toMatchObject({ timeout: { request: 100 }, signal: controller.signal });
+    });
+
+    it('should flag timeouts and aborted requests', async () => {
+      mockGot.mockRejectedValueOnce(new TimeoutError(Object.assign(new Error('Timeout awaiting request'), { event: 'request', code: 'ETIMEDOUT' }) as any, {} as any, {} as any));
+      mockGot.mockRejectedValueOnce(new RequestError('This operation was aborted.', { code: 'ERR_ABORTED' } as any, {} as any));
+      const request = { url: 'https://api.example.com', method: 'GET', headers: {} } as any;
+
+      await expect(adapter.request(request)).rejects.toMatchObject({ isTimeout: true, isAborted: false });
+      await expect(adapter.request(request)).rejects.toMatchObject({ isTimeout: false, isAborted: true });
+    });
+
+    it('should normalize Got errors that are not instances of the loaded Got classes', async () => {
+      mockGot.mockRejectedValueOnce(Object.assign(new Error('Timeout awaiting request'), { name: 'TimeoutError', code: 'ETIMEDOUT' }));
+      mockGot.mockRejectedValueOnce(Object.assign(new Error('connect ECONNREFUSED'), { name: 'RequestError', code: 'ECONNREFUSED' }));
+      const request = { url: 'https://api.example.com', method: 'GET', headers: {} } as any;
+
+      await expect(adapter.request(request)).rejects.toMatchObject({ isAdapterError: true, isTimeout: true });
+      await expect(adapter.request(request)).rejects.toMatchObject({ isAdapterError: true, code: 'ECONNREFUSED', isTimeout: false });
+    });
+
+    it('should rethrow non-Got errors untouched', async () => {
+      mockGot.mockRejectedValue(new TypeError('bad'));
+
+      await expect(adapter.request({ url: 'x', method: 'GET', headers: {} } as any)).rejects.toThrow(TypeError);
+    });
+  });
+});
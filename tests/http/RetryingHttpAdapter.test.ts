@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RetryingHttpAdapter } from '../../src/http/RetryingHttpAdapter';
+
+const httpError = (statusCode?: number, extra: Record<string, unknown> = {}) => ({
+  name: 'AdapterHttpError',
+  message: statusCode ? `Request failed with status code ${statusCode}` : 'socket hang up',
+  isAdapterError: true,
+  request: {},
+  response: statusCode ? { statusCode, data: {}, headers: {} } : undefined,
+  ...extra
+});
+
+const ok = { statusCode: 200, data: { ok: true }, headers: {} };
+
+describe('RetryingHttpAdapter', () => {
+  let inner: any;
+  let adapter: RetryingHttpAdapter;
+
+  beforeEach(() => {
+    inner = { request: vi.fn() };
+    adapter = new RetryingHttpAdapter(inner, { baseDelayMs: 1, jitter: false });
+  });
+
+  it('should retry retryable status codes and tag each attempt', async () => {
+    inner.request
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(502))
+      .mockResolvedValueOnce(ok);
+
+    const result = await adapter.request({ url: 'https://api.example.com', method: 'GET', headers: {} });
+
+    expect(result).toBe(ok);
+    expect(inner.request.mock.calls.map(([request]: any[]) => request.attempt)).toEqual([1, 2, 3]);
+  });
+
+  it('should not retry POST requests by default', async () => {
+    inner.request.mockRejectedValue(httpError(503));
+
+    await expect(adapter.request({ url: 'https://api.example.com', method: 'POST', headers: {} }))
+      .rejects.toMatchObject({ response: { statusCode: 503 } });
+    expect(inner.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry POST requests when the method is allowed', async () => {
+    const postAdapter = new RetryingHttpAdapter(inner, { baseDelayMs: 1, jitter: false, methods: ['GET', 'POST'] });
+    inner.request.mockRejectedValueOnce(httpError(503)).mockResolvedValueOnce(ok);
+
+    await postAdapter.request({ url: 'https://api.example.com', method: 'post', headers: {} });
+
+    expect(inner.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry network errors and timeouts but not client errors', async () => {
+    inner.request
+      .mockRejectedValueOnce(httpError())
+      .mockRejectedValueOnce(httpError(undefined, { isTimeout: true }))
+      .mockRejectedValueOnce(httpError(404));
+
+    await expect(adapter.request({ url: 'https://api.example.com', method: 'GET', headers: {} }))
+      .rejects.toMatchObject({ response: { statusCode: 404 } });
+    expect(inner.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up after maxRetries and rethrow the last error', async () => {
+    const limited = new RetryingHttpAdapter(inner, { maxRetries: 2, baseDelayMs: 1, jitter: false });
+    inner.request.mockRejectedValue(httpError(500));
+
+    await expect(limited.request({ url: 'https://api.example.com', method: 'GET', headers: {} }))
+      .rejects.toMatchObject({ response: { statusCode: 500 } });
+    expect(inner.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should back off exponentially and honor Retry-After', async () => {
+    const onRetry = vi.fn();
+    const backoff = new RetryingHttpAdapter(inner, { baseDelayMs: 1, factor: 3, jitter: false, onRetry });
+    const throttled = httpError(429);
+    throttled.response!.headers = { 'Retry-After': '0' };
+    inner.request
+      .mockRejectedValueOnce(httpError(500))
+      .mockRejectedValueOnce(httpError(500))
+      .mockRejectedValueOnce(throttled)
+      .mockResolvedValueOnce(ok);
+
+    await backoff.request({ url: 'https://api.example.com', method: 'GET', headers: {} });
+
+    expect(onRetry.mock.calls.map(([event]) => [event.attempt, event.delayMs])).toEqual([[1, 1], [2, 3], [3, 0]]);
+  });
+
+  it('should send the attempt header when configured', async () => {
+    const tagged = new RetryingHttpAdapter(inner, { attemptHeader: 'x-retry-attempt' });
+    inner.request.mockResolvedValue(ok);
+
+    await tagged.request({ url: 'https://api.example.com', method: 'GET', headers: { accept: 'application/json' } });
+
+    expect(inner.request.mock.calls[0][0].headers).toEqual({ accept: 'application/json', 'x-retry-attempt': '1' });
+  });
+
+  it('should stop retrying once the request is aborted', async () => {
+    const controller = new AbortController();
+    const slow = new RetryingHttpAdapter(inner, { baseDelayMs: 10_000, jitter: false });
+    inner.request.mockRejectedValue(httpError(503));
+
+    const pending = slow.request({ url: 'https://api.example.com', method: 'GET', headers: {}, signal: controller.signal });
+    await vi.waitFor(() => expect(inner.request).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ response: { statusCode: 503 } });
+    expect(inner.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rethrow errors that did not come from an adapter', async () => {
+    inner.request.mockRejectedValue(new TypeError('bad'));
+
+    await expect(adapter.request({ url: 'https://api.example.com', method: 'GET', headers: {} }))
+      .rejects.toThrow(TypeError);
+    expect(inner.request).toHaveBeenCalledTimes(1);
+  });
+});
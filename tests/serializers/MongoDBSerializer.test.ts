@@ -52,4 +52,43 @@ describe('MongoDBSerializer Smoke Tests', () => {
     expect(result.success).toBe(false);
     expect(result.error).toContain('Tipo de dato MongoDB no reconocido');
   });
-}); 
\ No newline at end of file
+
+  it('should redact sensitive filter fields when sanitize is enabled', async () => {
+    const query = {
+      collection: 'users',
+      operation: 'find',
+      filter: { email: 'ana@example.com', password: 'hunter2' }
+    };
+
+    const result = await serializer.serialize(query, { sanitize: true });
+
+    expect(result.success).toBe(true);
+    expect(result.data.filter).toEqual({ email: 'ana@example.com', password: '[REDACTED]' });
+  });
+
+  it('should keep raw data when sanitize is not enabled', async () => {
+    const query = { collection: 'users', operation: 'find', filter: { password: 'hunter2' } };
+
+    const result = await serializer.serialize(query, {});
+
+    expect(result.data.filter.password).toBe('hunter2');
+  });
+
+  it('should redact custom sensitiveFields in addition to the defaults', async () => {
+    const aggregation = {
+      pipeline: [{ $match: { Email: 'ana@example.com', apiKey: 'k-1', country: 'AR' } }]
+    };
+
+    const result = await serializer.serialize(aggregation, { sanitize: true, sensitiveFields: ['email'] });
+
+    expect(result.data.pipeline).toEqual([{ $match: { Email: '[REDACTED]', apiKey: '[REDACTED]', country: 'AR' } }]);
+  });
+
+  it('should enforce maxDepth', async () => {
+    const query = { collection: 'users', operation: 'find', filter: { address: { city: 'Rosario' } } };
+
+    const result = await serializer.serialize(query, { maxDepth: 2 });
+
+    expect(result.data.filter).toEqual({ address: '[MAX_DEPTH_REACHED]' });
+  });
+});
@@ -52,4 +52,49 @@ describe('MySQLSerializer Smoke Tests', () => {
     expect(result.success).toBe(false);
     expect(result.error).toContain('Tipo de dato MySQL no reconocido');
   });
-}); 
\ No newline at end of file
+
+  it('should redact credentials and values bound to sensitive columns when sanitize is enabled', async () => {
+    const query = {
+      sql: 'UPDATE users SET password = ? WHERE email = ?',
+      values: ['hunter2', 'ana@example.com'],
+      connectionConfig: { host: 'db', user: 'app', password: 'hunter2' }
+    };
+
+    const result = await serializer.serialize(query, { sanitize: true });
+
+    expect(result.success).toBe(true);
+    expect(result.data.values).toEqual(['[REDACTED]', 'ana@example.com']);
+    expect(result.data.connectionConfig.password).toBe('[REDACTED]');
+  });
+
+  it('should keep raw data when sanitize is not enabled', async () => {
+    const query = { sql: 'UPDATE users SET password = ? WHERE id = ?', values: ['hunter2', 1] };
+
+    const result = await serializer.serialize(query, {});
+
+    expect(result.data.values).toEqual(['hunter2', 1]);
+  });
+
+  it('should redact custom sensitiveFields in addition to the defaults', async () => {
+    const query = {
+      sql: 'SELECT * FROM users WHERE email = ? AND id = ?',
+      values: ['ana@example.com', 1],
+      connectionConfig: { host: 'db', database: 'billing', password: 'hunter2' }
+    };
+
+    const result = await serializer.serialize(query, { sanitize: true, sensitiveFields: ['Email', 'database'] });
+
+    expect(result.data.values).toEqual(['[REDACTED]', 1]);
+    expect(result.data.connectionConfig.database).toBe('[REDACTED]');
+    expect(result.data.connectionConfig.password).toBe('[REDACTED]');
+    expect(result.data.connectionConfig.host).toBe('db');
+  });
+
+  it('should enforce maxDepth', async () => {
+    const query = { sql: 'SELECT ?', values: [{ nested: { deep: true } }] };
+
+    const result = await serializer.serialize(query, { maxDepth: 2 });
+
+    expect(result.data.values).toEqual(['[MAX_DEPTH_REACHED]']);
+  });
+});
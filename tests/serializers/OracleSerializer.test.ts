@@ -51,4 +51,50 @@ describe('OracleSerializer Smoke Tests', () => {
     expect(result.success).toBe(false);
     expect(result.error).toContain('Tipo de dato Oracle no reconocido');
   });
-}); 
\ No newline at end of file
+
+  it('should redact credentials and sensitive bind parameters when sanitize is enabled', async () => {
+    const query = {
+      sql: 'UPDATE users SET password = :password WHERE id = :id',
+      bindParams: [{ name: 'password', value: 'hunter2' }, { name: 'id', value: 1 }],
+      config: { host: 'db', user: 'app', password: 'hunter2', connectString: 'app/hunter2@db:1521/ORCL' }
+    };
+
+    const result = await serializer.serialize(query, { sanitize: true });
+
+    expect(result.success).toBe(true);
+    expect(result.data.bindParams).toEqual([{ name: 'password', value: '[REDACTED]' }, { name: 'id', value: 1 }]);
+    expect(result.data.config.password).toBe('[REDACTED]');
+    expect(result.data.config.connectString).not.toContain('hunter2');
+  });
+
+  it('should keep raw data when sanitize is not enabled', async () => {
+    const query = { sql: 'SELECT 1 FROM dual', bindParams: [{ name: 'password', value: 'hunter2' }] };
+
+    const result = await serializer.serialize(query, {});
+
+    expect(result.data.bindParams[0].value).toBe('hunter2');
+  });
+
+  it('should redact custom sensitiveFields in addition to the defaults', async () => {
+    const query = {
+      sql: 'SELECT * FROM employees WHERE salary > :salary',
+      bindParams: [{ name: 'salary', value: 90000 }],
+      config: { host: 'db', serviceName: 'ORCL', password: 'hunter2' }
+    };
+
+    const result = await serializer.serialize(query, { sanitize: true, sensitiveFields: ['Salary', 'serviceName'] });
+
+    expect(result.data.bindParams[0].value).toBe('[REDACTED]');
+    expect(result.data.config.serviceName).toBe('[REDACTED]');
+    expect(result.data.config.password).toBe('[REDACTED]');
+    expect(result.data.config.host).toBe('db');
+  });
+
+  it('should enforce maxDepth', async () => {
+    const query = { sql: 'SELECT :id FROM dual', bindParams: [{ name: 'id', value: 1 }] };
+
+    const result = await serializer.serialize(query, { maxDepth: 2 });
+
+    expect(result.data.bindParams).toEqual(['[MAX_DEPTH_REACHED]']);
+  });
+});
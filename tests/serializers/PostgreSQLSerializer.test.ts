@@ -52,4 +52,72 @@ describe('PostgreSQLSerializer Smoke Tests', () => {
     expect(result.success).toBe(false);
     expect(result.error).toContain('Tipo de dato PostgreSQL no reconocido');
   });
-}); 
\ No newline at end of file
+
+  it('should redact credentials when sanitize is enabled', async () => {
+    const query = {
+      text: "SELECT * FROM users WHERE password = 'hunter2' -- admin override",
+      values: [1],
+      config: { host: 'db', user: 'app', password: 'hunter2' }
+    };
+
+    const result = await serializer.serialize(query, { sanitize: true });
+
+    expect(result.success).toBe(true);
+    expect(result.data.config.password).toBe('[REDACTED]');
+    expect(result.data.text).toBe("SELECT * FROM users WHERE password='[REDACTED]'");
+  });
+
+  it('should keep raw data when sanitize is not enabled', async () => {
+    const query = { text: 'SELECT 1', values: [], config: { password: 'hunter2' } };
+
+    const result = await serializer.serialize(query, {});
+
+    expect(result.data.config.password).toBe('hunter2');
+  });
+
+  it('should redact custom sensitiveFields in addition to the defaults', async () => {
+    const client = {
+      connect: () => Promise.resolve(),
+      query: () => Promise.resolve(),
+      end: () => Promise.resolve(),
+      connectionParameters: { host: 'db', user: 'app', password: 'hunter2', database: 'billing' }
+    };
+
+    const result = await serializer.serialize(client, { sanitize: true, sensitiveFields: ['Database'] });
+
+    expect(result.data.config.password).toBe('[REDACTED]');
+    expect(result.data.config.database).toBe('[REDACTED]');
+    expect(result.data.config.host).toBe('db');
+  });
+
+  it('should sanitize internalQuery on errors', async () => {
+    const error = {
+      code: '42601',
+      message: 'syntax error',
+      internalQuery: "ALTER USER app WITH password = 'hunter2'"
+    };
+
+    const result = await serializer.serialize(error, { sanitize: true });
+
+    expect(result.data.internalQuery).not.toContain('hunter2');
+  });
+
+  it('should enforce maxDepth', async () => {
+    const query = { text: 'SELECT 1', values: [{ nested: { deep: true } }] };
+
+    const result = await serializer.serialize(query, { maxDepth: 2 });
+
+    expect(result.data.values).toEqual(['[MAX_DEPTH_REACHED]']);
+  });
+
+  it('should redact positional values bound to sensitive columns', async () => {
+    const query = {
+      text: 'INSERT INTO users (email, password_hash) VALUES ($1, $2)',
+      values: ['ana@example.com', 'hunter2']
+    };
+
+    const result = await serializer.serialize(query, { sanitize: true });
+
+    expect(result.data.values).toEqual(['ana@example.com', '[REDACTED]']);
+  });
+});
@@ -198,4 +198,39 @@ describe('PrismaSerializer', () => {
       expect(result.metadata.duration).toBeLessThan(50); // Default timeout
     });
   });
-}); 
\ No newline at end of file
+
+  describe('sanitization', () => {
+    it('should redact sensitive args when sanitize is enabled', async () => {
+      const query = {
+        model: 'User',
+        action: 'create',
+        args: { data: { email: 'ana@example.com', password: 'hunter2' } }
+      };
+
+      const result = await serializer.serialize(query, { sanitize: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data.args).toEqual({ data: { email: 'ana@example.com', password: '[REDACTED]' } });
+    });
+
+    it('should redact custom sensitiveFields in addition to the defaults', async () => {
+      const error = {
+        code: 'P2002',
+        message: 'Unique constraint failed',
+        meta: { target: ['email'], Email: 'ana@example.com', token: 't-1' }
+      };
+
+      const result = await serializer.serialize(error, { sanitize: true, sensitiveFields: ['email'] });
+
+      expect(result.data.meta).toEqual({ target: ['email'], Email: '[REDACTED]', token: '[REDACTED]' });
+    });
+
+    it('should enforce maxDepth', async () => {
+      const query = { model: 'User', action: 'findMany', args: { where: { email: 'ana@example.com' } } };
+
+      const result = await serializer.serialize(query, { maxDepth: 2 });
+
+      expect(result.data.args).toEqual({ where: '[MAX_DEPTH_REACHED]' });
+    });
+  });
+});
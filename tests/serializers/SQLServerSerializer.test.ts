@@ -51,4 +51,52 @@ describe('SQLServerSerializer Smoke Tests', () => {
     expect(result.success).toBe(false);
     expect(result.error).toContain('Tipo de dato SQL Server no reconocido');
   });
-}); 
\ No newline at end of file
+
+  it('should redact credentials and sensitive parameters when sanitize is enabled', async () => {
+    const query = {
+      query: 'UPDATE users SET password = @password WHERE id = @id',
+      parameters: [{ name: 'password', value: 'hunter2', type: 'NVarChar' }, { name: 'id', value: 1 }],
+      config: { server: 'db', user: 'app', password: 'hunter2' }
+    };
+
+    const result = await serializer.serialize(query, { sanitize: true });
+
+    expect(result.success).toBe(true);
+    expect(result.data.parameters).toEqual([
+      { name: 'password', value: '[REDACTED]', type: 'NVarChar' },
+      { name: 'id', value: 1 }
+    ]);
+    expect(result.data.config.password).toBe('[REDACTED]');
+  });
+
+  it('should keep raw data when sanitize is not enabled', async () => {
+    const query = { query: 'SELECT 1', parameters: [{ name: 'password', value: 'hunter2' }] };
+
+    const result = await serializer.serialize(query, {});
+
+    expect(result.data.parameters[0].value).toBe('hunter2');
+  });
+
+  it('should redact custom sensitiveFields in addition to the defaults', async () => {
+    const query = {
+      query: 'SELECT * FROM users WHERE ssn = @ssn',
+      parameters: [{ name: 'SSN', value: '123-45-6789' }],
+      config: { server: 'db', database: 'hr', password: 'hunter2' }
+    };
+
+    const result = await serializer.serialize(query, { sanitize: true, sensitiveFields: ['ssn', 'Server'] });
+
+    expect(result.data.parameters[0].value).toBe('[REDACTED]');
+    expect(result.data.config.server).toBe('[REDACTED]');
+    expect(result.data.config.password).toBe('[REDACTED]');
+    expect(result.data.config.database).toBe('hr');
+  });
+
+  it('should enforce maxDepth', async () => {
+    const query = { query: 'SELECT @id', parameters: [{ name: 'id', value: 1 }] };
+
+    const result = await serializer.serialize(query, { maxDepth: 2 });
+
+    expect(result.data.parameters).toEqual(['[MAX_DEPTH_REACHED]']);
+  });
+});
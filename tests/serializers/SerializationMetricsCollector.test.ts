@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SerializationMetricsCollector } from '../../src/serializers/metrics/SerializationMetricsCollector';
+import { createSerializerRegistry, DefaultSerializationPipeline, SerializeStep } from '../../src/serializers';
+import { PostgreSQLSerializer } from '../../src/serializers/postgres/PostgreSQLSerializer';
+import { SerializationResult } from '../../src/types';
+
+const resultFor = (
+  serializer: string,
+  duration: number,
+  success = true,
+  error?: string,
+  timedOut?: boolean
+): SerializationResult => ({
+  success,
+  error,
+  metadata: { serializer, complexity: 'low', duration, timestamp: new Date().toISOString(), timedOut }
+});
+
+describe('SerializationMetricsCollector', () => {
+  let collector: SerializationMetricsCollector;
+
+  beforeEach(() => {
+    collector = new SerializationMetricsCollector();
+  });
+
+  it('should count successes, failures and timeouts', () => {
+    collector.record(resultFor('postgresql', 2));
+    collector.record(resultFor('postgresql', 4, false, 'Tipo de dato PostgreSQL no reconocido'));
+    collector.record(resultFor('prisma', 60, false, 'Serialización lenta: 60ms (máximo 50ms)', true));
+
+    const snapshot = collector.snapshot();
+
+    expect(snapshot.totalSerializations).toBe(3);
+    expect(snapshot.successfulSerializations).toBe(1);
+    expect(snapshot.failedSerializations).toBe(2);
+    expect(snapshot.timedOutSerializations).toBe(1);
+    expect(snapshot.totalDuration).toBe(66);
+    expect(snapshot.averageDuration).toBe(22);
+    expect(snapshot.serializerStats.postgresql).toMatchObject({ count: 2, failures: 1, averageDuration: 3 });
+  });
+
+  it('should count timeouts reported through a pipeline', async () => {
+    const slow = {
+      name: 'slow',
+      priority: 1,
+      canSerialize: () => true,
+      getComplexity: () => 'low' as const,
+      serialize: async () => resultFor('slow', 60, false, 'Serialización lenta: 60ms (máximo 50ms)', true)
+    };
+    const pipeline = new DefaultSerializationPipeline({
+      steps: [{ name: 'detect', execute: async (state) => ({ ...state, serializer: slow }) }, new SerializeStep()]
+    });
+
+    const result = await pipeline.execute({ any: 'data' }, {});
+    collector.record(result);
+
+    expect(result.error).toBe('[serialize] Serialización lenta: 60ms (máximo 50ms)');
+    expect(result.metadata.timedOut).toBe(true);
+    expect(collector.snapshot().timedOutSerializations).toBe(1);
+  });
+
+  it('should compute percentiles and cumulative buckets', () => {
+    for (let duration = 1; duration <= 100; duration++) {
+      collector.record(resultFor('postgresql', duration));
+    }
+
+    const { latency } = collector.snapshot();
+
+    expect(latency.p50).toBe(50);
+    expect(latency.p95).toBe(95);
+    expect(latency.p99).toBe(99);
+    expect(latency.max).toBe(100);
+    expect(latency.buckets.find(bucket => bucket.le === 10)?.count).toBe(10);
+    expect(latency.buckets[latency.buckets.length - 1]).toEqual({ le: Number.POSITIVE_INFINITY, count: 100 });
+  });
+
+  it('should keep only the most recent samples for percentiles', () => {
+    const small = new SerializationMetricsCollector({ maxSamples: 2 });
+    small.record(resultFor('postgresql', 100));
+    small.record(resultFor('postgresql', 1));
+    small.record(resultFor('postgresql', 1));
+
+    expect(small.snapshot().latency.p99).toBe(1);
+    expect(small.snapshot().latency.max).toBe(100);
+  });
+
+  it('should instrument a serializer without changing its behavior', async () => {
+    const serializer = collector.wrap(new PostgreSQLSerializer());
+
+    const result = await serializer.serialize({ text: 'SELECT 1' }, {});
+
+    expect(result.success).toBe(true);
+    expect(serializer.name).toBe('postgresql');
+    expect(serializer.canSerialize({ text: 'SELECT 1' })).toBe(true);
+    expect(collector.snapshot().serializerStats.postgresql.count).toBe(1);
+  });
+
+  it('should instrument a registry and attribute results per serializer', async () => {
+    const registry = collector.wrap(createSerializerRegistry());
+
+    await registry.serialize({ model: 'User', action: 'findMany' });
+    await registry.serialize({ random: 'data' });
+
+    const snapshot = collector.snapshot();
+    expect(Object.keys(snapshot.serializerStats).sort()).toEqual(['generic', 'prisma']);
+  });
+
+  it('should reset all metrics', () => {
+    collector.record(resultFor('postgresql', 5));
+
+    collector.reset();
+
+    expect(collector.snapshot()).toMatchObject({ totalSerializations: 0, serializerStats: {} });
+  });
+});
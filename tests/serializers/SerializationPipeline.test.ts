@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { DefaultSerializationPipeline } from '../../src/serializers/pipeline/SerializationPipeline';
+import { createSerializationPipeline, TruncateStep } from '../../src/serializers';
+
+describe('DefaultSerializationPipeline', () => {
+  it('should run the built-in steps and report per-step timing', async () => {
+    const pipeline = createSerializationPipeline();
+
+    const result = await pipeline.execute({ text: 'SELECT 1', values: [] }, {});
+
+    expect(result.success).toBe(true);
+    expect(result.metadata.serializer).toBe('postgresql');
+    expect(result.data.type).toBe('PostgreSQLQuery');
+    expect(result.metadata.steps?.map(step => step.name)).toEqual([
+      'detect', 'serialize', 'sanitize', 'truncate', 'enrich'
+    ]);
+    expect(result.metadata.dataType).toBe('Object');
+    expect(result.metadata.size).toBeGreaterThan(0);
+  });
+
+  it('should truncate results that exceed the size budget', async () => {
+    const pipeline = createSerializationPipeline();
+    const query = { text: `SELECT '${'x'.repeat(5000)}'`, values: [] };
+
+    const result = await pipeline.execute(query, { maxSize: 1000 });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata.truncated).toBe(true);
+    expect(result.metadata.size).toBeLessThanOrEqual(1000);
+  });
+
+  it('should let custom steps be inserted between built-in steps', async () => {
+    const pipeline = createSerializationPipeline();
+    pipeline.insertAfter('serialize', {
+      name: 'tag',
+      execute: async (state) => {
+        state.data.apiKey = 'abc123';
+        return state;
+      }
+    });
+
+    const result = await pipeline.execute({ text: 'SELECT 1' }, { sanitize: true });
+
+    expect(result.data.apiKey).toBe('[REDACTED]');
+    expect(result.metadata.sanitized).toBe(true);
+    expect(result.metadata.steps?.map(step => step.name)).toContain('tag');
+  });
+
+  it('should report which step failed', async () => {
+    const pipeline = new DefaultSerializationPipeline();
+    pipeline.addStep({
+      name: 'explode',
+      execute: async () => {
+        throw new Error('boom');
+      }
+    });
+
+    const result = await pipeline.execute({ any: 'data' }, {});
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('[explode] boom');
+    expect(result.metadata.serializer).toBe('generic');
+    expect(result.metadata.steps).toHaveLength(6);
+  });
+
+  it('should use the timeout strategy when the context has no timeout', async () => {
+    const seen: number[] = [];
+    const pipeline = new DefaultSerializationPipeline({
+      steps: [{ name: 'capture', execute: async (state, context) => { seen.push(context.timeout!); return state; } }],
+      timeoutStrategy: { name: 'fixed', calculateTimeout: () => 250 }
+    });
+
+    await pipeline.execute('data', {});
+    await pipeline.execute('data', { timeout: 10 });
+
+    expect(seen).toEqual([250, 10]);
+  });
+
+  it('should throw when inserting next to an unknown step', () => {
+    const pipeline = new DefaultSerializationPipeline();
+
+    expect(() => pipeline.insertBefore('missing', { name: 'x', execute: async (s) => s }))
+      .toThrow('Paso de serialización no encontrado: missing');
+  });
+});
+
+describe('TruncateStep', () => {
+  it('should keep the last-resort preview within maxSize without splitting characters', async () => {
+    const data = { rows: Array.from({ length: 50 }, (_, i) => ({ [`"ñandú ${i}"`]: '"€😀"'.repeat(30) })) };
+    const state = { input: data, data, metadata: {} };
+
+    const { data: truncated } = await new TruncateStep().execute(state, { maxSize: 120 });
+
+    const json = JSON.stringify(truncated);
+    expect(Object.keys(truncated)).toEqual(['preview']);
+    expect(Buffer.byteLength(json)).toBeLessThanOrEqual(120);
+    expect(Buffer.byteLength(json)).toBeGreaterThan(100);
+    expect(truncated.preview).not.toMatch(/[\uD800-\uDBFF]$/);
+    expect(Buffer.from(truncated.preview).toString()).toBe(truncated.preview);
+    expect(JSON.stringify(data).startsWith(truncated.preview)).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SerializerRegistry } from '../../src/serializers/SerializerRegistry';
+import { createSerializerRegistry, registerAllSerializers } from '../../src/serializers';
+import { PostgreSQLSerializer } from '../../src/serializers/postgres/PostgreSQLSerializer';
+import { PrismaSerializer } from '../../src/serializers/prisma/PrismaSerializer';
+import { TypeORMSerializer } from '../../src/serializers/typeorm/TypeORMSerializer';
+
+describe('SerializerRegistry', () => {
+  let registry: SerializerRegistry;
+
+  beforeEach(() => {
+    registry = createSerializerRegistry();
+  });
+
+  it('should keep serializers ordered by priority', () => {
+    const priorities = registry.getSerializers().map(serializer => serializer.priority);
+
+    expect(priorities).toEqual([...priorities].sort((a, b) => b - a));
+    expect(registry.getSerializers()[0].name).toBe('oracle');
+  });
+
+  it('should pick the highest-priority serializer that matches', () => {
+    const ambiguousError = { code: 'P2002', message: 'Unique constraint failed' };
+
+    expect(registry.findSerializer(ambiguousError)?.name).toBe('postgresql');
+  });
+
+  it('should honor an explicit type hint', async () => {
+    const ambiguousError = { code: 'P2002', message: 'Unique constraint failed' };
+
+    expect(registry.findSerializer(ambiguousError, 'prisma')?.name).toBe('prisma');
+
+    const result = await registry.serialize(ambiguousError, { typeHint: 'prisma' });
+    expect(result.metadata.serializer).toBe('prisma');
+    expect(result.data.type).toBe('PrismaError');
+  });
+
+  it('should ignore a type hint whose serializer cannot handle the data', () => {
+    const prismaQuery = { model: 'User', action: 'findMany' };
+
+    expect(registry.findSerializer(prismaQuery, 'postgresql')?.name).toBe('prisma');
+  });
+
+  it('should fall back to the generic serializer', async () => {
+    const result = await registry.serialize({ random: 'data', when: new Date(0) });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata.serializer).toBe('generic');
+    expect(result.data).toEqual({ random: 'data', when: '1970-01-01T00:00:00.000Z' });
+  });
+
+  it('should report a failure when there is no fallback', async () => {
+    const strict = new SerializerRegistry({ fallback: null });
+    strict.register(new PostgreSQLSerializer());
+
+    const result = await strict.serialize({ random: 'data' });
+
+    expect(result.success).toBe(false);
+    expect(result.metadata.serializer).toBe('none');
+  });
+
+  it('should break priority ties by registration order and replace by name', () => {
+    const tied = new SerializerRegistry();
+    const first = new TypeORMSerializer();
+    const second = Object.assign(new PrismaSerializer(), { priority: first.priority });
+    tied.register(first);
+    tied.register(second);
+
+    expect(tied.getSerializers().map(s => s.name)).toEqual(['typeorm', 'prisma']);
+
+    tied.register(new TypeORMSerializer());
+    expect(tied.getSerializers().map(s => s.name)).toEqual(['prisma', 'typeorm']);
+    expect(tied.unregister('prisma')).toBe(true);
+    expect(tied.get('prisma')).toBeUndefined();
+  });
+
+  it('should register every serializer through registerAllSerializers', () => {
+    const empty = new SerializerRegistry();
+
+    registerAllSerializers(empty);
+
+    expect(empty.getSerializers()).toHaveLength(7);
+  });
+});
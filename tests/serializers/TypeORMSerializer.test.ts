@@ -52,4 +52,46 @@ describe('TypeORMSerializer Smoke Tests', () => {
     expect(result.success).toBe(false);
     expect(result.error).toContain('Tipo de dato TypeORM no reconocido');
   });
-}); 
\ No newline at end of file
+
+  it('should redact parameters bound to sensitive columns when sanitize is enabled', async () => {
+    const query = {
+      sql: 'UPDATE "user" SET "password" = $1 WHERE "id" = $2',
+      parameters: ['hunter2', 7],
+      queryType: 'UPDATE'
+    };
+
+    const result = await serializer.serialize(query, { sanitize: true });
+
+    expect(result.success).toBe(true);
+    expect(result.data.parameters).toEqual(['[REDACTED]', 7]);
+  });
+
+  it('should keep raw data when sanitize is not enabled', async () => {
+    const query = { sql: 'UPDATE user SET password = ? WHERE id = ?', parameters: ['hunter2', 7] };
+
+    const result = await serializer.serialize(query, {});
+
+    expect(result.data.parameters).toEqual(['hunter2', 7]);
+  });
+
+  it('should redact custom sensitiveFields in addition to the defaults on errors', async () => {
+    const error = {
+      message: 'duplicate key value violates unique constraint',
+      code: '23505',
+      query: 'INSERT INTO customer (tax_id, api_token, name) VALUES (?, ?, ?)',
+      parameters: ['20-12345678-9', 'tok-1', 'Ana']
+    };
+
+    const result = await serializer.serialize(error, { sanitize: true, sensitiveFields: ['TAX_ID'] });
+
+    expect(result.data.parameters).toEqual(['[REDACTED]', '[REDACTED]', 'Ana']);
+  });
+
+  it('should enforce maxDepth', async () => {
+    const query = { sql: 'SELECT ?', parameters: [{ nested: { deep: true } }] };
+
+    const result = await serializer.serialize(query, { maxDepth: 2 });
+
+    expect(result.data.parameters).toEqual(['[MAX_DEPTH_REACHED]']);
+  });
+});
@@ -0,0 +1,7 @@
+import { describeBrokerAdapterConformance } from '../../src/testing';
+import { InMemoryBrokerAdapter } from '../../src/brokers/InMemoryBrokerAdapter';
+
+describeBrokerAdapterConformance('InMemoryBrokerAdapter', () => new InMemoryBrokerAdapter(), {
+  deliveryTimeoutMs: 1000,
+  quietPeriodMs: 20
+});
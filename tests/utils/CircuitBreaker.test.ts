@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreaker, CircuitOpenError } from '../../src/utils/CircuitBreaker';
+
+const fail = () => Promise.reject(new Error('boom'));
+const succeed = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = new CircuitBreaker({ failureRateThreshold: 0.5, minimumCalls: 4, windowMs: 10000, cooldownMs: 5000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should stay closed until the minimum number of calls is reached', async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute('payments', fail)).rejects.toThrow('boom');
+    }
+
+    expect(breaker.getState('payments')).toBe('closed');
+  });
+
+  it('should open when the failure rate crosses the threshold and fail fast', async () => {
+    const onChange = vi.fn();
+    breaker.on('stateChange', onChange);
+
+    await breaker.execute('payments', succeed);
+    await breaker.execute('payments', succeed);
+    await expect(breaker.execute('payments', fail)).rejects.toThrow('boom');
+    await expect(breaker.execute('payments', fail)).rejects.toThrow('boom');
+
+    expect(breaker.getState('payments')).toBe('open');
+    expect(onChange).toHaveBeenCalledWith({ key: 'payments', from: 'closed', to: 'open', failureRate: 0.5 });
+
+    const operation = vi.fn(succeed);
+    const error = await breaker.execute('payments', operation).catch(e => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ key: 'payments', retryAfterMs: 5000 });
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should keep a separate circuit per key', async () => {
+    for (let i = 0; i < 4; i++) {
+      await expect(breaker.execute('payments', fail)).rejects.toThrow();
+    }
+
+    await expect(breaker.execute('inventory', succeed)).resolves.toBe('ok');
+    expect(breaker.getState('inventory')).toBe('closed');
+  });
+
+  it('should forget failures that left the rolling window', async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute('payments', fail)).rejects.toThrow();
+    }
+    vi.advanceTimersByTime(11000);
+    await expect(breaker.execute('payments', fail)).rejects.toThrow();
+
+    expect(breaker.getState('payments')).toBe('closed');
+  });
+
+  it('should close after a successful trial call once the cooldown elapses', async () => {
+    const transitions: string[] = [];
+    breaker.on('stateChange', ({ to }) => transitions.push(to));
+    for (let i = 0; i < 4; i++) {
+      await expect(breaker.execute('payments', fail)).rejects.toThrow();
+    }
+
+    vi.advanceTimersByTime(5000);
+    expect(breaker.getState('payments')).toBe('half-open');
+    await expect(breaker.execute('payments', succeed)).resolves.toBe('ok');
+
+    expect(breaker.getState('payments')).toBe('closed');
+    expect(transitions).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should reopen when the trial call fails and reject extra trial calls', async () => {
+    for (let i = 0; i < 4; i++) {
+      await expect(breaker.execute('payments', fail)).rejects.toThrow();
+    }
+    vi.advanceTimersByTime(5000);
+
+    let rejectTrial!: (error: Error) => void;
+    const trial = breaker.execute('payments', () => new Promise((_resolve, reject) => { rejectTrial = reject; }));
+    await expect(breaker.execute('payments', succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    rejectTrial(new Error('still down'));
+    await expect(trial).rejects.toThrow('still down');
+    expect(breaker.getState('payments')).toBe('open');
+  });
+
+  it('should ignore errors that are not failures', async () => {
+    const lenient = new CircuitBreaker({ minimumCalls: 1, isFailure: error => (error as Error).message !== 'not found' });
+
+    await expect(lenient.execute('users', () => Promise.reject(new Error('not found')))).rejects.toThrow();
+
+    expect(lenient.getState('users')).toBe('closed');
+  });
+
+  it('should reset circuits', async () => {
+    for (let i = 0; i < 4; i++) {
+      await expect(breaker.execute('payments', fail)).rejects.toThrow();
+    }
+
+    breaker.reset();
+
+    expect(breaker.getState('payments')).toBe('closed');
+    await expect(breaker.execute('payments', succeed)).resolves.toBe('ok');
+  });
+});